@@ -0,0 +1,43 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { ZodTypeAny } from 'zod'
+import { GATEWAY_BASE_PATH, gatewayOperations } from '../../frontend/lib/x402/gateway/schemas'
+
+// 用生成的 schema 校验 OpenAPI 文档自带的响应示例，列出文档自身的不一致：
+//   npx tsx backend/api/check-gateway-examples.ts
+
+interface MediaType {
+  example?: unknown
+  examples?: Record<string, { summary?: string; value?: unknown }>
+}
+
+const spec = JSON.parse(readFileSync(join(__dirname, 'Payment-Getway-x402.openapi.json'), 'utf8'))
+let failures = 0
+
+for (const [name, operation] of Object.entries(gatewayOperations)) {
+  const responses = spec.paths[`${GATEWAY_BASE_PATH}${operation.path}`]?.[operation.method.toLowerCase()]?.responses || {}
+  for (const [status, schema] of Object.entries(operation.responses) as [string, ZodTypeAny][]) {
+    const media: MediaType = responses[status]?.content?.['application/json'] || {}
+    const examples = [
+      ...(media.example !== undefined ? [{ label: 'example', value: media.example }] : []),
+      ...Object.entries(media.examples || {}).map(([key, item]) => ({ label: `examples.${key}`, value: item.value }))
+    ]
+    for (const { label, value } of examples) {
+      const result = schema.safeParse(value)
+      if (result.success) {
+        console.log(`✓ ${name} ${status} ${label}`)
+        continue
+      }
+      failures += 1
+      console.log(`✗ ${name} ${status} ${label}`)
+      for (const issue of result.error.issues) {
+        console.log(`    ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      }
+    }
+  }
+}
+
+if (failures) {
+  console.log(`\n${failures} 个示例与 schema 不一致`)
+  process.exit(1)
+}
@@ -0,0 +1,133 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join, relative } from 'node:path'
+
+// 根据 Payment-Getway-x402.openapi.json 生成 zod 校验 schema：
+//   npx tsx backend/api/generate-gateway-client.ts
+// 输出 frontend/lib/x402/gateway/schemas.ts，修改 OpenAPI 后重新运行，不要手动编辑生成的文件
+
+const SPEC_PATH = join(__dirname, 'Payment-Getway-x402.openapi.json')
+const OUTPUT_PATH = join(__dirname, '../../frontend/lib/x402/gateway/schemas.ts')
+const GATEWAY_BASE_PATH = '/openapi/crypto/x402'
+
+interface JsonSchema {
+  $ref?: string
+  type?: string
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+}
+
+interface OpenApiResponse {
+  description?: string
+  content?: { 'application/json'?: { schema?: JsonSchema } }
+}
+
+interface OpenApiOperation {
+  summary?: string
+  responses: Record<string, OpenApiResponse>
+}
+
+interface OpenApiSpec {
+  paths: Record<string, Record<string, OpenApiOperation>>
+  components: { schemas: Record<string, JsonSchema> }
+}
+
+const pascalCase = (value: string): string =>
+  value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('')
+
+// GET /order/{orderId} -> GetOrderByOrderId
+const operationName = (method: string, path: string): string =>
+  pascalCase(method) +
+  path
+    .slice(GATEWAY_BASE_PATH.length)
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (segment.startsWith('{') ? `By${pascalCase(segment)}` : pascalCase(segment)))
+    .join('')
+
+const refName = (ref: string): string => `${ref.split('/').pop()}Schema`
+
+const toZod = (schema: JsonSchema, indent = ''): string => {
+  if (schema.$ref) return refName(schema.$ref)
+  switch (schema.type) {
+    case 'string':
+      return 'z.string()'
+    case 'integer':
+      return 'z.number().int()'
+    case 'number':
+      return 'z.number()'
+    case 'boolean':
+      return 'z.boolean()'
+    case 'array':
+      return `z.array(${schema.items ? toZod(schema.items, indent) : 'z.unknown()'})`
+    case 'object': {
+      const required = new Set(schema.required || [])
+      const fieldIndent = `${indent}    `
+      const fields = Object.entries(schema.properties || {}).map(([key, value]) => {
+        const comment = value.description ? `${fieldIndent}// ${value.description.split('\n')[0]}\n` : ''
+        return `${comment}${fieldIndent}${key}: ${toZod(value, fieldIndent)}${required.has(key) ? '' : '.optional()'}`
+      })
+      if (!fields.length) return 'z.object({}).passthrough()'
+      // 保留未声明的字段，网关新增字段不影响校验
+      return `z\n${indent}  .object({\n${fields.join(',\n')}\n${indent}  })\n${indent}  .passthrough()`
+    }
+    default:
+      return 'z.unknown()'
+  }
+}
+
+const generate = (spec: OpenApiSpec): string => {
+  const lines: string[] = [
+    `// 由 ${relative(join(__dirname, '../..'), __filename)} 根据 Payment-Getway-x402.openapi.json 生成，请勿手动修改`,
+    "import { z } from 'zod'",
+    '',
+    `export const GATEWAY_BASE_PATH = '${GATEWAY_BASE_PATH}'`,
+    ''
+  ]
+
+  for (const [name, schema] of Object.entries(spec.components.schemas)) {
+    // 类型名加 Gateway 前缀，避免 Error 等名称遮蔽全局类型
+    lines.push(`export const ${name}Schema = ${toZod(schema)}`, `export type Gateway${name} = z.infer<typeof ${name}Schema>`, '')
+  }
+
+  const operations: string[] = []
+  for (const [path, methods] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const name = operationName(method, path)
+      const responses: string[] = []
+      for (const [status, response] of Object.entries(operation.responses)) {
+        const schema = response.content?.['application/json']?.schema
+        if (!schema) continue
+        const schemaName = `${name}${status}Schema`
+        lines.push(
+          `// ${method.toUpperCase()} ${path} ${status}${response.description ? ` - ${response.description}` : ''}`,
+          `export const ${schemaName} = ${toZod(schema)}`,
+          `export type ${name}${status} = z.infer<typeof ${schemaName}>`,
+          ''
+        )
+        responses.push(`      ${status}: ${schemaName}`)
+      }
+      operations.push(
+        `  ${name}: {\n    method: '${method.toUpperCase()}',\n    path: '${path.slice(GATEWAY_BASE_PATH.length)}',\n    responses: {\n${responses.join(',\n')}\n    }\n  }`
+      )
+    }
+  }
+
+  lines.push(
+    '// 每个接口按 HTTP 状态码对应的响应 schema，path 相对于 GATEWAY_BASE_PATH',
+    `export const gatewayOperations = {\n${operations.join(',\n')}\n} as const`,
+    '',
+    'export type GatewayOperationName = keyof typeof gatewayOperations',
+    ''
+  )
+  return lines.join('\n')
+}
+
+const spec = JSON.parse(readFileSync(SPEC_PATH, 'utf8')) as OpenApiSpec
+writeFileSync(OUTPUT_PATH, generate(spec))
+console.log(`Generated ${relative(process.cwd(), OUTPUT_PATH)}`)
@@ -0,0 +1,74 @@
+export type MockScenario = 'normal' | 'waiting' | 'invalid_payment' | 'partially_paid' | 'over_paid' | 'expired'
+
+export const MOCK_SCENARIOS: MockScenario[] = ['normal', 'waiting', 'invalid_payment', 'partially_paid', 'over_paid', 'expired']
+
+// 创建订单时可用该 header 覆盖默认场景，之后同一订单的确认与查询都按此场景处理
+export const MOCK_SCENARIO_HEADER = 'X-Mock-Scenario'
+
+export interface MockGatewayConfig {
+  port: number
+  merchantAppKey: string
+  rpcUrl: string
+  network: string
+  mint: string
+  symbol: string
+  decimals: number
+  payTo: string
+  // 订单金额，使用代币最小单位
+  amount: string
+  expiresSeconds: number
+  // expired 场景下报价的有效期，足够短以便在 UI 中观察到过期
+  expiredScenarioSeconds: number
+  // waiting 场景下订单查询保持 Not Paid 的次数
+  waitingPolls: number
+  // 是否接受 X-PAYMENT 中已签名未广播的交易并代为提交；关闭时返回 unsupported_payload，客户端退回自行广播
+  signedPayload: boolean
+  scenario: MockScenario
+}
+
+export const isMockScenario = (value: unknown): value is MockScenario =>
+  typeof value === 'string' && MOCK_SCENARIOS.includes(value as MockScenario)
+
+const readInt = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined || value === '') return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} 必须是非负整数：${value}`)
+  }
+  return parsed
+}
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): MockGatewayConfig => {
+  const mint = env.MOCK_MINT || ''
+  const payTo = env.MOCK_PAY_TO || ''
+  if (!mint || !payTo) {
+    throw new Error('缺少 MOCK_MINT 或 MOCK_PAY_TO，请先运行 seed.ts 在本地验证器上创建代币与收款账户')
+  }
+
+  const amount = env.MOCK_AMOUNT || '2600000'
+  if (!/^\d+$/.test(amount)) {
+    throw new Error(`MOCK_AMOUNT 必须是最小单位的整数：${amount}`)
+  }
+
+  const scenario = env.MOCK_SCENARIO || 'normal'
+  if (!isMockScenario(scenario)) {
+    throw new Error(`未知的 MOCK_SCENARIO：${scenario}，可选 ${MOCK_SCENARIOS.join(' / ')}`)
+  }
+
+  return {
+    port: readInt(env.MOCK_PORT, 4020, 'MOCK_PORT'),
+    merchantAppKey: env.MERCHANT_APP_KEY || 'merchant_key_123',
+    rpcUrl: env.SOLANA_RPC_URL || 'http://127.0.0.1:8899',
+    network: env.MOCK_NETWORK || 'solana-localnet',
+    mint,
+    symbol: env.MOCK_SYMBOL || 'USDC',
+    decimals: readInt(env.MOCK_DECIMALS, 6, 'MOCK_DECIMALS'),
+    payTo,
+    amount,
+    expiresSeconds: readInt(env.MOCK_EXPIRES, 600, 'MOCK_EXPIRES'),
+    expiredScenarioSeconds: readInt(env.MOCK_EXPIRED_SCENARIO_EXPIRES, 5, 'MOCK_EXPIRED_SCENARIO_EXPIRES'),
+    waitingPolls: readInt(env.MOCK_WAITING_POLLS, 3, 'MOCK_WAITING_POLLS'),
+    signedPayload: !['0', 'false'].includes((env.MOCK_SIGNED_PAYLOAD || '').toLowerCase()),
+    scenario
+  }
+}
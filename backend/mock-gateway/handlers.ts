@@ -0,0 +1,222 @@
+import { randomBytes } from 'node:crypto'
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, SystemProgram, Transaction, sendAndConfirmTransaction } from '@solana/web3.js'
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotent,
+  createInitializeMintInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  createMint,
+  getMintLen,
+  mintTo
+} from '@solana/spl-token'
+import { createPublicClient, erc20Abi, getAddress, http, type Address } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { getErrorMessage, type PaymentAccept, type X402TransferRequest } from '../../frontend/lib/x402'
+import {
+  ANVIL_CHAIN,
+  createEvmSchemeHandler,
+  createSolanaSchemeHandler,
+  deriveOrderReference,
+  keypairWallet,
+  type PaymentSchemeHandler
+} from '../../frontend/lib/x402/schemes'
+import { verifySolanaTransfer } from '../x402-server'
+
+// 不经过网关，直接在本地链上跑 SDK 的链上 handler：
+//   solana-test-validator --reset
+//   anvil
+//   npx tsx backend/mock-gateway/handlers.ts [solana] [evm]
+// Solana 部分自行创建 SPL Token 与带转账手续费的 Token-2022 代币；
+// EVM 部分需要一个已部署在 anvil 上的 ERC-20（ANVIL_TOKEN），余额在 ANVIL_PRIVATE_KEY 对应的账户名下，默认 anvil 的 0 号账户
+
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'http://127.0.0.1:8899'
+const ANVIL_RPC_URL = process.env.ANVIL_RPC_URL || ANVIL_CHAIN.rpcUrl
+// anvil 默认助记词的 0 号账户，只用于本地链
+const ANVIL_PRIVATE_KEY = (process.env.ANVIL_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80') as `0x${string}`
+const ANVIL_PAY_TO = process.env.ANVIL_PAY_TO || '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const DECIMALS = 6
+const AMOUNT = '2.6'
+const AMOUNT_IN_SMALLEST_UNIT = BigInt(2_600_000)
+// Token-2022 转账手续费 1%，上限 1 个代币
+const FEE_BASIS_POINTS = 100
+const MAX_FEE = BigInt(10) ** BigInt(DECIMALS)
+
+let failures = 0
+
+const check = (label: string, passed: boolean, detail = '') => {
+  if (!passed) failures += 1
+  console.log(`${passed ? '✓' : '✗'} ${label}${detail ? `：${detail}` : ''}`)
+}
+
+const acceptFor = (network: string, asset: string, symbol: string, payTo: string): PaymentAccept => ({
+  scheme: 'exact',
+  network,
+  asset,
+  symbol,
+  decimals: DECIMALS,
+  payTo,
+  resource: '/openapi/crypto/x402/order',
+  description: 'Local handler check',
+  nonce: randomBytes(8).toString('hex'),
+  expires: 600,
+  maxAmountRequired: AMOUNT_IN_SMALLEST_UNIT.toString()
+})
+
+const requestFor = (accept: PaymentAccept, orderId: string): X402TransferRequest => ({
+  accept,
+  orderId,
+  amount: AMOUNT,
+  amountInSmallestUnit: AMOUNT_IN_SMALLEST_UNIT,
+  decimals: DECIMALS
+})
+
+const airdrop = async (connection: Connection, address: PublicKey, sol: number) => {
+  const signature = await connection.requestAirdrop(address, sol * LAMPORTS_PER_SOL)
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+  await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed')
+}
+
+// 创建带 TransferFeeConfig 扩展的 Token-2022 Mint
+const createTransferFeeMint = async (connection: Connection, payer: Keypair): Promise<PublicKey> => {
+  const mint = Keypair.generate()
+  const space = getMintLen([ExtensionType.TransferFeeConfig])
+  const transaction = new Transaction().add(
+    SystemProgram.createAccount({
+      fromPubkey: payer.publicKey,
+      newAccountPubkey: mint.publicKey,
+      space,
+      lamports: await connection.getMinimumBalanceForRentExemption(space),
+      programId: TOKEN_2022_PROGRAM_ID
+    }),
+    createInitializeTransferFeeConfigInstruction(mint.publicKey, payer.publicKey, payer.publicKey, FEE_BASIS_POINTS, MAX_FEE, TOKEN_2022_PROGRAM_ID),
+    createInitializeMintInstruction(mint.publicKey, DECIMALS, payer.publicKey, null, TOKEN_2022_PROGRAM_ID)
+  )
+  await sendAndConfirmTransaction(connection, transaction, [payer, mint])
+  return mint.publicKey
+}
+
+const createFundedMint = async (connection: Connection, payer: Keypair, programId: PublicKey): Promise<PublicKey> => {
+  const mint = programId.equals(TOKEN_2022_PROGRAM_ID)
+    ? await createTransferFeeMint(connection, payer)
+    : await createMint(connection, payer, payer.publicKey, null, DECIMALS)
+  const account = await createAssociatedTokenAccountIdempotent(connection, payer, mint, payer.publicKey, {}, programId)
+  await mintTo(connection, payer, mint, account, payer, BigInt(1000) * BigInt(10) ** BigInt(DECIMALS), [], {}, programId)
+  return mint
+}
+
+// 收款方实收按交易前后余额差计算，付款方承担 Token-2022 手续费，实收应等于请求金额
+const checkSolanaReceipt = async (connection: Connection, label: string, txHash: string, request: X402TransferRequest) => {
+  const reference = deriveOrderReference({ orderId: request.orderId, nonce: request.accept.nonce }).toBase58()
+  const result = await verifySolanaTransfer(connection, txHash, { mint: request.accept.asset, payTo: request.accept.payTo, reference })
+  check(
+    `${label} 收款方实收 ${AMOUNT_IN_SMALLEST_UNIT}`,
+    result.status === 'confirmed' && result.received === AMOUNT_IN_SMALLEST_UNIT,
+    result.status === 'confirmed' ? `实收 ${result.received}` : result.status === 'failed' ? result.message : '未找到交易'
+  )
+}
+
+const runSolanaMint = async (connection: Connection, handler: PaymentSchemeHandler, accept: PaymentAccept, label: string) => {
+  console.log(`\n--- ${label} (${accept.asset}) ---`)
+  check(`${label} supports`, handler.supports(accept))
+  check(`${label} getDecimals`, (await handler.getDecimals?.(accept)) === DECIMALS)
+
+  const request = requestFor(accept, `LOCAL-${randomBytes(4).toString('hex')}`)
+  const estimate = await handler.estimateFee?.(request)
+  check(
+    `${label} estimateFee`,
+    Boolean(estimate?.sufficient),
+    estimate ? `total ${estimate.total} ${estimate.nativeSymbol}, token fee ${estimate.tokenFee ?? '0'}` : '未实现'
+  )
+
+  const txHash = await handler.transfer(request)
+  check(`${label} transfer`, handler.isValidTxHash(txHash), txHash)
+  check(`${label} getTransactionStatus`, (await handler.getTransactionStatus(txHash, accept)) === 'confirmed')
+  await checkSolanaReceipt(connection, `${label} transfer`, txHash, request)
+
+  const signedRequest = requestFor(accept, `LOCAL-${randomBytes(4).toString('hex')}`)
+  const signed = await handler.signTransfer?.(signedRequest)
+  if (!signed || !handler.sendSignedTransfer) {
+    check(`${label} signTransfer`, false, '未返回已签名的交易')
+    return
+  }
+  check(`${label} signTransfer 未广播`, (await handler.getTransactionStatus(signed.txHash, accept)) === 'not_found')
+  const sentHash = await handler.sendSignedTransfer(accept, signed.transaction)
+  check(`${label} sendSignedTransfer`, sentHash === signed.txHash, sentHash)
+  await checkSolanaReceipt(connection, `${label} sendSignedTransfer`, sentHash, signedRequest)
+
+  const balances = await handler.getBalances(accept)
+  console.log(`Balances: ${balances?.native} ${balances?.nativeSymbol}, ${balances?.token} ${balances?.tokenSymbol}`)
+}
+
+const runSolana = async () => {
+  console.log('\n=== solana ===')
+  const connection = new Connection(SOLANA_RPC_URL, 'confirmed')
+  await connection.getVersion().catch(() => {
+    throw new Error(`无法连接 ${SOLANA_RPC_URL}，请先启动 solana-test-validator`)
+  })
+
+  const payer = Keypair.generate()
+  const merchant = Keypair.generate()
+  await airdrop(connection, payer.publicKey, 5)
+  const splMint = await createFundedMint(connection, payer, TOKEN_PROGRAM_ID)
+  const feeMint = await createFundedMint(connection, payer, TOKEN_2022_PROGRAM_ID)
+
+  const handler = createSolanaSchemeHandler({ connection, wallet: keypairWallet(payer), defaultMint: splMint.toBase58() })
+  const payTo = merchant.publicKey.toBase58()
+  await runSolanaMint(connection, handler, acceptFor('solana-localnet', splMint.toBase58(), 'TEST', payTo), 'SPL Token')
+  await runSolanaMint(connection, handler, acceptFor('solana-localnet', feeMint.toBase58(), 'FEE', payTo), 'Token-2022 transfer fee')
+}
+
+const runEvm = async () => {
+  console.log('\n=== evm ===')
+  const token = process.env.ANVIL_TOKEN
+  if (!token) {
+    throw new Error('缺少 ANVIL_TOKEN：请先在 anvil 上部署一个 ERC-20，并把余额铸给 ANVIL_PRIVATE_KEY 对应的账户')
+  }
+  const chain = { ...ANVIL_CHAIN, rpcUrl: ANVIL_RPC_URL }
+  const account = privateKeyToAccount(ANVIL_PRIVATE_KEY)
+  const handler = createEvmSchemeHandler({ chains: [chain], account })
+  const publicClient = createPublicClient({ transport: http(ANVIL_RPC_URL) })
+  const payTo = getAddress(ANVIL_PAY_TO)
+  const balanceOf = (address: Address) =>
+    publicClient.readContract({ address: getAddress(token), abi: erc20Abi, functionName: 'balanceOf', args: [address] })
+
+  const accept = acceptFor('anvil', token, 'TEST', payTo)
+  check('ERC-20 supports', handler.supports(accept))
+  const decimals = await handler.getDecimals?.(accept)
+  check('ERC-20 getDecimals', decimals === DECIMALS, String(decimals))
+
+  const before = await balanceOf(payTo)
+  const txHash = await handler.transfer(requestFor(accept, `LOCAL-${randomBytes(4).toString('hex')}`))
+  check('ERC-20 transfer', handler.isValidTxHash(txHash), txHash)
+  check('ERC-20 getTransactionStatus', (await handler.getTransactionStatus(txHash, accept)) === 'confirmed')
+  const received = (await balanceOf(payTo)) - before
+  check(`ERC-20 收款方实收 ${AMOUNT_IN_SMALLEST_UNIT}`, received === AMOUNT_IN_SMALLEST_UNIT, `实收 ${received}`)
+  check('ERC-20 未知交易为 not_found', (await handler.getTransactionStatus(`0x${'0'.repeat(64)}`, accept)) === 'not_found')
+
+  const balances = await handler.getBalances(accept)
+  console.log(`Balances: ${balances?.native} ${balances?.nativeSymbol}, ${balances?.token} ${balances?.tokenSymbol}`)
+}
+
+const CHAINS: Record<string, () => Promise<void>> = { solana: runSolana, evm: runEvm }
+
+const main = async () => {
+  const requested = process.argv.slice(2)
+  const chains = requested.length ? requested.filter((name) => name in CHAINS) : Object.keys(CHAINS)
+  for (const name of chains) {
+    try {
+      await CHAINS[name]()
+    } catch (error) {
+      check(name, false, getErrorMessage(error))
+    }
+  }
+  console.log(failures ? `\n${failures} check(s) failed` : '\nAll checks passed')
+  if (failures) process.exit(1)
+}
+
+main().catch((error) => {
+  console.error(getErrorMessage(error))
+  process.exit(1)
+})
@@ -0,0 +1,10 @@
+import { loadConfig } from './config'
+import { BASE_PATH, createMockGateway } from './server'
+
+// 运行：MOCK_MINT=... MOCK_PAY_TO=... npx tsx backend/mock-gateway/index.ts
+const config = loadConfig()
+createMockGateway(config).listen(config.port, () => {
+  console.log(`Mock x402 gateway listening on http://127.0.0.1:${config.port}${BASE_PATH}`)
+  console.log(`Scenario: ${config.scenario}, network: ${config.network}, mint: ${config.mint}, payTo: ${config.payTo}`)
+  console.log(`Signed X-PAYMENT transactions: ${config.signedPayload ? 'accepted' : 'rejected (unsupported_payload)'}`)
+})
@@ -0,0 +1,269 @@
+import { randomBytes } from 'node:crypto'
+import { Connection } from '@solana/web3.js'
+import { deriveOrderReference } from '../../frontend/lib/x402/schemes/solanaReference'
+import type { SettlementResponse } from '../../frontend/lib/x402/settlement'
+import type { OrderStatus, PayStatus, PaymentAccept, XPaymentPayload } from '../../frontend/lib/x402/types'
+import { createMemorySignatureStore, submitSignedSolanaTransfer, verifySolanaTransfer } from '../x402-server'
+import type { MockGatewayConfig, MockScenario } from './config'
+
+export const X402_RESOURCE = '/openapi/crypto/x402/order'
+
+interface SubmittedPayment {
+  accept: PaymentAccept
+  txHash: string
+  amount: string
+  // 链上核实后网关认可的金额，尚未找到交易时为 null
+  credited: bigint | null
+}
+
+export interface MockOrder {
+  orderId: string
+  scenario: MockScenario
+  description: string
+  accepts: PaymentAccept[]
+  issuedAt: number
+  orderStatus: string
+  message: string
+  payStatus: PayStatus
+  paidAmount: string
+  gasFee: string
+  // 按提交顺序；部分支付后可以用新的交易补款，最后一笔为最新提交
+  payments: SubmittedPayment[]
+  // waiting 场景：剩余多少次查询后才公布链上结果
+  pollsUntilReveal: number
+}
+
+export interface ErrorBody {
+  error: string
+  message: string
+  orderId?: string
+}
+
+export type ConfirmOutcome =
+  | {
+      status: 200
+      body: { orderId: string; orderStatus: string; message: string }
+      settlement: SettlementResponse | null
+    }
+  | { status: 400; body: ErrorBody }
+
+export interface OrderBook {
+  create: (description: string, scenario: MockScenario) => MockOrder
+  confirm: (payment: XPaymentPayload) => Promise<ConfirmOutcome>
+  status: (orderId: string) => Promise<OrderStatus | null>
+}
+
+const WAITING_MESSAGE = 'Waiting for Payment'
+
+let sequence = 0
+const nextOrderId = (): string => {
+  sequence = (sequence + 1) % 100000
+  return `CO${new Date().toISOString().replace(/\D/g, '').slice(0, 14)}${String(sequence).padStart(5, '0')}`
+}
+
+const isSettled = (order: MockOrder) => order.payStatus === 'Fully Paid' || order.payStatus === 'Over Paid'
+
+export const createOrderBook = (config: MockGatewayConfig, connection: Connection): OrderBook => {
+  const orders = new Map<string, MockOrder>()
+  // 与 x402 中间件共用签名存储：同一笔交易不能支付两个订单
+  const signatures = createMemorySignatureStore()
+
+  const create = (description: string, scenario: MockScenario): MockOrder => {
+    const order: MockOrder = {
+      orderId: nextOrderId(),
+      scenario,
+      description,
+      accepts: [
+        {
+          scheme: 'exact',
+          network: config.network,
+          asset: config.mint,
+          symbol: config.symbol,
+          // 按 OpenAPI 声明返回字符串
+          decimals: String(config.decimals),
+          payTo: config.payTo,
+          resource: X402_RESOURCE,
+          description: description || 'Payment for order',
+          nonce: randomBytes(8).toString('hex'),
+          expires: scenario === 'expired' ? config.expiredScenarioSeconds : config.expiresSeconds,
+          maxAmountRequired: config.amount,
+          ...(config.signedPayload ? { extra: { signedTransaction: true } } : {})
+        }
+      ],
+      issuedAt: Date.now(),
+      orderStatus: 'pending',
+      message: 'Payment required',
+      payStatus: 'Not Paid',
+      paidAmount: '0',
+      gasFee: '0',
+      payments: [],
+      pollsUntilReveal: 0
+    }
+    orders.set(order.orderId, order)
+    console.log(`[order] ${order.orderId} created (scenario: ${scenario}, nonce: ${order.accepts[0].nonce})`)
+    return order
+  }
+
+  // 到链上核对尚未核实的交易并重新计算到账金额；返回失败原因，成功或仍在等待时返回 null
+  const refresh = async (order: MockOrder): Promise<string | null> => {
+    const pending = order.payments.filter((payment) => payment.credited === null)
+    if (!pending.length || isSettled(order)) return null
+    if (order.pollsUntilReveal > 0) return null
+
+    for (const payment of pending) {
+      const reference = deriveOrderReference({ orderId: order.orderId, nonce: payment.accept.nonce }).toBase58()
+      const check = await verifySolanaTransfer(connection, payment.txHash, {
+        mint: payment.accept.asset,
+        payTo: payment.accept.payTo,
+        reference
+      })
+      if (check.status === 'not_found') {
+        order.message = WAITING_MESSAGE
+        return null
+      }
+      if (check.status === 'failed') {
+        return check.message
+      }
+      // partially_paid 场景：网关只认可第一笔链上金额的一半，补款按实收认可；over_paid 场景：第一笔按 1.5 倍入账
+      const first = payment === order.payments[0]
+      payment.credited =
+        first && order.scenario === 'partially_paid'
+          ? check.received / BigInt(2)
+          : first && order.scenario === 'over_paid'
+            ? (check.received * BigInt(3)) / BigInt(2)
+            : check.received
+      order.gasFee = check.gasFee
+    }
+
+    const required = BigInt(order.payments[0].accept.maxAmountRequired || '0')
+    const paid = order.payments.reduce((total, payment) => total + (payment.credited ?? BigInt(0)), BigInt(0))
+    order.paidAmount = paid.toString()
+    if (paid < required) {
+      order.payStatus = 'Partially Paid'
+      order.orderStatus = 'pending'
+      order.message = 'Partially paid, amount received is less than required'
+    } else {
+      order.payStatus = paid > required ? 'Over Paid' : 'Fully Paid'
+      order.orderStatus = 'confirmed'
+      order.message = 'Payment successful'
+    }
+    console.log(`[order] ${order.orderId} ${order.payStatus} (paid ${order.paidAmount} / ${required})`)
+    return null
+  }
+
+  const latestPayment = (order: MockOrder): SubmittedPayment | null => order.payments[order.payments.length - 1] ?? null
+
+  const currentOutcome = (order: MockOrder): ConfirmOutcome => {
+    const payment = latestPayment(order)
+    if (isSettled(order) && payment) {
+      return {
+        status: 200,
+        body: { orderId: order.orderId, orderStatus: order.orderStatus, message: order.message },
+        settlement: { success: true, txHash: payment.txHash, networkId: payment.accept.network }
+      }
+    }
+    return {
+      status: 200,
+      body: { orderId: order.orderId, orderStatus: 'pending', message: WAITING_MESSAGE },
+      settlement: null
+    }
+  }
+
+  const confirm = async (payment: XPaymentPayload): Promise<ConfirmOutcome> => {
+    const reject = (error: string, message: string): ConfirmOutcome => {
+      console.log(`[confirm] ${payment.orderId} rejected: ${error} - ${message}`)
+      return { status: 400, body: { error, message, orderId: payment.orderId } }
+    }
+
+    const order = orders.get(payment.orderId)
+    if (!order) return reject('invalid_payment', 'Unknown orderId')
+
+    const { txHash, nonce, resource } = payment.payload || ({} as Partial<XPaymentPayload['payload']>)
+    const accept = order.accepts.find((item) => item.nonce === nonce)
+    if (!accept) return reject('invalid_payment', 'Unknown nonce for this order')
+    if (resource !== accept.resource) return reject('invalid_payment', 'Resource does not match the accepted offer')
+    if (payment.network !== accept.network) return reject('invalid_payment', 'Network does not match the accepted offer')
+    if (!txHash) return reject('invalid_payment', 'Missing transaction hash')
+    if (payment.payload.transaction && !config.signedPayload) {
+      return reject('unsupported_payload', 'Signed transactions are not accepted, broadcast it and submit the transaction hash')
+    }
+
+    // 同一订单重复提交同一笔交易：按当前结果幂等返回
+    if (order.payments.some((payment) => payment.txHash === txHash)) {
+      await refresh(order)
+      return currentOutcome(order)
+    }
+    // 只有已核实为部分支付的订单可以再提交一笔补款
+    const topUp = order.payments.length > 0
+    if (topUp && order.payStatus !== 'Partially Paid') return reject('invalid_payment', 'Order already has a submitted payment')
+    const usedBy = await signatures.owner(txHash)
+    if (usedBy) return reject('invalid_payment', `Transaction hash already used by order ${usedBy}`)
+
+    // 补款不受报价有效期限制，订单已被第一笔转账锁定
+    if (!topUp && Date.now() > order.issuedAt + accept.expires * 1000) {
+      order.orderStatus = 'expired'
+      order.message = 'Payment offer expired'
+      return reject('payment_expired', 'Payment offer expired')
+    }
+    if (order.scenario === 'invalid_payment') {
+      return reject('invalid_payment', 'Invalid signature or transaction hash')
+    }
+    // 签名模式：校验后代为提交，之后与客户端自行广播的交易一样到链上核对
+    if (payment.payload.transaction) {
+      const reference = deriveOrderReference({ orderId: order.orderId, nonce: accept.nonce }).toBase58()
+      const submitted = await submitSignedSolanaTransfer(connection, payment.payload.transaction, txHash, {
+        mint: accept.asset,
+        payTo: accept.payTo,
+        reference
+      })
+      if (submitted.status === 'failed') return reject('invalid_payment', submitted.message)
+    }
+
+    // 上面的检查之后才占用交易哈希；链上核对失败时释放，客户端修正后可以用同一笔交易重试
+    if (!(await signatures.claim(txHash, order.orderId))) {
+      return reject('invalid_payment', `Transaction hash already used by order ${await signatures.owner(txHash)}`)
+    }
+    order.payments.push({ accept, txHash, amount: payment.payload.amount, credited: null })
+    if (!topUp) order.pollsUntilReveal = order.scenario === 'waiting' ? config.waitingPolls : 0
+
+    const failure = await refresh(order)
+    if (failure) {
+      order.payments.pop()
+      await signatures.release(txHash, order.orderId)
+      return reject('invalid_payment', failure)
+    }
+    return currentOutcome(order)
+  }
+
+  const status = async (orderId: string): Promise<OrderStatus | null> => {
+    const order = orders.get(orderId)
+    if (!order) return null
+
+    if (order.pollsUntilReveal > 0) {
+      order.pollsUntilReveal -= 1
+    } else {
+      const failure = await refresh(order)
+      if (failure) {
+        order.orderStatus = 'failed'
+        order.message = failure
+      }
+    }
+    if (!order.payments.length && order.orderStatus === 'pending' && order.accepts.every((item) => Date.now() > order.issuedAt + item.expires * 1000)) {
+      order.orderStatus = 'expired'
+      order.message = 'Payment offer expired'
+    }
+
+    return {
+      orderId: order.orderId,
+      orderStatus: order.orderStatus,
+      message: order.payments.length && order.payStatus === 'Not Paid' && order.orderStatus === 'pending' ? WAITING_MESSAGE : order.message,
+      payStatus: order.payStatus,
+      paidAmount: order.paidAmount,
+      transactionFee: '0',
+      gasFee: order.gasFee,
+      txHash: latestPayment(order)?.txHash || ''
+    }
+  }
+
+  return { create, confirm, status }
+}
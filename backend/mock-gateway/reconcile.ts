@@ -0,0 +1,154 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Connection, Keypair } from '@solana/web3.js'
+import {
+  createReceipt,
+  createX402Client,
+  fetchTransport,
+  getErrorMessage,
+  pollOrderStatus,
+  recordFromTransfer,
+  type PaymentReceipt,
+  type ReceiptStatus,
+  type X402Transport
+} from '../../frontend/lib/x402'
+import { createGatewayClient } from '../../frontend/lib/x402/gateway'
+import { createSchemeRegistry, createSolanaSchemeHandler, keypairWallet } from '../../frontend/lib/x402/schemes'
+import { collectReconcileEntries, reconcile, type DiscrepancyKind } from '../reconcile/reconcile'
+import { MOCK_SCENARIO_HEADER, type MockScenario } from './config'
+
+// 用模拟网关和本地 solana-test-validator 演示对账：每个场景下一单并保存收据，再对这些订单跑 reconcile，
+// 核对报告出的差异是否符合场景预期
+//   npx tsx backend/mock-gateway/reconcile.ts
+// 需要先运行 seed.ts 并启动 index.ts，环境变量与网关保持一致；收据写到临时目录，可以再交给 backend/reconcile/index.ts --receipts
+
+const GATEWAY_URL = process.env.MOCK_GATEWAY_URL || `http://127.0.0.1:${process.env.MOCK_PORT || 4020}/openapi/crypto/x402`
+const MERCHANT_APP_KEY = process.env.MERCHANT_APP_KEY || 'merchant_key_123'
+const RPC_URL = process.env.SOLANA_RPC_URL || 'http://127.0.0.1:8899'
+const RECEIPTS_PATH = join(tmpdir(), 'x402-reconcile-receipts.json')
+
+const SCENARIOS: MockScenario[] = ['normal', 'partially_paid', 'over_paid', 'invalid_payment']
+
+// 各场景下对账应报告的差异；signed 为客户端只签名、由网关提交交易
+const expectedFor = (scenario: MockScenario, signed: boolean): DiscrepancyKind[] => {
+  switch (scenario) {
+    case 'partially_paid':
+      // 网关只认可一半，链上与客户端是全额
+      return ['amount_mismatch']
+    case 'over_paid':
+      // 网关按 1.5 倍入账
+      return ['amount_mismatch']
+    case 'invalid_payment':
+      // 网关拒绝确认、仍为 Not Paid：客户端自行广播时链上已有转账；签名模式下网关没有提交，链上找不到
+      return signed ? ['tx_not_found'] : ['missing_confirmation']
+    default:
+      return []
+  }
+}
+
+const loadPayer = (): Keypair => {
+  const path = process.env.MOCK_PAYER_KEYPAIR
+  if (!path) {
+    throw new Error('缺少 MOCK_PAYER_KEYPAIR，请使用 seed.ts 输出的环境变量')
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(path, 'utf8'))))
+}
+
+const transportFor =
+  (scenario: MockScenario): X402Transport =>
+  (url, init) => {
+    const headers = new Headers(init.headers)
+    headers.set('Merchant-App-Key', MERCHANT_APP_KEY)
+    headers.set(MOCK_SCENARIO_HEADER, scenario)
+    if (init.method !== 'GET') headers.set('Content-Type', 'application/json')
+    return fetchTransport(url, { ...init, headers })
+  }
+
+// 与支付页一致：转账、确认、轮询到账后生成收据
+const payOrder = async (
+  scenario: MockScenario,
+  connection: Connection,
+  payer: Keypair
+): Promise<{ receipt: PaymentReceipt; expected: DiscrepancyKind[] }> => {
+  const registry = createSchemeRegistry([
+    createSolanaSchemeHandler({ connection, wallet: keypairWallet(payer), defaultMint: process.env.MOCK_MINT || '' })
+  ])
+  const client = createX402Client({
+    transport: transportFor(scenario),
+    signer: registry,
+    isSameNetwork: registry.isSameNetwork,
+    orderStatusUrl: (orderId) => `${GATEWAY_URL}/order/${encodeURIComponent(orderId)}`
+  })
+  const orderUrl = `${GATEWAY_URL}/order`
+  const init = { method: 'POST', body: JSON.stringify({ description: `reconcile ${scenario}` }) }
+
+  const first = await client.request(orderUrl, init)
+  if (first.status !== 'payment_required') {
+    throw new Error('网关没有返回 402')
+  }
+  const accept = client.supportedAccepts(first.challenge)[0]
+  const transfer = await client.transfer(first.challenge, accept)
+  const result = await client.confirm(orderUrl, init, transfer)
+  console.log(`${scenario}: order ${transfer.orderId}, tx ${transfer.txHash}, confirm ${result.status}`)
+
+  const { status } =
+    result.status === 'failed'
+      ? { status: null }
+      : await pollOrderStatus(() => client.getOrderStatus(transfer.orderId), { intervalMs: 1000, timeoutMs: 30000 })
+  const receiptStatus: ReceiptStatus =
+    status?.payStatus === 'Partially Paid'
+      ? 'partially_paid'
+      : status?.payStatus === 'Over Paid'
+        ? 'over_paid'
+        : status?.payStatus === 'Fully Paid'
+          ? 'success'
+          : 'failed'
+  const receipt = createReceipt(recordFromTransfer(transfer, result.settlement, status), {
+    status: receiptStatus,
+    decimals: transfer.decimals,
+    error: result.status === 'failed' ? result.message : null
+  })
+  return { receipt, expected: expectedFor(scenario, Boolean(transfer.transaction)) }
+}
+
+const main = async () => {
+  const connection = new Connection(RPC_URL, 'confirmed')
+  const payer = loadPayer()
+
+  const receipts: PaymentReceipt[] = []
+  const orders = new Map<string, { scenario: MockScenario; expected: DiscrepancyKind[] }>()
+  for (const scenario of SCENARIOS) {
+    const { receipt, expected } = await payOrder(scenario, connection, payer)
+    receipts.push(receipt)
+    orders.set(receipt.orderId, { scenario, expected })
+  }
+  writeFileSync(RECEIPTS_PATH, JSON.stringify(receipts, null, 2))
+
+  const gateway = createGatewayClient({ baseUrl: GATEWAY_URL, merchantAppKey: MERCHANT_APP_KEY })
+  const entries = await collectReconcileEntries(gateway, connection, Array.from(orders.keys()), receipts)
+  const report = reconcile(entries, { stuckAfterMs: 30 * 60 * 1000 })
+
+  console.log('')
+  let failures = 0
+  for (const [orderId, { scenario, expected }] of orders) {
+    const found = report.discrepancies.filter((item) => item.orderId === orderId)
+    const kinds = found.map((item) => item.kind).sort()
+    const passed = kinds.join() === [...expected].sort().join()
+    if (!passed) failures += 1
+    const summary = kinds.join('、') || '无差异'
+    console.log(`${passed ? '✓' : '✗'} ${scenario} (${orderId}): ${passed ? summary : `${summary}，预期 ${expected.join('、') || '无差异'}`}`)
+    for (const item of found) {
+      console.log(`    ${item.kind}: ${item.detail}`)
+    }
+  }
+
+  console.log(`\nReceipts written to ${RECEIPTS_PATH}`)
+  console.log(`Re-run with: npx tsx backend/reconcile/index.ts --receipts ${RECEIPTS_PATH}`)
+  if (failures) process.exit(1)
+}
+
+main().catch((error) => {
+  console.error(getErrorMessage(error))
+  process.exit(1)
+})
@@ -0,0 +1,129 @@
+import { readFileSync } from 'node:fs'
+import { Connection, Keypair } from '@solana/web3.js'
+import {
+  comparePaidAmount,
+  createX402Client,
+  fetchTransport,
+  getAcceptRemainingMs,
+  getErrorMessage,
+  pollOrderStatus,
+  sleep,
+  type OrderStatus,
+  type X402Transfer,
+  type X402Transport
+} from '../../frontend/lib/x402'
+import { createSchemeRegistry, createSolanaSchemeHandler, keypairWallet } from '../../frontend/lib/x402/schemes'
+import { MOCK_SCENARIO_HEADER, MOCK_SCENARIOS, isMockScenario, type MockScenario } from './config'
+
+// 用 SDK 对模拟网关逐个跑脚本化场景：
+//   npx tsx backend/mock-gateway/scenarios.ts [waiting invalid_payment ...]
+// 需要先运行 seed.ts 并启动 index.ts，环境变量与网关保持一致
+
+const GATEWAY_URL = process.env.MOCK_GATEWAY_URL || `http://127.0.0.1:${process.env.MOCK_PORT || 4020}/openapi/crypto/x402`
+const MERCHANT_APP_KEY = process.env.MERCHANT_APP_KEY || 'merchant_key_123'
+const RPC_URL = process.env.SOLANA_RPC_URL || 'http://127.0.0.1:8899'
+
+const loadPayer = (): Keypair => {
+  const path = process.env.MOCK_PAYER_KEYPAIR
+  if (!path) {
+    throw new Error('缺少 MOCK_PAYER_KEYPAIR，请使用 seed.ts 输出的环境变量')
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(path, 'utf8'))))
+}
+
+// 每个请求都带上商户 key 与场景 header
+const transportFor =
+  (scenario: MockScenario): X402Transport =>
+  (url, init) => {
+    const headers = new Headers(init.headers)
+    headers.set('Merchant-App-Key', MERCHANT_APP_KEY)
+    headers.set(MOCK_SCENARIO_HEADER, scenario)
+    if (init.method !== 'GET') headers.set('Content-Type', 'application/json')
+    return fetchTransport(url, { ...init, headers })
+  }
+
+const runScenario = async (scenario: MockScenario, connection: Connection, payer: Keypair) => {
+  const registry = createSchemeRegistry([
+    createSolanaSchemeHandler({ connection, wallet: keypairWallet(payer), defaultMint: process.env.MOCK_MINT || '' })
+  ])
+  const client = createX402Client({
+    transport: transportFor(scenario),
+    signer: registry,
+    isSameNetwork: registry.isSameNetwork,
+    orderStatusUrl: (orderId) => `${GATEWAY_URL}/order/${encodeURIComponent(orderId)}`
+  })
+  const orderUrl = `${GATEWAY_URL}/order`
+  const init = { method: 'POST', body: JSON.stringify({ description: `scenario ${scenario}` }) }
+
+  const first = await client.request(orderUrl, init)
+  if (first.status !== 'payment_required') {
+    throw new Error('网关没有返回 402')
+  }
+  const { challenge } = first
+  const accept = client.supportedAccepts(challenge)[0]
+  console.log(`402 challenge: order ${challenge.orderId}, nonce ${accept.nonce}, expires ${accept.expires}s`)
+
+  if (scenario === 'expired') {
+    // 等报价过期后再尝试付款，客户端应拒绝签名
+    await sleep(getAcceptRemainingMs(accept, challenge.receivedAt) + 1000)
+    try {
+      await client.transfer(challenge, accept)
+      console.log('✗ 过期报价仍然完成了转账')
+    } catch (error) {
+      console.log(`✓ 客户端拒绝过期报价：${getErrorMessage(error)}`)
+    }
+    return
+  }
+
+  const confirmAndPoll = async (transfer: X402Transfer): Promise<OrderStatus | null> => {
+    // 网关声明 extra.signedTransaction 时只签名，由网关提交；MOCK_SIGNED_PAYLOAD=0 时客户端收到 unsupported_payload 后自行广播
+    console.log(transfer.transaction ? `Transaction signed, gateway submits: ${transfer.txHash}` : `Transfer sent: ${transfer.txHash}`)
+    const result = await client.confirm(orderUrl, init, transfer)
+    console.log(`Confirm: ${result.status} (${result.response.status}) ${result.message}`)
+    if (result.status !== 'waiting' && result.status !== 'confirmed') return null
+
+    const { status, timedOut } = await pollOrderStatus(() => client.getOrderStatus(challenge.orderId), {
+      intervalMs: 1000,
+      timeoutMs: 30000,
+      onUpdate: (update) => console.log(`  poll: ${update.payStatus} / ${update.orderStatus}`),
+      onError: (error) => console.log(`  poll error: ${getErrorMessage(error)}`)
+    })
+    console.log(timedOut ? 'Poll timed out' : `Final: ${status?.payStatus}, paid ${status?.paidAmount}`)
+    return timedOut ? null : status
+  }
+
+  const transfer = await client.transfer(challenge, accept)
+  const status = await confirmAndPoll(transfer)
+
+  // 部分到账时按差额补款，并用新的交易再提交一次 X-PAYMENT
+  const balance = status?.payStatus === 'Partially Paid' ? comparePaidAmount(accept, transfer.amountInSmallestUnit, status) : null
+  if (balance?.shortfall) {
+    console.log(`Topping up ${balance.shortfall}`)
+    const settled = await confirmAndPoll(await client.topUp(transfer, balance.shortfall))
+    console.log(settled?.payStatus === 'Fully Paid' ? '✓ 补款后订单已全额支付' : `✗ 补款后订单状态：${settled?.payStatus || '未知'}`)
+  }
+  if (status?.payStatus === 'Over Paid') {
+    console.log(`Surplus: ${comparePaidAmount(accept, transfer.amountInSmallestUnit, status)?.surplus ?? '未知'}`)
+  }
+}
+
+const main = async () => {
+  const requested = process.argv.slice(2)
+  const scenarios = requested.length ? requested.filter(isMockScenario) : MOCK_SCENARIOS
+  const connection = new Connection(RPC_URL, 'confirmed')
+  const payer = loadPayer()
+
+  for (const scenario of scenarios) {
+    console.log(`\n=== ${scenario} ===`)
+    try {
+      await runScenario(scenario, connection, payer)
+    } catch (error) {
+      console.log(`Error: ${getErrorMessage(error)}`)
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(getErrorMessage(error))
+  process.exit(1)
+})
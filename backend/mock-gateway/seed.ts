@@ -0,0 +1,62 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js'
+import { createMint, getOrCreateAssociatedTokenAccount, mintTo } from '@solana/spl-token'
+
+// 在本地 solana-test-validator 上准备模拟网关需要的代币和账户：
+//   npx tsx backend/mock-gateway/seed.ts [浏览器钱包地址...]
+// 传入的钱包地址会获得 SOL 与测试代币，便于在页面上用 Phantom 等钱包走通流程
+
+const RPC_URL = process.env.SOLANA_RPC_URL || 'http://127.0.0.1:8899'
+const PAYER_PATH = process.env.MOCK_PAYER_KEYPAIR || join(tmpdir(), 'x402-mock-payer.json')
+const DECIMALS = Number(process.env.MOCK_DECIMALS || 6)
+const MINT_AMOUNT = BigInt(1000) * BigInt(10) ** BigInt(DECIMALS)
+
+const loadOrCreateKeypair = (path: string): Keypair => {
+  if (existsSync(path)) {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(path, 'utf8'))))
+  }
+  const keypair = Keypair.generate()
+  writeFileSync(path, JSON.stringify(Array.from(keypair.secretKey)))
+  return keypair
+}
+
+const airdrop = async (connection: Connection, address: PublicKey, sol: number) => {
+  const signature = await connection.requestAirdrop(address, sol * LAMPORTS_PER_SOL)
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+  await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed')
+}
+
+const main = async () => {
+  const connection = new Connection(RPC_URL, 'confirmed')
+  await connection.getVersion().catch(() => {
+    throw new Error(`无法连接 ${RPC_URL}，请先启动 solana-test-validator`)
+  })
+
+  const payer = loadOrCreateKeypair(PAYER_PATH)
+  const merchant = Keypair.generate()
+  await airdrop(connection, payer.publicKey, 10)
+
+  const mint = await createMint(connection, payer, payer.publicKey, null, DECIMALS)
+  const wallets = [payer.publicKey, ...process.argv.slice(2).map((address) => new PublicKey(address))]
+  for (const wallet of wallets) {
+    if (!wallet.equals(payer.publicKey)) {
+      await airdrop(connection, wallet, 2)
+    }
+    const account = await getOrCreateAssociatedTokenAccount(connection, payer, mint, wallet)
+    await mintTo(connection, payer, mint, account.address, payer, MINT_AMOUNT)
+    console.log(`Funded ${wallet.toBase58()} with SOL and 1000 test tokens`)
+  }
+
+  console.log('\n# 启动模拟网关：')
+  console.log(`export MOCK_MINT=${mint.toBase58()}`)
+  console.log(`export MOCK_PAY_TO=${merchant.publicKey.toBase58()}`)
+  console.log(`export MOCK_DECIMALS=${DECIMALS}`)
+  console.log(`export MOCK_PAYER_KEYPAIR=${PAYER_PATH}`)
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,131 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { Connection } from '@solana/web3.js'
+import type { XPaymentPayload } from '../../frontend/lib/x402/types'
+import { MOCK_SCENARIO_HEADER, isMockScenario, type MockGatewayConfig } from './config'
+import { createOrderBook, type ErrorBody } from './orders'
+
+// 本地替身网关，实现 backend/api/Payment-Getway-x402.openapi.json 中的三个接口
+export const BASE_PATH = '/openapi/crypto/x402'
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+const sendError = (res: ServerResponse, status: number, body: ErrorBody) => sendJson(res, status, body)
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  const text = Buffer.concat(chunks).toString('utf8')
+  if (!text) return {}
+  try {
+    const parsed = JSON.parse(text)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+const decodePaymentHeader = (value: string): XPaymentPayload | null => {
+  try {
+    const payment = JSON.parse(Buffer.from(value, 'base64').toString('utf8'))
+    return payment && typeof payment === 'object' && typeof payment.orderId === 'string' ? payment : null
+  } catch {
+    return null
+  }
+}
+
+const headerValue = (req: IncomingMessage, name: string): string => {
+  const value = req.headers[name.toLowerCase()]
+  return (Array.isArray(value) ? value[0] : value) || ''
+}
+
+export const createMockGateway = (config: MockGatewayConfig) => {
+  const connection = new Connection(config.rpcUrl, 'confirmed')
+  const orders = createOrderBook(config, connection)
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    // 浏览器直连时需要 CORS，并暴露结算 header
+    res.setHeader('Access-Control-Allow-Origin', '*')
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, Merchant-App-Key, X-PAYMENT, ${MOCK_SCENARIO_HEADER}`)
+    res.setHeader('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE')
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204)
+      res.end()
+      return
+    }
+
+    const { pathname } = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`)
+    if (!pathname.startsWith(BASE_PATH)) {
+      sendError(res, 404, { error: 'not_found', message: `Unknown route ${pathname}` })
+      return
+    }
+
+    if (headerValue(req, 'Merchant-App-Key') !== config.merchantAppKey) {
+      sendError(res, 401, { error: 'unauthorized', message: 'Invalid Merchant-App-Key' })
+      return
+    }
+
+    const route = pathname.slice(BASE_PATH.length)
+
+    if (req.method === 'GET' && route === '/pay-methods') {
+      sendJson(res, 200, [{ network: config.network, asset: config.mint, symbol: config.symbol }])
+      return
+    }
+
+    if (req.method === 'POST' && route === '/order') {
+      const xPayment = headerValue(req, 'X-PAYMENT')
+      if (!xPayment) {
+        const body = await readJsonBody(req)
+        const requested = headerValue(req, MOCK_SCENARIO_HEADER)
+        const order = orders.create(
+          typeof body.description === 'string' ? body.description : '',
+          isMockScenario(requested) ? requested : config.scenario
+        )
+        sendJson(res, 402, { x402Version: 1, orderId: order.orderId, accepts: order.accepts })
+        return
+      }
+
+      const payment = decodePaymentHeader(xPayment)
+      if (!payment) {
+        sendError(res, 400, { error: 'invalid_payment', message: 'X-PAYMENT is not a valid base64 JSON payload' })
+        return
+      }
+      const outcome = await orders.confirm(payment)
+      if (outcome.status === 200 && outcome.settlement) {
+        const header = Buffer.from(JSON.stringify(outcome.settlement)).toString('base64')
+        sendJson(res, 200, outcome.body, { 'X-PAYMENT-RESPONSE': header })
+        return
+      }
+      sendJson(res, outcome.status, outcome.body)
+      return
+    }
+
+    const orderMatch = req.method === 'GET' ? route.match(/^\/order\/([^/]+)$/) : null
+    if (orderMatch) {
+      const status = await orders.status(decodeURIComponent(orderMatch[1]))
+      if (!status) {
+        sendJson(res, 404, { message: 'Order not found', orderId: orderMatch[1] })
+        return
+      }
+      sendJson(res, 200, status)
+      return
+    }
+
+    sendError(res, 404, { error: 'not_found', message: `Unknown route ${req.method} ${pathname}` })
+  }
+
+  return createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('Mock gateway error:', error)
+      if (!res.headersSent) {
+        sendError(res, 500, { error: 'internal_error', message: error instanceof Error ? error.message : String(error) })
+      } else {
+        res.end()
+      }
+    })
+  })
+}
@@ -0,0 +1,85 @@
+import { readFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { Connection, type Finality } from '@solana/web3.js'
+import { createGatewayClient } from '../../frontend/lib/x402/gateway'
+import { filterReceipts, type PaymentReceipt } from '../../frontend/lib/x402/history'
+import { getErrorMessage } from '../../frontend/lib/x402/utils'
+import { collectReconcileEntries, reconcile } from './reconcile'
+
+// 对账：比对网关订单状态、链上实际转账与客户端 X-PAYMENT 上报的内容，输出差异报告
+//   npx tsx backend/reconcile/index.ts <orderId...>
+//   npx tsx backend/reconcile/index.ts --receipts x402-payments.json [--from 2026-10-01] [--to 2026-10-19] [--json]
+// --receipts 读取支付记录面板导出的 JSON；同时给出 orderId 时只核对这些订单。存在差异时退出码为 1
+
+const GATEWAY_URL = process.env.X402_GATEWAY_URL || 'http://127.0.0.1:4020/openapi/crypto/x402'
+const MERCHANT_APP_KEY = process.env.X402_MERCHANT_APP_KEY || 'merchant_key_123'
+const RPC_URL = process.env.SOLANA_RPC_URL || 'http://127.0.0.1:8899'
+const COMMITMENT = (process.env.RECONCILE_COMMITMENT || 'confirmed') as Finality
+const STUCK_MINUTES = Number(process.env.RECONCILE_STUCK_MINUTES || 30)
+// 只给 orderId 时收据里没有预期的 Mint 与收款地址，默认取模拟网关的配置
+const EXPECTED_MINT = process.env.RECONCILE_MINT || process.env.MOCK_MINT || ''
+const EXPECTED_PAY_TO = process.env.RECONCILE_PAY_TO || process.env.MOCK_PAY_TO || ''
+
+// 与支付记录面板的日期筛选一致，按本地时间解析，结束日期包含当天
+const parseDate = (value: string | undefined, endOfDay: boolean): number | null => {
+  if (!value) return null
+  const time = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime()
+  if (Number.isNaN(time)) {
+    throw new Error(`日期格式应为 YYYY-MM-DD：${value}`)
+  }
+  return time
+}
+
+const readReceipts = (path: string): PaymentReceipt[] => {
+  const parsed = JSON.parse(readFileSync(path, 'utf8'))
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${path} 不是支付记录导出的 JSON 数组`)
+  }
+  return parsed
+}
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      receipts: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      json: { type: 'boolean', default: false }
+    }
+  })
+
+  const receipts = values.receipts
+    ? filterReceipts(readReceipts(values.receipts), { from: parseDate(values.from, false), to: parseDate(values.to, true) })
+    : []
+  const orderIds = positionals.length ? positionals : receipts.map((receipt) => receipt.orderId)
+  if (!orderIds.length) {
+    throw new Error('没有需要核对的订单：传入 orderId，或用 --receipts 指定支付记录导出的 JSON')
+  }
+
+  const gateway = createGatewayClient({ baseUrl: GATEWAY_URL, merchantAppKey: MERCHANT_APP_KEY })
+  const connection = new Connection(RPC_URL, COMMITMENT)
+
+  const entries = await collectReconcileEntries(gateway, connection, orderIds, receipts, COMMITMENT)
+  const report = reconcile(entries, {
+    mint: EXPECTED_MINT || undefined,
+    payTo: EXPECTED_PAY_TO || undefined,
+    stuckAfterMs: STUCK_MINUTES * 60 * 1000
+  })
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    for (const item of report.discrepancies) {
+      console.log(`✗ ${item.orderId} ${item.kind}: ${item.detail}`)
+    }
+    const flagged = new Set(report.discrepancies.map((item) => item.orderId))
+    console.log(`\nChecked ${report.orders} orders, ${flagged.size} with ${report.discrepancies.length} discrepancies`)
+  }
+  process.exit(report.discrepancies.length ? 1 : 0)
+}
+
+main().catch((error) => {
+  console.error(getErrorMessage(error))
+  process.exit(1)
+})
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { Keypair, type Connection } from '@solana/web3.js'
+import { TOKEN_2022_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token'
+import bs58 from 'bs58'
+import type { PaymentReceipt } from '../../frontend/lib/x402/history'
+import { deriveOrderReference } from '../../frontend/lib/x402/schemes/solanaReference'
+import { readChainTransaction, reconcile, type ReconcileEntry } from './reconcile'
+
+const ORDER_ID = 'CO1'
+const NONCE = 'abc123'
+// Token-2022 手续费 1%：付款方转出 2626263，收款方实收 2600000
+const GROSS = '2626263'
+const NET = '2600000'
+
+const mint = Keypair.generate().publicKey
+const payer = Keypair.generate().publicKey
+const merchant = Keypair.generate().publicKey
+const destination = getAssociatedTokenAddressSync(mint, merchant, true, TOKEN_2022_PROGRAM_ID)
+const reference = deriveOrderReference({ orderId: ORDER_ID, nonce: NONCE })
+const txHash = bs58.encode(Buffer.alloc(64, 7))
+
+const tokenBalance = (amount: string) => ({
+  accountIndex: 1,
+  mint: mint.toBase58(),
+  owner: merchant.toBase58(),
+  uiTokenAmount: { amount, decimals: 6, uiAmount: Number(amount) / 1e6, uiAmountString: String(Number(amount) / 1e6) }
+})
+
+// 只实现对账用到的 getParsedTransaction，返回一笔 transferCheckedWithFee
+const connection = {
+  getParsedTransaction: async () => ({
+    slot: 1,
+    blockTime: null,
+    meta: {
+      err: null,
+      fee: 5000,
+      preTokenBalances: [tokenBalance('0')],
+      postTokenBalances: [tokenBalance(NET)],
+      innerInstructions: []
+    },
+    transaction: {
+      message: {
+        accountKeys: [payer, destination, reference].map((pubkey) => ({ pubkey })),
+        instructions: [
+          {
+            program: 'spl-token-2022',
+            programId: TOKEN_2022_PROGRAM_ID,
+            parsed: {
+              type: 'transferCheckedWithFee',
+              info: {
+                destination: destination.toBase58(),
+                mint: mint.toBase58(),
+                tokenAmount: { amount: GROSS },
+                feeAmount: { amount: '26263' }
+              }
+            }
+          }
+        ]
+      }
+    }
+  })
+} as unknown as Connection
+
+const receipt = (amountInSmallestUnit: string): PaymentReceipt => ({
+  orderId: ORDER_ID,
+  resource: '/openapi/crypto/x402/order',
+  network: 'solana-localnet',
+  asset: mint.toBase58(),
+  symbol: 'FEE',
+  payTo: merchant.toBase58(),
+  nonce: NONCE,
+  amount: String(Number(amountInSmallestUnit) / 1e6),
+  amountInSmallestUnit,
+  txHash,
+  payments: [{ txHash, amountInSmallestUnit }],
+  settlement: null,
+  orderStatus: null,
+  completedAt: Date.now(),
+  status: 'success',
+  decimals: 6,
+  error: null,
+  shortfall: null,
+  surplus: null,
+  statusCheckedAt: null
+})
+
+const entryFor = async (reported: PaymentReceipt): Promise<ReconcileEntry> => ({
+  orderId: ORDER_ID,
+  gateway: {
+    orderId: ORDER_ID,
+    message: 'Payment successful',
+    orderStatus: 'confirmed',
+    payStatus: 'Fully Paid',
+    paidAmount: NET,
+    transactionFee: '0',
+    gasFee: '0.000005',
+    txHash
+  },
+  reported,
+  transactions: [{ txHash, chain: await readChainTransaction(connection, txHash) }]
+})
+
+const OPTIONS = { stuckAfterMs: 30 * 60 * 1000 }
+
+test('Token-2022 转账同时记下实收与转账指令金额', async () => {
+  const chain = await readChainTransaction(connection, txHash)
+  assert.equal(chain.status, 'confirmed')
+  assert.deepEqual(
+    chain.status === 'confirmed' && chain.credits.map(({ amount, transferred }) => ({ amount, transferred })),
+    [{ amount: BigInt(NET), transferred: BigInt(GROSS) }]
+  )
+})
+
+test('客户端按含手续费的转账金额上报时不算金额不一致', async () => {
+  const report = reconcile([await entryFor(receipt(GROSS))], OPTIONS)
+  assert.deepEqual(report.discrepancies, [])
+})
+
+test('客户端按实收金额上报时不算金额不一致', async () => {
+  const report = reconcile([await entryFor(receipt(NET))], OPTIONS)
+  assert.deepEqual(report.discrepancies, [])
+})
+
+test('与实收、转账金额都对不上时报告 amount_mismatch', async () => {
+  const report = reconcile([await entryFor(receipt('2500000'))], OPTIONS)
+  assert.deepEqual(report.discrepancies, [
+    {
+      orderId: ORDER_ID,
+      kind: 'amount_mismatch',
+      detail: `网关到账 ${NET}，链上实收 ${NET}，链上转出（含手续费） ${GROSS}，客户端上报 2500000`
+    }
+  ])
+})
@@ -0,0 +1,323 @@
+import {
+  Connection,
+  type Finality,
+  type ParsedInstruction,
+  type PartiallyDecodedInstruction,
+  type TokenBalance
+} from '@solana/web3.js'
+import type { GatewayClient } from '../../frontend/lib/x402/gateway'
+import type { PaymentReceipt } from '../../frontend/lib/x402/history'
+import { deriveOrderReference } from '../../frontend/lib/x402/schemes/solanaReference'
+import type { GetOrderByOrderId200 } from '../../frontend/lib/x402/gateway/schemas'
+import { destinationAccounts, isSolanaSignature } from '../x402-server'
+
+export type DiscrepancyKind =
+  | 'order_not_found'
+  | 'missing_confirmation'
+  | 'stuck_pending'
+  | 'tx_not_found'
+  | 'tx_failed'
+  | 'hash_mismatch'
+  | 'hash_reused'
+  | 'wrong_mint'
+  | 'wrong_destination'
+  | 'missing_reference'
+  | 'amount_mismatch'
+
+export interface Discrepancy {
+  orderId: string
+  kind: DiscrepancyKind
+  detail: string
+}
+
+// 交易中余额增加的 Token 账户，金额为最小单位
+export interface ChainCredit {
+  account: string
+  owner: string | null
+  mint: string
+  // 实际入账（余额差），Token-2022 转账手续费已扣除
+  amount: bigint
+  // 转账指令写明的金额，含 Token-2022 转账手续费；没有对应的转账指令时与 amount 相同
+  transferred: bigint
+}
+
+export type ChainTransaction =
+  | { status: 'not_found' }
+  | { status: 'failed'; message: string }
+  | { status: 'confirmed'; slot: number; accountKeys: string[]; credits: ChainCredit[] }
+
+export interface ReconciledTransaction {
+  txHash: string
+  chain: ChainTransaction
+}
+
+// 对账的三个来源：网关订单状态（404 为 null）、客户端收据里上报的 X-PAYMENT、链上交易
+// 部分支付后补款的订单有多笔交易；网关与客户端都没有交易哈希时 transactions 为空
+export interface ReconcileEntry {
+  orderId: string
+  gateway: GetOrderByOrderId200 | null
+  reported: PaymentReceipt | null
+  transactions: ReconciledTransaction[]
+}
+
+export interface ReconcileOptions {
+  // 收据缺少 asset / payTo 时（只给了 orderId）使用的预期 Mint 与收款地址
+  mint?: string
+  payTo?: string
+  // pending 超过该时长视为卡单；没有收据时无从得知下单时间，pending 一律报告
+  stuckAfterMs: number
+  now?: number
+}
+
+export interface ReconcileReport {
+  checkedAt: string
+  orders: number
+  discrepancies: Discrepancy[]
+}
+
+const TOKEN_TRANSFER_TYPES = ['transfer', 'transferChecked', 'transferCheckedWithFee']
+
+// 按目标 Token 账户汇总 SPL Token / Token-2022 转账指令（含内部指令）的金额
+const transferredAmounts = (instructions: (ParsedInstruction | PartiallyDecodedInstruction)[]): Map<string, bigint> => {
+  const totals = new Map<string, bigint>()
+  for (const instruction of instructions) {
+    if (!('parsed' in instruction) || !instruction.program.startsWith('spl-token')) continue
+    const { type, info } = instruction.parsed as { type?: string; info?: { destination?: string; amount?: string; tokenAmount?: { amount?: string } } }
+    const amount = info?.tokenAmount?.amount ?? info?.amount
+    if (!type || !TOKEN_TRANSFER_TYPES.includes(type) || !info?.destination || !amount) continue
+    totals.set(info.destination, (totals.get(info.destination) ?? BigInt(0)) + BigInt(amount))
+  }
+  return totals
+}
+
+const credits = (accountKeys: string[], pre: TokenBalance[], post: TokenBalance[], transferred: Map<string, bigint>): ChainCredit[] => {
+  const balances = new Map<string, Omit<ChainCredit, 'transferred'>>()
+  const apply = (balance: TokenBalance, sign: bigint) => {
+    const account = accountKeys[balance.accountIndex]
+    const key = `${account}:${balance.mint}`
+    const current = balances.get(key) ?? { account, owner: balance.owner ?? null, mint: balance.mint, amount: BigInt(0) }
+    current.amount += sign * BigInt(balance.uiTokenAmount.amount)
+    balances.set(key, current)
+  }
+  pre.forEach((balance) => apply(balance, BigInt(-1)))
+  post.forEach((balance) => apply(balance, BigInt(1)))
+  return Array.from(balances.values())
+    .filter((credit) => credit.amount > BigInt(0))
+    .map((credit) => ({ ...credit, transferred: transferred.get(credit.account) ?? credit.amount }))
+}
+
+// 读取交易实际发生的代币入账，不预设收款方，由对账逻辑判断转给了谁、转的是什么
+export const readChainTransaction = async (
+  connection: Connection,
+  signature: string,
+  commitment: Finality = 'confirmed'
+): Promise<ChainTransaction> => {
+  if (!isSolanaSignature(signature)) {
+    return { status: 'failed', message: `交易签名格式不正确：${signature}` }
+  }
+  const transaction = await connection.getParsedTransaction(signature, { commitment, maxSupportedTransactionVersion: 0 })
+  if (!transaction) {
+    return { status: 'not_found' }
+  }
+  const { meta } = transaction
+  if (!meta) {
+    return { status: 'failed', message: '交易缺少执行结果' }
+  }
+  if (meta.err) {
+    return { status: 'failed', message: `交易执行失败：${JSON.stringify(meta.err)}` }
+  }
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) => key.pubkey.toBase58())
+  const instructions = [
+    ...transaction.transaction.message.instructions,
+    ...(meta.innerInstructions || []).flatMap((inner) => inner.instructions)
+  ]
+  return {
+    status: 'confirmed',
+    slot: transaction.slot,
+    accountKeys,
+    credits: credits(accountKeys, meta.preTokenBalances || [], meta.postTokenBalances || [], transferredAmounts(instructions))
+  }
+}
+
+// 客户端上报过的全部 X-PAYMENT；旧收据没有 payments，只有最后一笔
+export const reportedPayments = (receipt: PaymentReceipt): { txHash: string; amountInSmallestUnit: string }[] =>
+  receipt.payments?.length ? receipt.payments : receipt.txHash ? [{ txHash: receipt.txHash, amountInSmallestUnit: receipt.amountInSmallestUnit }] : []
+
+// 逐个订单读取网关状态；网关记下的交易与客户端上报的全部交易（含补款）都到链上核对
+export const collectReconcileEntries = async (
+  gateway: GatewayClient,
+  connection: Connection,
+  orderIds: string[],
+  receipts: PaymentReceipt[],
+  commitment: Finality = 'confirmed'
+): Promise<ReconcileEntry[]> => {
+  const entries: ReconcileEntry[] = []
+  for (const orderId of orderIds) {
+    const result = await gateway.getOrder(orderId)
+    if (result.type === 'Unauthorized') {
+      throw new Error(`网关拒绝了 Merchant-App-Key：${result.body.message}`)
+    }
+    const status = result.type === 'OrderStatus' ? result.body : null
+    const reported = receipts.find((receipt) => receipt.orderId === orderId) ?? null
+    const hashes = new Set([status?.txHash, ...(reported ? reportedPayments(reported).map((payment) => payment.txHash) : [])])
+    const transactions: ReconciledTransaction[] = []
+    for (const txHash of hashes) {
+      if (txHash) transactions.push({ txHash, chain: await readChainTransaction(connection, txHash, commitment) })
+    }
+    entries.push({ orderId, gateway: status, reported, transactions })
+  }
+  return entries
+}
+
+const describeCredits = (items: ChainCredit[]): string =>
+  items.map((credit) => `${credit.amount} ${credit.mint} → ${credit.owner || credit.account}`).join('，')
+
+// 一笔交易中转给收款方的金额：实收（扣除 Token-2022 手续费后）与转账指令金额
+interface ChainReceipt {
+  received: bigint
+  transferred: bigint
+}
+
+const addReceipts = (a: ChainReceipt, b: ChainReceipt): ChainReceipt => ({
+  received: a.received + b.received,
+  transferred: a.transferred + b.transferred
+})
+
+const sumCredits = (items: ChainCredit[]): ChainReceipt =>
+  items.map((credit) => ({ received: credit.amount, transferred: credit.transferred })).reduce(addReceipts, { received: BigInt(0), transferred: BigInt(0) })
+
+const checkChain = (
+  entry: ReconcileEntry,
+  { txHash, chain }: ReconciledTransaction,
+  options: ReconcileOptions,
+  report: (kind: DiscrepancyKind, detail: string) => void
+): ChainReceipt | null => {
+  const { reported } = entry
+  if (chain.status === 'not_found') {
+    report('tx_not_found', `链上找不到交易 ${txHash}`)
+    return null
+  }
+  if (chain.status === 'failed') {
+    report('tx_failed', `${chain.message}（${txHash}）`)
+    return null
+  }
+
+  const mint = reported?.asset || options.mint
+  const payTo = reported?.payTo || options.payTo
+  if (reported?.nonce && !chain.accountKeys.includes(deriveOrderReference({ orderId: entry.orderId, nonce: reported.nonce }).toBase58())) {
+    report('missing_reference', `交易 ${txHash} 未包含该订单的链上引用`)
+  }
+  if (!mint || !payTo) {
+    // 不知道预期的 Mint 与收款方时只能给出入账合计，无法判断转错
+    return sumCredits(chain.credits)
+  }
+
+  const destinations = destinationAccounts({ mint, payTo })
+  const toPayee = chain.credits.filter((credit) => destinations.has(credit.account) || credit.owner === payTo)
+  const received = toPayee.filter((credit) => credit.mint === mint)
+  if (!received.length) {
+    if (toPayee.length) {
+      report('wrong_mint', `收款方收到的是 ${describeCredits(toPayee)}，预期 Mint ${mint}`)
+    } else {
+      const sameMint = chain.credits.filter((credit) => credit.mint === mint)
+      report(
+        'wrong_destination',
+        sameMint.length ? `代币转给了 ${describeCredits(sameMint)}，预期收款方 ${payTo}` : `交易 ${txHash} 中没有向 ${payTo} 转入 ${mint}`
+      )
+    }
+    return null
+  }
+  return sumCredits(received)
+}
+
+const checkEntry = (entry: ReconcileEntry, options: ReconcileOptions, now: number): Discrepancy[] => {
+  const found: Discrepancy[] = []
+  const report = (kind: DiscrepancyKind, detail: string) => found.push({ orderId: entry.orderId, kind, detail })
+  const { gateway, reported } = entry
+
+  if (!gateway) {
+    report('order_not_found', '网关查不到该订单')
+  }
+  const payments = reported ? reportedPayments(reported) : []
+  if (gateway?.txHash && payments.length && !payments.some((payment) => payment.txHash === gateway.txHash)) {
+    report('hash_mismatch', `网关记录的交易 ${gateway.txHash} 不在客户端上报的 ${payments.map((payment) => payment.txHash).join('、')} 中`)
+  }
+
+  // 多笔交易（补款）的合计；全部无法核实时为 null
+  const credited = entry.transactions
+    .map((transaction) => checkChain(entry, transaction, options, report))
+    .filter((receipt): receipt is ChainReceipt => receipt !== null)
+  const chain = credited.length ? credited.reduce(addReceipts) : null
+  const received = chain?.received ?? null
+  const paid = gateway && gateway.payStatus !== 'Not Paid'
+
+  if (gateway && !paid && (received !== null || reported?.status === 'success')) {
+    report(
+      'missing_confirmation',
+      received !== null ? `链上已入账 ${received}，网关仍为 ${gateway.payStatus}` : `客户端记录为支付成功，网关仍为 ${gateway.payStatus}`
+    )
+  }
+  if (gateway?.orderStatus === 'pending') {
+    const age = reported ? now - reported.completedAt : null
+    if (age === null || age >= options.stuckAfterMs) {
+      const since = age === null ? '下单时间未知' : `已 ${Math.round(age / 60000)} 分钟`
+      report('stuck_pending', `订单仍为 pending（${gateway.payStatus}），${since}`)
+    }
+  }
+
+  // 三方金额都以最小单位比较：网关到账、链上实收、X-PAYMENT 上报
+  // Token-2022 转账手续费从入账中扣除，网关或客户端按转账指令金额（含手续费）记账同样视为一致
+  const gatewayPaid = paid ? gateway.paidAmount : null
+  const reportedTotal = payments.length
+    ? payments.reduce((total, payment) => total + BigInt(payment.amountInSmallestUnit || '0'), BigInt(0)).toString()
+    : null
+  const onChain = chain ? [chain.received.toString(), chain.transferred.toString()] : []
+  const recorded = [gatewayPaid, reportedTotal].filter((value): value is string => value !== null)
+  const consistent = chain ? recorded.every((value) => onChain.includes(value)) : new Set(recorded).size <= 1
+  if (!consistent) {
+    const amounts: [string, string | null][] = [
+      ['网关到账', gatewayPaid],
+      ['链上实收', chain ? onChain[0] : null],
+      ['链上转出（含手续费）', chain && chain.transferred !== chain.received ? onChain[1] : null],
+      ['客户端上报', reportedTotal]
+    ]
+    report(
+      'amount_mismatch',
+      amounts
+        .filter(([, value]) => value !== null)
+        .map(([label, value]) => `${label} ${value}`)
+        .join('，')
+    )
+  }
+
+  return found
+}
+
+// 同一笔交易被网关或客户端记到了多个订单上
+const reusedHashes = (entries: ReconcileEntry[]): Discrepancy[] => {
+  const owners = new Map<string, Set<string>>()
+  for (const entry of entries) {
+    const reported = entry.reported ? reportedPayments(entry.reported).map((payment) => payment.txHash) : []
+    for (const hash of [entry.gateway?.txHash, ...reported]) {
+      if (!hash) continue
+      owners.set(hash, (owners.get(hash) ?? new Set()).add(entry.orderId))
+    }
+  }
+  const found: Discrepancy[] = []
+  for (const [hash, orderIds] of owners) {
+    if (orderIds.size < 2) continue
+    for (const orderId of orderIds) {
+      const others = Array.from(orderIds).filter((id) => id !== orderId)
+      found.push({ orderId, kind: 'hash_reused', detail: `交易 ${hash} 同时出现在订单 ${others.join('、')}` })
+    }
+  }
+  return found
+}
+
+export const reconcile = (entries: ReconcileEntry[], options: ReconcileOptions): ReconcileReport => {
+  const now = options.now ?? Date.now()
+  const discrepancies = [...entries.flatMap((entry) => checkEntry(entry, options, now)), ...reusedHashes(entries)]
+  const order = new Map(entries.map((entry, index) => [entry.orderId, index]))
+  discrepancies.sort((a, b) => (order.get(a.orderId) ?? 0) - (order.get(b.orderId) ?? 0))
+  return { checkedAt: new Date(now).toISOString(), orders: entries.length, discrepancies }
+}
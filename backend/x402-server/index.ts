@@ -0,0 +1,4 @@
+export * from './solanaVerifier'
+export * from './solanaSubmit'
+export * from './stores'
+export * from './middleware'
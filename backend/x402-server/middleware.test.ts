@@ -0,0 +1,197 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { Keypair, PublicKey, type Connection } from '@solana/web3.js'
+import { getAssociatedTokenAddressSync } from '@solana/spl-token'
+import bs58 from 'bs58'
+import { buildPaymentHeader } from '../../frontend/lib/x402/client'
+import { deriveOrderReference } from '../../frontend/lib/x402/schemes/solanaReference'
+import { decodePaymentResponseHeader } from '../../frontend/lib/x402/settlement'
+import type { PaymentAccept } from '../../frontend/lib/x402/types'
+import { createX402Middleware, type X402Outcome } from './middleware'
+
+const RESOURCE_URL = 'https://shop.test/premium'
+const AMOUNT = '2600000'
+
+const mint = Keypair.generate().publicKey
+const payer = Keypair.generate().publicKey
+const merchant = Keypair.generate().publicKey
+const destination = getAssociatedTokenAddressSync(mint, merchant, true)
+
+interface ChainTransaction {
+  received: string
+  reference: PublicKey | null
+  // 只达到 confirmed，按 finalized 查询时找不到
+  finalized: boolean
+  blockTime: number | null
+}
+
+let sequence = 0
+const nextSignature = () => bs58.encode(Buffer.alloc(64, ++sequence))
+
+const tokenBalance = (amount: string) => ({
+  accountIndex: 1,
+  mint: mint.toBase58(),
+  owner: merchant.toBase58(),
+  uiTokenAmount: { amount, decimals: 6, uiAmount: null, uiAmountString: amount }
+})
+
+// 只实现校验用到的 getParsedTransaction
+const fakeChain = () => {
+  const transactions = new Map<string, ChainTransaction>()
+  const connection = {
+    getParsedTransaction: async (signature: string, { commitment }: { commitment: string }) => {
+      const tx = transactions.get(signature)
+      if (!tx || (commitment === 'finalized' && !tx.finalized)) return null
+      const keys = [payer, destination, ...(tx.reference ? [tx.reference] : [])]
+      return {
+        slot: 1,
+        blockTime: tx.blockTime,
+        meta: { err: null, fee: 5000, preTokenBalances: [tokenBalance('0')], postTokenBalances: [tokenBalance(tx.received)] },
+        transaction: { message: { accountKeys: keys.map((pubkey) => ({ pubkey })) } }
+      }
+    }
+  } as unknown as Connection
+  return { connection, transactions }
+}
+
+const setup = (expiresSeconds = 300) => {
+  const chain = fakeChain()
+  const middleware = createX402Middleware({
+    connection: chain.connection,
+    accepts: [
+      { network: 'solana-localnet', mint: mint.toBase58(), symbol: 'USDC', decimals: 6, payTo: merchant.toBase58(), amount: AMOUNT }
+    ],
+    expiresSeconds,
+    createOrderId: () => `CO${++sequence}`
+  })
+  const get = (payment?: string, url = RESOURCE_URL) => middleware.handle({ url, header: (name) => (name === 'X-PAYMENT' ? payment : null) })
+
+  const challenge = async () => {
+    const outcome = await get()
+    assert.equal(outcome.type === 'respond' && outcome.status, 402)
+    const body = (outcome as Extract<X402Outcome, { type: 'respond' }>).body as { orderId: string; accepts: PaymentAccept[] }
+    return { orderId: body.orderId, accept: body.accepts[0] }
+  }
+
+  // 付款方按报价把交易广播上链，返回对应的 X-PAYMENT
+  const pay = (
+    { orderId, accept }: { orderId: string; accept: PaymentAccept },
+    overrides: Partial<ChainTransaction> = {},
+    txHash = nextSignature()
+  ) => {
+    chain.transactions.set(txHash, {
+      received: AMOUNT,
+      reference: deriveOrderReference({ orderId, nonce: accept.nonce }),
+      finalized: true,
+      blockTime: Math.floor(Date.now() / 1000),
+      ...overrides
+    })
+    const { header } = buildPaymentHeader({ accept, orderId, amount: '2.6', amountInSmallestUnit: BigInt(AMOUNT), decimals: 6, txHash })
+    return { header, txHash }
+  }
+
+  return { chain, get, challenge, pay }
+}
+
+const rejection = (outcome: X402Outcome) => {
+  assert.equal(outcome.type, 'respond')
+  const { status, body } = outcome as Extract<X402Outcome, { type: 'respond' }>
+  return { status, error: (body as { error?: string }).error }
+}
+
+test('没有 X-PAYMENT 时返回 402 报价', async () => {
+  const { challenge } = setup()
+  const { orderId, accept } = await challenge()
+
+  assert.match(orderId, /^CO\d+$/)
+  assert.equal(accept.resource, '/premium')
+  assert.equal(accept.maxAmountRequired, AMOUNT)
+  assert.equal(accept.decimals, '6')
+  assert.deepEqual(accept.extra, { signedTransaction: true })
+})
+
+test('链上核对通过后放行并返回结算信息', async () => {
+  const { challenge, pay, get } = setup()
+  const offer = await challenge()
+  const { header, txHash } = pay(offer)
+
+  const outcome = await get(header)
+
+  assert.equal(outcome.type, 'paid')
+  if (outcome.type !== 'paid') return
+  assert.equal(outcome.payment.orderId, offer.orderId)
+  assert.equal(outcome.payment.received, BigInt(AMOUNT))
+  assert.deepEqual(decodePaymentResponseHeader(outcome.settlementHeader), { success: true, txHash, networkId: 'solana-localnet' })
+})
+
+test('已结算的 X-PAYMENT 重放时返回新的 402 挑战', async () => {
+  const { challenge, pay, get } = setup()
+  const offer = await challenge()
+  const { header } = pay(offer)
+  assert.equal((await get(header)).type, 'paid')
+
+  const replay = await get(header)
+
+  assert.equal(replay.type === 'respond' && replay.status, 402)
+  const body = (replay as Extract<X402Outcome, { type: 'respond' }>).body as { orderId: string }
+  assert.notEqual(body.orderId, offer.orderId)
+})
+
+test('并发提交同一个 X-PAYMENT 只有一个请求放行', async () => {
+  const { challenge, pay, get } = setup()
+  const { header } = pay(await challenge())
+
+  const outcomes = await Promise.all([get(header), get(header), get(header)])
+
+  assert.equal(outcomes.filter((outcome) => outcome.type === 'paid').length, 1)
+})
+
+test('交易未达到 finalized 时返回 202，同一笔交易不能再用于其他订单', async () => {
+  const { challenge, pay, get } = setup()
+  const { header, txHash } = pay(await challenge(), { finalized: false })
+
+  const waiting = await get(header)
+  assert.equal(waiting.type === 'respond' && waiting.status, 202)
+  assert.equal((waiting as Extract<X402Outcome, { type: 'respond' }>).headers['Retry-After'], '2')
+
+  const other = await challenge()
+  const { header: reused } = pay(other, {}, txHash)
+  assert.deepEqual(rejection(await get(reused)), { status: 400, error: 'invalid_payment' })
+})
+
+test('金额不足、缺少订单引用或引用属于其他订单时拒绝', async () => {
+  const { challenge, pay, get } = setup()
+
+  assert.deepEqual(rejection(await get(pay(await challenge(), { received: '2599999' }).header)), { status: 400, error: 'invalid_payment' })
+  assert.deepEqual(rejection(await get(pay(await challenge(), { reference: null }).header)), { status: 400, error: 'invalid_payment' })
+
+  // 另一个订单的引用：不能拿别的订单的转账冒领
+  const other = await challenge()
+  const reference = deriveOrderReference({ orderId: other.orderId, nonce: other.accept.nonce })
+  assert.deepEqual(rejection(await get(pay(await challenge(), { reference }).header)), { status: 400, error: 'invalid_payment' })
+})
+
+test('订单、nonce、资源或网络与报价不符时拒绝', async () => {
+  const { challenge, pay, get } = setup()
+  const offer = await challenge()
+  const { txHash } = pay(offer)
+  const headerFor = (accept: PaymentAccept, orderId = offer.orderId) =>
+    buildPaymentHeader({ accept, orderId, amount: '2.6', amountInSmallestUnit: BigInt(AMOUNT), decimals: 6, txHash }).header
+
+  assert.deepEqual(rejection(await get(headerFor(offer.accept, 'CO-unknown'))), { status: 400, error: 'invalid_payment' })
+  assert.deepEqual(rejection(await get(headerFor({ ...offer.accept, nonce: 'other' }))), { status: 400, error: 'invalid_payment' })
+  assert.deepEqual(rejection(await get(headerFor({ ...offer.accept, network: 'solana-devnet' }))), { status: 400, error: 'invalid_payment' })
+  assert.deepEqual(rejection(await get(headerFor(offer.accept), 'https://shop.test/other')), { status: 400, error: 'invalid_payment' })
+  assert.deepEqual(rejection(await get('not base64 json')), { status: 400, error: 'invalid_payment' })
+})
+
+test('报价过期后只接受有效期内已上链的转账', async () => {
+  const { challenge, pay, get } = setup(0)
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const late = await challenge()
+  const landed = await challenge()
+  await new Promise((resolve) => setTimeout(resolve, 5))
+
+  assert.deepEqual(rejection(await get(pay(late, { blockTime: issuedAt + 60 }).header)), { status: 400, error: 'payment_expired' })
+  assert.equal((await get(pay(landed, { blockTime: issuedAt - 1 }).header)).type, 'paid')
+})
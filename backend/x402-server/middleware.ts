@@ -0,0 +1,258 @@
+import { randomBytes, randomUUID } from 'node:crypto'
+import { Connection, type Finality } from '@solana/web3.js'
+import { deriveOrderReference } from '../../frontend/lib/x402/schemes/solanaReference'
+import type { SettlementResponse } from '../../frontend/lib/x402/settlement'
+import type { PaymentAccept, XPaymentPayload } from '../../frontend/lib/x402/types'
+import { submitSignedSolanaTransfer } from './solanaSubmit'
+import { verifySolanaTransfer } from './solanaVerifier'
+import {
+  createMemoryChallengeStore,
+  createMemorySignatureStore,
+  type ChallengeStore,
+  type SignatureStore
+} from './stores'
+
+export const X402_VERSION = 1
+
+// 受保护资源的一个收款选项，amount 使用代币最小单位
+export interface X402PriceOption {
+  network: string
+  mint: string
+  symbol: string
+  decimals: number
+  payTo: string
+  amount: string
+  description?: string
+}
+
+export interface X402MiddlewareOptions {
+  connection: Connection
+  // 固定价格，或按请求路径返回价格
+  accepts: X402PriceOption[] | ((resource: string) => X402PriceOption[])
+  expiresSeconds?: number
+  // 默认要求 finalized，本地验证器联调时可以放宽为 confirmed
+  commitment?: Finality
+  // 默认接受 X-PAYMENT 中已签名未广播的交易并代为提交；关闭后返回 unsupported_payload，由客户端自行广播
+  acceptSignedTransactions?: boolean
+  challenges?: ChallengeStore
+  signatures?: SignatureStore
+  createOrderId?: () => string
+}
+
+export interface X402IncomingRequest {
+  url: string
+  header: (name: string) => string | null | undefined
+}
+
+export interface VerifiedPayment {
+  orderId: string
+  accept: PaymentAccept
+  txHash: string
+  received: bigint
+  slot: number
+}
+
+export type X402Outcome =
+  | { type: 'paid'; payment: VerifiedPayment; settlementHeader: string }
+  | { type: 'respond'; status: number; headers: Record<string, string>; body: unknown }
+
+export interface X402Middleware {
+  handle: (request: X402IncomingRequest) => Promise<X402Outcome>
+}
+
+const isSolanaNetwork = (network: string) => network.toLowerCase().includes('sol')
+
+const respond = (status: number, body: unknown, headers: Record<string, string> = {}): X402Outcome => ({
+  type: 'respond',
+  status,
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body
+})
+
+const decodePayment = (value: string): XPaymentPayload | null => {
+  try {
+    const payment = JSON.parse(Buffer.from(value, 'base64').toString('utf8'))
+    return payment && typeof payment === 'object' && typeof payment.orderId === 'string' && payment.payload ? payment : null
+  } catch {
+    return null
+  }
+}
+
+export const encodeSettlementHeader = (settlement: SettlementResponse): string =>
+  Buffer.from(JSON.stringify(settlement)).toString('base64')
+
+export const createX402Middleware = (options: X402MiddlewareOptions): X402Middleware => {
+  const {
+    connection,
+    expiresSeconds = 300,
+    commitment = 'finalized',
+    acceptSignedTransactions = true,
+    challenges = createMemoryChallengeStore(),
+    signatures = createMemorySignatureStore(),
+    createOrderId = () => `CO${randomUUID().replace(/-/g, '').slice(0, 20).toUpperCase()}`
+  } = options
+
+  const priceFor = (resource: string): X402PriceOption[] => {
+    const prices = typeof options.accepts === 'function' ? options.accepts(resource) : options.accepts
+    const unsupported = prices.find((price) => !isSolanaNetwork(price.network))
+    if (unsupported) {
+      throw new Error(`x402 中间件目前只能校验 Solana 支付：${unsupported.network}`)
+    }
+    return prices
+  }
+
+  const issueChallenge = async (resource: string): Promise<X402Outcome> => {
+    const orderId = createOrderId()
+    const accepts: PaymentAccept[] = priceFor(resource).map((price) => ({
+      scheme: 'exact',
+      network: price.network,
+      asset: price.mint,
+      symbol: price.symbol,
+      decimals: String(price.decimals),
+      payTo: price.payTo,
+      resource,
+      description: price.description || `Payment for ${resource}`,
+      nonce: randomBytes(8).toString('hex'),
+      expires: expiresSeconds,
+      maxAmountRequired: price.amount,
+      ...(acceptSignedTransactions ? { extra: { signedTransaction: true } } : {})
+    }))
+    await challenges.save({ orderId, resource, accepts, issuedAt: Date.now() })
+    return respond(402, { x402Version: X402_VERSION, orderId, accepts })
+  }
+
+  const handle = async (request: X402IncomingRequest): Promise<X402Outcome> => {
+    const resource = new URL(request.url, 'http://localhost').pathname
+    const header = request.header('X-PAYMENT')
+    if (!header) {
+      return issueChallenge(resource)
+    }
+
+    const payment = decodePayment(header)
+    const reject = (error: string, message: string) => respond(400, { error, message, orderId: payment?.orderId })
+    if (!payment) return reject('invalid_payment', 'X-PAYMENT is not a valid base64 JSON payload')
+
+    const challenge = await challenges.get(payment.orderId)
+    if (!challenge) return reject('invalid_payment', 'Unknown orderId')
+    if (challenge.resource !== resource) return reject('invalid_payment', 'Payment was issued for a different resource')
+    // 一次支付只换一次付费响应：已结算的订单（含截获后重放的 X-PAYMENT）重新发起挑战
+    if (challenge.settledAt !== undefined) return issueChallenge(resource)
+
+    const { txHash, nonce } = payment.payload
+    const accept = challenge.accepts.find((item) => item.nonce === nonce)
+    if (!accept) return reject('invalid_payment', 'Unknown nonce for this order')
+    if (payment.payload.resource !== accept.resource) return reject('invalid_payment', 'Resource does not match the accepted offer')
+    if (payment.network !== accept.network) return reject('invalid_payment', 'Network does not match the accepted offer')
+    if (!txHash) return reject('invalid_payment', 'Missing transaction hash')
+    if (payment.payload.transaction && !acceptSignedTransactions) {
+      return reject('unsupported_payload', 'Signed transactions are not accepted, broadcast it and submit the transaction hash')
+    }
+
+    const reference = deriveOrderReference({ orderId: challenge.orderId, nonce: accept.nonce }).toBase58()
+    const target = { mint: accept.asset, payTo: accept.payTo, reference }
+
+    // 签名已被其他订单使用则拒绝；同一订单在等待确认期间重复提交跳过有效期检查
+    const owner = await signatures.owner(txHash)
+    if (owner && owner !== challenge.orderId) return reject('invalid_payment', 'Transaction hash already used')
+    const expiresAt = challenge.issuedAt + accept.expires * 1000
+    if (!owner && Date.now() > expiresAt) {
+      // 报价过期后仍接受有效期内已上链的转账，以出块时间为准；过期后不再代为提交已签名的交易
+      const landed = payment.payload.transaction ? null : await verifySolanaTransfer(connection, txHash, target, 'confirmed')
+      if (landed?.status !== 'confirmed' || landed.blockTime === null || landed.blockTime * 1000 > expiresAt) {
+        return reject('payment_expired', 'Payment offer expired')
+      }
+    }
+
+    if (payment.payload.transaction) {
+      const submitted = await submitSignedSolanaTransfer(connection, payment.payload.transaction, txHash, target)
+      if (submitted.status === 'failed') return reject('invalid_payment', submitted.message)
+    }
+    const check = await verifySolanaTransfer(connection, txHash, target, commitment)
+    if (check.status === 'not_found') {
+      // 交易尚未达到要求的确认级别，稍后带同一个 X-PAYMENT 重试。已知交易带有本订单引用（已通过静态校验并由我们提交，
+      // 或在 confirmed 级别可见）时先记下签名归属，报价在确认期间过期也不会把真实的转账判为过期
+      const belongsToOrder =
+        Boolean(payment.payload.transaction) ||
+        (commitment !== 'confirmed' && (await verifySolanaTransfer(connection, txHash, target, 'confirmed')).status === 'confirmed')
+      if (!owner && belongsToOrder && !(await signatures.claim(txHash, challenge.orderId))) {
+        return reject('invalid_payment', 'Transaction hash already used')
+      }
+      return respond(
+        202,
+        { orderId: challenge.orderId, orderStatus: 'pending', message: 'Waiting for Payment' },
+        { 'Retry-After': '2' }
+      )
+    }
+    if (check.status === 'failed') return reject('invalid_payment', check.message)
+
+    const required = BigInt(accept.maxAmountRequired || '0')
+    if (check.received < required) {
+      return reject('invalid_payment', `Insufficient amount: received ${check.received}, required ${required}`)
+    }
+    if (!(await signatures.claim(txHash, challenge.orderId))) {
+      return reject('invalid_payment', 'Transaction hash already used')
+    }
+    if (!(await challenges.settle(challenge.orderId))) return issueChallenge(resource)
+
+    return {
+      type: 'paid',
+      payment: { orderId: challenge.orderId, accept, txHash, received: check.received, slot: check.slot },
+      settlementHeader: encodeSettlementHeader({ success: true, txHash, networkId: accept.network })
+    }
+  }
+
+  return { handle }
+}
+
+// Next.js App Router：export const GET = withX402(middleware, async (request, payment) => Response.json(...))
+export const withX402 =
+  <Context = unknown>(
+    middleware: X402Middleware,
+    handler: (request: Request, payment: VerifiedPayment, context: Context) => Response | Promise<Response>
+  ) =>
+  async (request: Request, context: Context): Promise<Response> => {
+    const outcome = await middleware.handle({ url: request.url, header: (name) => request.headers.get(name) })
+    if (outcome.type === 'respond') {
+      return new Response(JSON.stringify(outcome.body), { status: outcome.status, headers: outcome.headers })
+    }
+    const response = await handler(request, outcome.payment, context)
+    // handler 返回的 Response header 可能不可修改，复制一份再附加结算信息
+    const headers = new Headers(response.headers)
+    headers.set('X-PAYMENT-RESPONSE', outcome.settlementHeader)
+    headers.append('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE')
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers })
+  }
+
+// 只依赖 Express 的最小接口，避免引入 express 类型
+interface ExpressLikeRequest {
+  originalUrl?: string
+  url: string
+  header: (name: string) => string | undefined
+  x402?: VerifiedPayment
+}
+
+interface ExpressLikeResponse {
+  status: (code: number) => ExpressLikeResponse
+  setHeader: (name: string, value: string) => unknown
+  json: (body: unknown) => unknown
+}
+
+// Express：app.get('/premium', x402Express(middleware), (req, res) => res.json(...))，支付信息在 req.x402
+export const x402Express =
+  (middleware: X402Middleware) =>
+  (req: ExpressLikeRequest, res: ExpressLikeResponse, next: (error?: unknown) => void) => {
+    middleware
+      .handle({ url: req.originalUrl || req.url, header: (name) => req.header(name) })
+      .then((outcome) => {
+        if (outcome.type === 'respond') {
+          Object.entries(outcome.headers).forEach(([name, value]) => res.setHeader(name, value))
+          res.status(outcome.status).json(outcome.body)
+          return
+        }
+        res.setHeader('X-PAYMENT-RESPONSE', outcome.settlementHeader)
+        res.setHeader('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE')
+        req.x402 = outcome.payment
+        next()
+      })
+      .catch(next)
+  }
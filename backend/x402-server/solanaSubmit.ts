@@ -0,0 +1,71 @@
+import { Connection, SendTransactionError, Transaction, type TransactionInstruction } from '@solana/web3.js'
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, TokenInstruction, TransferFeeInstruction } from '@solana/spl-token'
+import bs58 from 'bs58'
+import { getErrorMessage } from '../../frontend/lib/x402/utils'
+import { destinationAccounts, type SolanaTransferTarget } from './solanaVerifier'
+
+export type SignedTransferSubmission = { status: 'submitted' } | { status: 'failed'; message: string }
+
+const failed = (message: string): SignedTransferSubmission => ({ status: 'failed', message })
+
+// TransferChecked 与 Token-2022 的 TransferCheckedWithFee，账户顺序均为 source、mint、destination、authority
+const isTransferChecked = ({ programId, data }: TransactionInstruction): boolean =>
+  (programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)) &&
+  (data[0] === TokenInstruction.TransferChecked ||
+    (data[0] === TokenInstruction.TransferFeeExtension && data[1] === TransferFeeInstruction.TransferCheckedWithFee))
+
+// 客户端签名但未广播的交易：确认签名完整、确实向收款方转入该 Mint 并带有订单引用后代为提交
+// 收款方不签名也不付费，实收金额仍由 verifySolanaTransfer 在链上核对
+export const submitSignedSolanaTransfer = async (
+  connection: Connection,
+  serialized: string,
+  txHash: string,
+  target: SolanaTransferTarget
+): Promise<SignedTransferSubmission> => {
+  let rawTransaction: Buffer
+  let transaction: Transaction
+  try {
+    rawTransaction = Buffer.from(serialized, 'base64')
+    transaction = Transaction.from(rawTransaction)
+  } catch (error) {
+    return failed(`无法解析已签名的交易：${getErrorMessage(error)}`)
+  }
+
+  if (!transaction.signature || bs58.encode(transaction.signature) !== txHash) {
+    return failed('交易签名与 txHash 不一致')
+  }
+  if (!transaction.verifySignatures()) {
+    return failed('交易缺少签名或签名无效')
+  }
+
+  const destinations = destinationAccounts(target)
+  const paysTarget = transaction.instructions.some(
+    (instruction) =>
+      isTransferChecked(instruction) &&
+      instruction.keys[1]?.pubkey.toBase58() === target.mint &&
+      destinations.has(instruction.keys[2]?.pubkey.toBase58() ?? '')
+  )
+  if (!paysTarget) {
+    return failed(`交易中没有向 ${target.payTo} 转入 ${target.mint} 的指令`)
+  }
+  if (target.reference && !transaction.instructions.some((instruction) => instruction.keys.some((key) => key.pubkey.toBase58() === target.reference))) {
+    return failed('交易未包含该订单的链上引用')
+  }
+
+  // 同一个 X-PAYMENT 重试时交易可能已经提交过；RPC 不可用时直接抛出，由调用方返回 5xx
+  const { value } = await connection.getSignatureStatuses([txHash])
+  if (value[0]) {
+    return value[0].err ? failed(`交易执行失败：${JSON.stringify(value[0].err)}`) : { status: 'submitted' }
+  }
+  try {
+    // 预检失败说明交易无法执行（余额不足、区块哈希过期等），不会上链也不会扣款
+    await connection.sendRawTransaction(rawTransaction, { preflightCommitment: 'confirmed' })
+  } catch (error) {
+    if (error instanceof SendTransactionError) {
+      return failed(`交易提交失败：${error.message}`)
+    }
+    throw error
+  }
+  console.log('Submitted signed Solana transaction:', txHash)
+  return { status: 'submitted' }
+}
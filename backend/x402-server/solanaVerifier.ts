@@ -0,0 +1,91 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey, type Finality, type TokenBalance } from '@solana/web3.js'
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token'
+import bs58 from 'bs58'
+
+export type SolanaTransferCheck =
+  | { status: 'not_found' }
+  | { status: 'failed'; message: string }
+  // blockTime 为出块的 Unix 时间（秒），节点未提供时为 null
+  | { status: 'confirmed'; received: bigint; gasFee: string; slot: number; blockTime: number | null }
+
+export interface SolanaTransferTarget {
+  mint: string
+  // 收款地址，可以是钱包地址（校验其 ATA）也可以直接是 Token 账户
+  payTo: string
+  // 订单引用公钥，提供时交易必须包含它，防止把别的订单的转账拿来冒领
+  reference?: string
+}
+
+// 收款方可接受的 Token 账户：payTo 本身，或 payTo 在 SPL Token / Token-2022 下的 ATA
+export const destinationAccounts = ({ mint, payTo }: SolanaTransferTarget): Set<string> => {
+  const accounts = new Set([payTo])
+  try {
+    const mintKey = new PublicKey(mint)
+    const owner = new PublicKey(payTo)
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      accounts.add(getAssociatedTokenAddressSync(mintKey, owner, true, programId).toBase58())
+    }
+  } catch (error) {
+    console.error('Invalid mint or payTo address:', error)
+  }
+  return accounts
+}
+
+// 按交易前后的 Token 余额差计算收款方实收金额，Token-2022 转账手续费已被扣除
+const receivedAmount = (accountKeys: string[], pre: TokenBalance[], post: TokenBalance[], target: SolanaTransferTarget): bigint => {
+  const destinations = destinationAccounts(target)
+  const matches = (balance: TokenBalance) =>
+    balance.mint === target.mint && destinations.has(accountKeys[balance.accountIndex])
+  const sum = (balances: TokenBalance[]) =>
+    balances.filter(matches).reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0))
+  return sum(post) - sum(pre)
+}
+
+export const isSolanaSignature = (value: string): boolean => {
+  try {
+    return bs58.decode(value).length === 64
+  } catch {
+    return false
+  }
+}
+
+// 在指定确认级别下读取交易，核对 Mint 与收款账户并返回实收金额；金额是否足够由调用方判断
+export const verifySolanaTransfer = async (
+  connection: Connection,
+  signature: string,
+  target: SolanaTransferTarget,
+  commitment: Finality = 'confirmed'
+): Promise<SolanaTransferCheck> => {
+  if (!isSolanaSignature(signature)) {
+    return { status: 'failed', message: `交易签名格式不正确：${signature}` }
+  }
+  // RPC 不可用时直接抛出，由调用方返回 5xx，客户端可以重试
+  const transaction = await connection.getParsedTransaction(signature, { commitment, maxSupportedTransactionVersion: 0 })
+  if (!transaction) {
+    return { status: 'not_found' }
+  }
+  const { meta } = transaction
+  if (!meta) {
+    return { status: 'failed', message: '交易缺少执行结果' }
+  }
+  if (meta.err) {
+    return { status: 'failed', message: `交易执行失败：${JSON.stringify(meta.err)}` }
+  }
+
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) => key.pubkey.toBase58())
+  if (target.reference && !accountKeys.includes(target.reference)) {
+    return { status: 'failed', message: '交易未包含该订单的链上引用' }
+  }
+  const received = receivedAmount(accountKeys, meta.preTokenBalances || [], meta.postTokenBalances || [], target)
+  if (received <= BigInt(0)) {
+    return { status: 'failed', message: `交易中没有向 ${target.payTo} 的 ${target.mint} 账户转入代币` }
+  }
+
+  return {
+    status: 'confirmed',
+    received,
+    gasFee: (meta.fee / LAMPORTS_PER_SOL).toString(),
+    slot: transaction.slot,
+    blockTime: transaction.blockTime ?? null
+  }
+}
@@ -0,0 +1,67 @@
+import type { PaymentAccept } from '../../frontend/lib/x402/types'
+
+// 已发出的 402 挑战，确认时据此校验 nonce、resource 与有效期
+export interface IssuedChallenge {
+  orderId: string
+  resource: string
+  accepts: PaymentAccept[]
+  issuedAt: number
+  // 已返回过付费响应的时间；之后带同一个 X-PAYMENT 的请求需要重新支付
+  settledAt?: number
+}
+
+export interface ChallengeStore {
+  save: (challenge: IssuedChallenge) => Promise<void>
+  get: (orderId: string) => Promise<IssuedChallenge | null>
+  // 标记订单已结算，只有第一次调用返回 true；并发的重复请求只有一个能拿到付费响应
+  settle: (orderId: string) => Promise<boolean>
+}
+
+// 交易签名只能用于一个订单；同一订单重复提交同一签名视为幂等重试
+export interface SignatureStore {
+  claim: (signature: string, orderId: string) => Promise<boolean>
+  release: (signature: string, orderId: string) => Promise<void>
+  owner: (signature: string) => Promise<string | null>
+}
+
+// 单进程内存实现，多实例部署时换成 Redis / 数据库实现同样的接口
+export const createMemoryChallengeStore = (ttlMs: number = 24 * 60 * 60 * 1000): ChallengeStore => {
+  const challenges = new Map<string, IssuedChallenge>()
+
+  const prune = () => {
+    const cutoff = Date.now() - ttlMs
+    challenges.forEach((challenge, orderId) => {
+      if (challenge.issuedAt < cutoff) challenges.delete(orderId)
+    })
+  }
+
+  return {
+    save: async (challenge) => {
+      prune()
+      challenges.set(challenge.orderId, challenge)
+    },
+    get: async (orderId) => challenges.get(orderId) ?? null,
+    settle: async (orderId) => {
+      const challenge = challenges.get(orderId)
+      if (!challenge || challenge.settledAt !== undefined) return false
+      challenge.settledAt = Date.now()
+      return true
+    }
+  }
+}
+
+export const createMemorySignatureStore = (): SignatureStore => {
+  const used = new Map<string, string>()
+  return {
+    claim: async (signature, orderId) => {
+      const current = used.get(signature)
+      if (current && current !== orderId) return false
+      used.set(signature, orderId)
+      return true
+    },
+    release: async (signature, orderId) => {
+      if (used.get(signature) === orderId) used.delete(signature)
+    },
+    owner: async (signature) => used.get(signature) ?? null
+  }
+}
@@ -0,0 +1,181 @@
+'use client'
+import React, { useMemo, useState } from 'react'
+import {
+  filterReceipts,
+  formatSmallestUnit,
+  receiptsToCsv,
+  receiptsToJson,
+  type PaymentReceipt,
+  type ReceiptStatus
+} from '../lib/x402'
+
+interface PaymentHistoryPanelProps {
+  receipts: PaymentReceipt[]
+  // 正在重新读取 GET /order/{orderId} 的订单
+  refreshingOrderId: string | null
+  onRefreshStatus: (orderId: string) => void
+  onClose: () => void
+}
+
+const STATUS_TEXT: Record<ReceiptStatus, string> = {
+  success: '成功',
+  over_paid: '超额支付',
+  partially_paid: '部分支付',
+  failed: '失败'
+}
+
+// 订单状态里的 paidAmount 为最小单位
+const formatPaidAmount = (receipt: PaymentReceipt): string => {
+  const value = receipt.orderStatus?.paidAmount || ''
+  return /^\d+$/.test(value) ? formatSmallestUnit(value, receipt.decimals) : value || '-'
+}
+
+// 需要跟进的差额：部分支付未补足的部分，或超额支付待退款的部分
+const describeBalance = (receipt: PaymentReceipt): string | null => {
+  if (receipt.status === 'partially_paid' && receipt.shortfall) {
+    return `未补足：${formatSmallestUnit(receipt.shortfall, receipt.decimals)} ${receipt.symbol}`
+  }
+  if (receipt.status === 'over_paid' && receipt.surplus) {
+    return `多付待退：${formatSmallestUnit(receipt.surplus, receipt.decimals)} ${receipt.symbol}`
+  }
+  return null
+}
+
+// <input type="date"> 的值按本地时间解析，结束日期包含当天
+const parseDate = (value: string, endOfDay: boolean): number | null =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime() : null
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function PaymentHistoryPanel({ receipts, refreshingOrderId, onRefreshStatus, onClose }: PaymentHistoryPanelProps) {
+  const [from, setFrom] = useState<string>('')
+  const [to, setTo] = useState<string>('')
+  const [status, setStatus] = useState<ReceiptStatus | ''>('')
+  const [network, setNetwork] = useState<string>('')
+
+  const networks = useMemo(() => Array.from(new Set(receipts.map((receipt) => receipt.network))).sort(), [receipts])
+  const filtered = filterReceipts(receipts, {
+    from: parseDate(from, false),
+    to: parseDate(to, true),
+    status: status || null,
+    network: network || null
+  })
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 10)
+    if (format === 'csv') {
+      // 带 BOM，Excel 打开时中文不乱码
+      downloadFile(`x402-payments-${stamp}.csv`, `\uFEFF${receiptsToCsv(filtered)}`, 'text/csv;charset=utf-8')
+    } else {
+      downloadFile(`x402-payments-${stamp}.json`, receiptsToJson(filtered), 'application/json')
+    }
+  }
+
+  const fieldClass = 'rounded-md bg-[#23241c] border border-white/20 px-1.5 py-1 text-[10px] md:text-xs text-white outline-none focus:border-[#E1FF01]'
+  const actionClass = 'text-[10px] md:text-xs text-white/50 hover:text-white/80 transition-colors disabled:opacity-40'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] md:text-xs text-white/70 font-medium">支付记录（{filtered.length}/{receipts.length}）</div>
+        <button onClick={onClose} className={actionClass}>
+          收起
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1.5">
+        <input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className={fieldClass} title="开始日期" />
+        <input type="date" value={to} onChange={(event) => setTo(event.target.value)} className={fieldClass} title="结束日期" />
+        <select value={status} onChange={(event) => setStatus(event.target.value as ReceiptStatus | '')} className={fieldClass}>
+          <option value="">全部状态</option>
+          {Object.entries(STATUS_TEXT).map(([value, text]) => (
+            <option key={value} value={value}>
+              {text}
+            </option>
+          ))}
+        </select>
+        <select value={network} onChange={(event) => setNetwork(event.target.value)} className={fieldClass}>
+          <option value="">全部网络</option>
+          {networks.map((item) => (
+            <option key={item} value={item}>
+              {item}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button onClick={() => exportAs('csv')} disabled={!filtered.length} className={actionClass}>
+          导出 CSV
+        </button>
+        <button onClick={() => exportAs('json')} disabled={!filtered.length} className={actionClass}>
+          导出 JSON
+        </button>
+      </div>
+
+      <div className="max-h-[320px] overflow-y-auto space-y-2 pr-1">
+        {!filtered.length && <div className="text-[10px] md:text-xs text-white/50">暂无记录</div>}
+        {filtered.map((receipt) => (
+          <div key={receipt.orderId} className="border-t border-white/10 pt-2 space-y-0.5 text-[10px] md:text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[#E1FF01] font-medium">
+                {receipt.amount} {receipt.symbol}
+              </span>
+              <span className={receipt.status === 'success' ? 'text-white/70' : receipt.status === 'failed' ? 'text-red-400' : 'text-[#E1FF01]'}>
+                {STATUS_TEXT[receipt.status]}
+              </span>
+            </div>
+            <div className="text-white/50">
+              {new Date(receipt.completedAt).toLocaleString()} · {receipt.network}
+            </div>
+            <div className="text-white/70 font-mono truncate" title={receipt.orderId}>
+              订单：{receipt.orderId}
+            </div>
+            <div className="text-white/70 font-mono truncate" title={receipt.txHash}>
+              交易：{receipt.txHash || '-'}
+            </div>
+            {receipt.resource && (
+              <div className="text-white/50 truncate" title={receipt.resource}>
+                资源：{receipt.resource}
+              </div>
+            )}
+            <div className="text-white/50 truncate" title={receipt.settlement ? `${receipt.settlement.networkId} ${receipt.settlement.txHash}` : ''}>
+              结算：{receipt.settlement ? `${receipt.settlement.success ? '成功' : '失败'} · ${receipt.settlement.networkId}` : '无结算头'}
+            </div>
+            {receipt.orderStatus && (
+              <div className="text-white/50">
+                到账：{formatPaidAmount(receipt)} {receipt.symbol} · 手续费：{receipt.orderStatus.transactionFee || '0'} · Gas：
+                {receipt.orderStatus.gasFee || '0'}
+              </div>
+            )}
+            {describeBalance(receipt) && <div className="text-[#E1FF01]">{describeBalance(receipt)}</div>}
+            {(receipt.payments?.length ?? 0) > 1 && (
+              <div className="text-white/50 font-mono truncate" title={receipt.payments.map((item) => item.txHash).join('\n')}>
+                共 {receipt.payments.length} 笔转账（含补款）
+              </div>
+            )}
+            {receipt.error && (
+              <div className="text-red-400 whitespace-pre-wrap line-clamp-3" title={receipt.error}>
+                {receipt.error}
+              </div>
+            )}
+            <button
+              onClick={() => onRefreshStatus(receipt.orderId)}
+              disabled={refreshingOrderId === receipt.orderId}
+              className={actionClass}
+            >
+              {refreshingOrderId === receipt.orderId ? '查询中...' : '刷新订单状态'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+'use client'
+import React, { useEffect, useRef } from 'react'
+import { createQR } from '@solana/pay'
+
+interface SolanaPayQrProps {
+  url: string
+  size?: number
+}
+
+// createQR 依赖 DOM，只能在客户端挂载后渲染到容器里
+export default function SolanaPayQr({ url, size = 200 }: SolanaPayQrProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    container.innerHTML = ''
+    createQR(url, size, 'white').append(container)
+    return () => {
+      container.innerHTML = ''
+    }
+  }, [url, size])
+
+  return <div ref={containerRef} className="w-fit rounded-md overflow-hidden bg-white" />
+}
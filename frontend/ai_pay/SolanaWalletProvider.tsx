@@ -0,0 +1,31 @@
+'use client'
+import React, { useCallback, useMemo } from 'react'
+import toast from 'react-hot-toast'
+import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react'
+import { WalletModalProvider } from '@solana/wallet-adapter-react-ui'
+import type { WalletError } from '@solana/wallet-adapter-base'
+import '@solana/wallet-adapter-react-ui/styles.css'
+
+interface SolanaWalletProviderProps {
+  endpoint: string
+  children: React.ReactNode
+}
+
+// Phantom、Solflare、Backpack 等钱包均实现了 Wallet Standard，
+// WalletProvider 会自动发现，因此这里不需要再手动注册适配器
+export default function SolanaWalletProvider({ endpoint, children }: SolanaWalletProviderProps) {
+  const wallets = useMemo(() => [], [])
+
+  const handleError = useCallback((error: WalletError) => {
+    console.error('Solana wallet error:', error)
+    toast.error(error.message || '钱包连接失败')
+  }, [])
+
+  return (
+    <ConnectionProvider endpoint={endpoint} config={{ commitment: 'confirmed' }}>
+      <WalletProvider wallets={wallets} autoConnect onError={handleError}>
+        <WalletModalProvider>{children}</WalletModalProvider>
+      </WalletProvider>
+    </ConnectionProvider>
+  )
+}
@@ -1,145 +1,354 @@
 'use client'
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react'
 import Image from 'next/image'
 import { Button } from '@/components/ui/button'
-import { resourcePayment, resourcePaymentConfirm } from '@/data/api'
 import { useUserStore } from '@/store/user/userStore'
 import toast from 'react-hot-toast'
-import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL, Transaction, TransactionInstruction, type ParsedAccountData } from '@solana/web3.js'
+import { useConnection, useWallet } from '@solana/wallet-adapter-react'
+import { WalletMultiButton, useWalletModal } from '@solana/wallet-adapter-react-ui'
+import SolanaWalletProvider from './SolanaWalletProvider'
+import SolanaPayQr from './SolanaPayQr'
+import PaymentHistoryPanel from './PaymentHistoryPanel'
 import {
-  TOKEN_PROGRAM_ID,
-  createAssociatedTokenAccountInstruction,
-  createTransferInstruction,
-  getAssociatedTokenAddress
-} from '@solana/spl-token'
-import bs58 from 'bs58'
+  createLlmIntentParser,
+  applyOrderStatus,
+  comparePaidAmount,
+  createLocalReceiptStore,
+  createLocalSessionStore,
+  createLocalSpendingLedger,
+  createReceipt,
+  createPaymentMachine,
+  createRuleIntentParser,
+  createStubLlmAdapter,
+  createSpendingPolicyEngine,
+  createX402Client,
+  formatCountdown,
+  formatSmallestUnit,
+  getAcceptExpiresAt,
+  getErrorMessage,
+  getMaxAmountRequired,
+  getQuotedAmount,
+  isAcceptExpired,
+  isUptoScheme,
+  resolvePaymentAmount,
+  retryConfirm,
+  isChallengeExpired,
+  isOrderSettled,
+  initialPaymentState,
+  isPaymentBusy,
+  matchAccepts,
+  parseSpendingPolicy,
+  recordFromTransfer,
+  pollOrderStatus,
+  sessionPreviousTransfers,
+  sessionToTransfer,
+  toSessionTransfer,
+  withSpendingPolicy,
+  type OrderStatus,
+  type PayIntent,
+  type PaidBalance,
+  type PaymentAccept,
+  type PaymentContext,
+  type PaymentIntent,
+  type PaymentReceipt,
+  type PaymentRecord,
+  type PaymentSession,
+  type PaymentSessionStep,
+  type PolicyDecision,
+  type SettlementResponse,
+  type SpendingPolicy,
+  type X402Transfer,
+  type X402TransferRequest
+} from '../lib/x402'
+import { createGatewayClient, createGatewayTransport } from '../lib/x402/gateway'
+import {
+  createEvmSchemeHandler,
+  createSchemeRegistry,
+  createSolanaPayRequest,
+  createSolanaPayUrl,
+  createSolanaSchemeHandler,
+  isSolanaNetwork,
+  waitForSolanaPayTransfer,
+  type ChainTransactionStatus,
+  type SchemeBalances,
+  type SolanaPayRequest,
+  type TransferFeeEstimate
+} from '../lib/x402/schemes'
 
 // Solana 配置信息（Devnet）
 const SOLANA_RPC_URL = 'https://solana-devnet.api.onfinality.io/public'
 const SOLANA_USDC_MINT = 'UCSsmd2A8Ub8J2mE68pXKSSJLJmMTJyPfuT4h7YwpQA'
-const SOLANA_PRIVATE_KEY = ''
-const SOLANA_DECIMALS = 6
-
-const amountToSmallestUnit = (value: string, decimals: number): bigint => {
-  const [integerPart, fractionalPart = ''] = value.split('.')
-  const cleanInteger = integerPart.replace(/\D/g, '') || '0'
-  const cleanFraction = fractionalPart.replace(/\D/g, '')
-  const paddedFraction = (cleanFraction + '0'.repeat(decimals)).slice(0, decimals)
-  const combined = `${cleanInteger}${paddedFraction}`
-  return BigInt(combined || '0')
-}
 
-const getErrorMessage = (error: unknown): string => {
-  if (error instanceof Error) {
-    return error.message || error.toString()
-  }
-  if (typeof error === 'string') {
-    return error
-  }
-  try {
-    return JSON.stringify(error)
-  } catch {
-    return String(error)
-  }
-}
+const X402_PROXY_PATH = '/api/x402'
+
+const shortenAddress = (address: string): string => `${address.slice(0, 4)}...${address.slice(-3)}`
 
-const getSolanaKeypair = (): Keypair => {
-  let cleanedKey = SOLANA_PRIVATE_KEY.trim()
+// 默认走同源的 /api/x402 代理，由服务端附加 Merchant-App-Key；浏览器里不持有商户凭证
+const X402_GATEWAY_URL = process.env.NEXT_PUBLIC_X402_GATEWAY_URL || X402_PROXY_PATH
+
+// 响应体按 OpenAPI 生成的 schema 校验后再交给 X402 客户端
+const gateway = createGatewayClient({ baseUrl: X402_GATEWAY_URL })
+const gatewayTransport = createGatewayTransport(gateway)
+const GATEWAY_ORDER_URL = `${gateway.baseUrl}/order`
+
+// 创建订单与确认支付共用同一个请求体，resourceid 写入订单描述
+const orderRequestInit = (resourceid: string): RequestInit => ({
+  method: 'POST',
+  body: JSON.stringify({ description: `推文推广 ${resourceid}` })
+})
+
+// 文本输入的意图解析；NEXT_PUBLIC_INTENT_PARSER=llm-stub 时走 LLM 适配器路径（本地桩，不调用模型）
+const intentParser =
+  process.env.NEXT_PUBLIC_INTENT_PARSER === 'llm-stub'
+    ? createLlmIntentParser({
+        adapter: createStubLlmAdapter(),
+        onFallback: (reason) => console.warn(`${reason}, falling back to rules`)
+      })
+    : createRuleIntentParser()
+
+// 支出策略（JSON），例如 {"limits":{"USDC":{"perPayment":"5","daily":"20","approvalAbove":"1"}}}
+// 配置无法解析时拒绝所有支付，而不是在没有限额的情况下放行
+const loadSpendingPolicy = (): SpendingPolicy => {
+  const json = process.env.NEXT_PUBLIC_X402_SPENDING_POLICY
+  if (!json) return {}
   try {
-    const secretKeyBytes = bs58.decode(cleanedKey)
-    return Keypair.fromSecretKey(secretKeyBytes)
+    return parseSpendingPolicy(json)
   } catch (error) {
-    console.error('Failed to create Solana keypair:', error)
-    throw new Error('Solana 私钥格式不正确')
+    console.error('Invalid NEXT_PUBLIC_X402_SPENDING_POLICY, all payments will be denied:', error)
+    return { limits: { '*': { perPayment: '0' } } }
   }
 }
 
-const resolveDecimals = (decimals?: number | null, fallback: number = SOLANA_DECIMALS): number => {
-  if (decimals === undefined || decimals === null) {
-    return fallback
-  }
-  if (Number.isNaN(decimals) || decimals <= 0) {
-    return fallback
-  }
-  return decimals
+const spendingPolicy = loadSpendingPolicy()
+
+const HELP_TEXT = [
+  '可以直接输入，例如：',
+  '· pay 0.2 USDC on Solana for resource abc',
+  '· 用 Solana 支付（之后再告诉我金额）',
+  '· 余额 / what\'s my balance',
+  '· 确认、重试、取消'
+].join('\n')
+
+const PAY_STATUS_TEXT: Record<string, string> = {
+  'Not Paid': '未支付',
+  'Partially Paid': '部分支付',
+  'Fully Paid': '已全额支付',
+  'Over Paid': '超额支付'
 }
 
-interface PaymentAccept {
-  scheme: string
-  network: string
-  asset: string
-  symbol: string
-  decimals?: number | null
-  payTo: string
-  resource: string
-  description: string
-  nonce: string
-  expires: number
+// 订单状态里的金额与 X-PAYMENT 一致使用最小单位
+const formatOrderAmount = (value: string, decimals: number): string =>
+  /^\d+$/.test(value || '') ? formatSmallestUnit(value, decimals) : value || '0'
+
+const describeSettlement = (record: PaymentRecord): string =>
+  record.settlement
+    ? `\n\n结算网络：${record.settlement.networkId}\n结算交易：${record.settlement.txHash}`
+    : ''
+
+const describeOrderStatus = (status: OrderStatus, transfer: X402Transfer): string => {
+  const symbol = transfer.accept.symbol
+  const lines = [
+    `订单号：${status.orderId}`,
+    `支付状态：${PAY_STATUS_TEXT[status.payStatus] || status.payStatus}`,
+    `已支付：${formatOrderAmount(status.paidAmount, transfer.decimals)} ${symbol}（本次转账 ${transfer.amount} ${symbol}）`
+  ]
+  if (status.gasFee) lines.push(`Gas 费：${status.gasFee}`)
+  lines.push(`交易哈希：${status.txHash || transfer.txHash}`)
+  return lines.join('\n')
 }
 
-interface PaymentResponse {
-  x402Version: number
-  accepts: PaymentAccept[]
-  orderId: string
+// 订单应付与到账的差额：转账后以实际转账的报价为准，upto 报价以用户选定的金额为准
+const getOrderBalance = ({ accept, transfer, amountInSmallestUnit }: PaymentContext, status: OrderStatus): PaidBalance | null => {
+  const orderAccept = transfer?.accept ?? accept
+  if (!orderAccept) return null
+  return comparePaidAmount(orderAccept, BigInt(amountInSmallestUnit || transfer?.amountInSmallestUnit || 0), status)
 }
 
 interface ChatMessage {
   text: string
   inversion: boolean // false 答，true 问
   error: boolean
-  options?: { label: string; value: string }[] // 可选的按钮选项
+  options?: { label: string; value: string; expiresAt?: number | null }[] // 可选的按钮选项，expiresAt 用于倒计时
+  amountInput?: { symbol: string; max: string | null } // upto 或网关未报价时由用户输入金额
+  solanaPayUrl?: string // 手机钱包扫码支付的 Solana Pay 链接
 }
 
-type Step =
-  | 'start'
-  | 'pending_payment_info'
-  | 'select_network'
-  | 'select_amount'
-  | 'pending_transfer'
-  | 'pending_confirm'
-  | 'success'
-  | 'failed'
+// 网关未给出报价过期时间时，扫码支付最多等待的时长
+const SOLANA_PAY_WAIT_MS = 10 * 60 * 1000
+
+const getTokenSymbol = (accept: PaymentAccept): string => (accept.symbol || accept.asset || 'USDC').toUpperCase()
 
 export default function Page() {
+  return (
+    <SolanaWalletProvider endpoint={SOLANA_RPC_URL}>
+      <AiPayChat />
+    </SolanaWalletProvider>
+  )
+}
+
+function AiPayChat() {
   const avatar = useUserStore((s) => s.user?.avatar || '')
   const chatContainerRef = useRef<HTMLDivElement>(null)
-
-  const [step, setStep] = useState<Step>('start')
+  const { connection } = useConnection()
+  const { publicKey, sendTransaction, signTransaction, disconnect } = useWallet()
+  const { setVisible: setWalletModalVisible } = useWalletModal()
+  const connectedAddressRef = useRef<string>('')
+  const recoveryStartedRef = useRef<boolean>(false)
+  // 文本输入中尚未用上的支付细节（网络、金额），随步骤推进依次应用
+  const pendingIntentRef = useRef<PayIntent | null>(null)
+
+  // 支付流程的步骤与数据都由状态机持有；页面只渲染当前状态，异步回调通过 machine.getState() 读取最新值
+  const [machine] = useState(() =>
+    createPaymentMachine(initialPaymentState, {
+      onIgnored: (event, state) => console.warn(`Ignored payment event ${event.type} in step ${state.step}`)
+    })
+  )
+  const { step, context } = useSyncExternalStore(machine.subscribe, machine.getState, machine.getState)
+  const selectedPaymentOption = context.accept
   const [chatList, setChatList] = useState<ChatMessage[]>([
     {
-      text: '欢迎使用 AI 支付功能。点击下方按钮开始推广流程。',
+      text: '欢迎使用 AI 支付功能。点击下方按钮开始推广流程，也可以直接输入，例如“pay 0.2 USDC on Solana for resource abc”。',
       inversion: false,
       error: false
     }
   ])
-  const [paymentOptions, setPaymentOptions] = useState<PaymentAccept[]>([])
-  const [selectedPaymentOption, setSelectedPaymentOption] = useState<PaymentAccept | null>(null)
-  const [orderId, setOrderId] = useState<string>('')
-  const [selectedAmount, setSelectedAmount] = useState<string>('')
-  const [selectedToken, setSelectedToken] = useState<'USDC' | ''>('')
-  const [selectedNetwork, setSelectedNetwork] = useState<string>('Solana Devnet')
-  const [actualTransferAmount, setActualTransferAmount] = useState<string>('') // 记录实际转账的金额
-  const [txHash, setTxHash] = useState<string>('')
-  const [resourceid, setResourceid] = useState<string>('')
-  
+  const [customAmount, setCustomAmount] = useState<string>('')
+  // 倒计时用的当前时间，仅在选择网络 / 金额时每秒刷新
+  const [now, setNow] = useState<number>(Date.now())
+  // 每次步骤变化都写入 localStorage，页面重载后据此恢复未完成的支付
+  const [sessionStore] = useState(() =>
+    createLocalSessionStore(undefined, undefined, (error) => console.error('Failed to access payment sessions:', error))
+  )
+  const [inputText, setInputText] = useState<string>('')
+  // 每次转账前按支出策略判定，已完成的支付计入本地账本
+  const [spendingEngine] = useState(() =>
+    createSpendingPolicyEngine({
+      policy: spendingPolicy,
+      ledger: createLocalSpendingLedger(undefined, undefined, (error) => console.error('Failed to access spending ledger:', error)),
+      onDecision: (entry) =>
+        console.log(`[spending-policy] ${entry.outcome} ${entry.amount} ${entry.symbol} on ${entry.network} (${entry.rule}): ${entry.reason}`)
+    })
+  )
+  // 超过审批阈值的支付在聊天中等待人工批准；resolver 放在 ref 里供异步回调读取
+  const approvalRef = useRef<((approved: boolean) => void) | null>(null)
+  const [approvalPending, setApprovalPending] = useState<boolean>(false)
+  // 支付记录（收据）持久化在 localStorage，供财务对账导出
+  const [receiptStore] = useState(() =>
+    createLocalReceiptStore(undefined, undefined, (error) => console.error('Failed to access payment receipts:', error))
+  )
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([])
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false)
+  const [refreshingOrderId, setRefreshingOrderId] = useState<string | null>(null)
+
   // 钱包信息状态
   const [solWalletAddress, setSolWalletAddress] = useState<string>('')
   const [solBalance, setSolBalance] = useState<string>('0')
   const [usdcBalance, setUsdcBalance] = useState<string>('0')
-  const [isLoadingBalance, setIsLoadingBalance] = useState<boolean>(true)
+  const [isLoadingBalance, setIsLoadingBalance] = useState<boolean>(false)
+  // 选中非 Solana 网络时，展示该链 handler 读取到的余额
+  const [schemeBalances, setSchemeBalances] = useState<SchemeBalances | null>(null)
+
+  // 每条链一个 handler，网络选择只展示有 handler 的选项
+  const solanaScheme = createSolanaSchemeHandler({
+    connection,
+    wallet: { publicKey, sendTransaction, signTransaction },
+    defaultMint: SOLANA_USDC_MINT,
+    defaultSymbol: 'USDC',
+    onSendStatus: (message) => replyInChat(message),
+    onLog: (message) => console.log(message)
+  })
+  const schemeRegistry = createSchemeRegistry([solanaScheme, createEvmSchemeHandler({ onLog: (message) => console.log(message) })])
+  const x402Client = createX402Client({
+    transport: gatewayTransport,
+    signer: withSpendingPolicy(schemeRegistry, spendingEngine, { requestApproval: (request, decision) => requestApproval(request, decision) }),
+    isSameNetwork: schemeRegistry.isSameNetwork,
+    orderStatusUrl: (orderId) => `${gateway.baseUrl}/order/${encodeURIComponent(orderId)}`
+  })
+
+  const markSession = (orderId: string, step: PaymentSessionStep) => {
+    if (orderId) sessionStore.update(orderId, { step })
+  }
+
+  const replyInChat = (text: string, extra: Partial<ChatMessage> = {}) => {
+    setChatList((prev) => [...prev, { text, inversion: false, error: false, ...extra }])
+  }
+
+  // 用结果替换最后一条“正在...”的占位消息
+  const replaceLastMessage = (message: ChatMessage) => {
+    setChatList((prev) => [...prev.slice(0, -1), message])
+  }
+
+  // 策略要求人工批准时，把“正在发起转账...”替换成批准提示，等用户点击或回复后继续
+  const requestApproval = (request: X402TransferRequest, decision: PolicyDecision): Promise<boolean> =>
+    new Promise((resolve) => {
+      approvalRef.current?.(false)
+      approvalRef.current = resolve
+      setApprovalPending(true)
+      const symbol = getTokenSymbol(request.accept)
+      const spent = spendingEngine.spent(request.accept, request.decimals)
+      replaceLastMessage({
+        text: [
+          decision.reason,
+          '',
+          `金额：${request.amount} ${symbol}`,
+          `收款地址：${request.accept.payTo}`,
+          `资源：${request.accept.resource || '(未声明)'}`,
+          `今日已花费：${spent.daily} ${symbol}，本月已花费：${spent.monthly} ${symbol}`
+        ].join('\n'),
+        inversion: false,
+        error: false,
+        options: [
+          { label: '批准支付', value: 'policy_approve' },
+          { label: '拒绝', value: 'policy_reject' }
+        ]
+      })
+    })
+
+  const handleApproval = (approved: boolean) => {
+    const resolve = approvalRef.current
+    if (!resolve) return
+    approvalRef.current = null
+    setApprovalPending(false)
+    setChatList((prev) => [
+      ...prev,
+      { text: approved ? '批准支付' : '拒绝', inversion: true, error: false },
+      { text: approved ? '正在发起转账...' : '已拒绝这笔支付。', inversion: false, error: false }
+    ])
+    resolve(approved)
+  }
+
+  const acceptLabel = (accept: PaymentAccept): string =>
+    schemeRegistry.resolve(accept)?.label(accept) || `${accept.network} · ${accept.symbol || accept.asset}`
+
+  // 第一步：点击推广按钮，或文本输入了支付意图（此时用户消息已显示，resourceId 可由用户指定）
+  const handleStartPromotion = async ({ intent }: { intent?: PayIntent } = {}) => {
+    // 生成随机8个字母作为 resourceid
+    const generateRandomLetters = (length: number): string => {
+      const letters = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'
+      let result = ''
+      for (let i = 0; i < length; i++) {
+        result += letters.charAt(Math.floor(Math.random() * letters.length))
+      }
+      return result
+    }
+
+    const nextResourceId = intent?.resourceId || generateRandomLetters(8)
+    // 处理中的订单不会被新订单覆盖，重复点击在这里被拦下
+    if (!machine.send({ type: 'START', resourceid: nextResourceId })) return
 
-  // 第一步：点击推广按钮
-  const handleStartPromotion = async () => {
     try {
-      // 添加用户消息
-      setChatList((prev) => [
-        ...prev,
-        {
-          text: '我需要帮我的推文进行推广',
-          inversion: true,
-          error: false
-        }
-      ])
+      pendingIntentRef.current = intent || null
+      if (!intent) {
+        // 添加用户消息
+        setChatList((prev) => [
+          ...prev,
+          {
+            text: '我需要帮我的推文进行推广',
+            inversion: true,
+            error: false
+          }
+        ])
+      }
 
       // 添加 pending 消息
       setChatList((prev) => [
@@ -151,31 +360,11 @@ export default function Page() {
         }
       ])
 
-      setStep('pending_payment_info')
-      setPaymentOptions([])
-      setSelectedPaymentOption(null)
-      setSelectedToken('')
-      setSelectedNetwork('Solana Devnet')
-      setSelectedAmount('')
-      setActualTransferAmount('')
-      setTxHash('')
-
-      // 生成随机8个字母作为 resourceid
-      const generateRandomLetters = (length: number): string => {
-        const letters = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'
-        let result = ''
-        for (let i = 0; i < length; i++) {
-          result += letters.charAt(Math.floor(Math.random() * letters.length))
-        }
-        return result
-      }
-      
-      const randomResourceId = generateRandomLetters(8)
-      setResourceid(randomResourceId)
-      console.log('生成的 resourceid:', randomResourceId)
+      setSchemeBalances(null)
+      console.log('生成的 resourceid:', nextResourceId)
 
       // 第二步：调用 resourcePayment 接口
-      await fetchPaymentInfo(randomResourceId)
+      await fetchPaymentInfo(nextResourceId)
     } catch (error) {
       console.error('Error starting promotion:', error)
       setChatList((prev) => [
@@ -186,48 +375,21 @@ export default function Page() {
           error: true
         }
       ])
-      setStep('failed')
+      machine.send({ type: 'FAILED', error: getErrorMessage(error) })
     }
   }
 
   // 第二步：获取支付信息
   const fetchPaymentInfo = async (resourceid: string) => {
+    // 取消或重新开始后，旧请求的结果直接丢弃
+    const signal = machine.signal()
     try {
-      const res = await resourcePayment({ resourceid })
-
-      if (res.code === 402) {
-        // 处理 402 状态码，表示需要支付
-        const data: PaymentResponse = res.data
-        const solanaOptions = (data.accepts || []).filter((accept) =>
-          (accept.network || '').toLowerCase().includes('sol')
-        )
-        if (solanaOptions.length > 0) {
-          setPaymentOptions(solanaOptions)
-          setOrderId(data.orderId)
+      const result = await x402Client.request(GATEWAY_ORDER_URL, orderRequestInit(resourceid))
+      if (signal.aborted) return
 
-          const optionButtons = solanaOptions.map((accept, index) => ({
-            label: `${accept.network || 'Network'} · ${accept.symbol || accept.asset}`,
-            value: `${index}`
-          }))
-
-          setChatList((prev) => {
-            const newList = [...prev]
-            newList[newList.length - 1] = {
-              text: `已获取支付信息。\n\n请选择支付网络与代币：`,
-              inversion: false,
-              error: false,
-              options: optionButtons
-            }
-            return newList
-          })
-
-          setStep('select_network')
-        } else {
-          throw new Error('No payment accepts found')
-        }
-      } else if (res.code === 200) {
+      if (result.status === 'completed') {
         // 支付成功
-        setStep('success')
+        machine.send({ type: 'ALREADY_PAID' })
         setChatList((prev) => [
           ...prev,
           {
@@ -236,80 +398,109 @@ export default function Page() {
             error: false
           }
         ])
+        return
       }
-    } catch (error: any) {
-      console.error('Failed to fetch payment info:', error)
-      if (error?.response?.status === 402) {
-        // 处理 402 响应
-        const data = error?.response?.data
-        const solanaOptions = (data?.accepts || []).filter((accept: PaymentAccept) =>
-          (accept.network || '').toLowerCase().includes('sol')
-        )
-        if (solanaOptions.length > 0) {
-          setPaymentOptions(solanaOptions)
-          setOrderId(data.orderId)
 
-          const optionButtons = solanaOptions.map((accept: PaymentAccept, index: number) => ({
-            label: `${accept.network || 'Network'} · ${accept.symbol || accept.asset}`,
-            value: `${index}`
-          }))
+      // 402：需要支付，只保留有已注册 handler 的选项
+      const supportedOptions = x402Client.supportedAccepts(result.challenge)
+      if (!supportedOptions.length) {
+        throw new Error('No payment accepts found')
+      }
 
-          setChatList((prev) => {
-            const newList = [...prev]
-            newList[newList.length - 1] = {
-              text: `已获取支付信息。\n\n请选择支付网络与代币：`,
-              inversion: false,
-              error: false,
-              options: optionButtons
-            }
-            return newList
-          })
+      sessionStore.save({
+        orderId: result.challenge.orderId,
+        resourceid,
+        step: 'select_network',
+        accept: null,
+        amount: '',
+        amountInSmallestUnit: '',
+        decimals: 0,
+        txHash: ''
+      })
 
-          setStep('select_network')
-        } else {
-          throw error
+      const optionButtons = supportedOptions.map((accept, index) => ({
+        label: acceptLabel(accept),
+        value: `${index}`,
+        expiresAt: getAcceptExpiresAt(accept, result.challenge.receivedAt)
+      }))
+
+      setChatList((prev) => {
+        const newList = [...prev]
+        newList[newList.length - 1] = {
+          text: `已获取支付信息。\n\n请选择支付网络与代币：`,
+          inversion: false,
+          error: false,
+          options: optionButtons
         }
-      } else {
-        setChatList((prev) => {
-          const newList = [...prev]
-          if (newList.length > 0) {
-            newList[newList.length - 1] = {
-              text: '获取支付信息失败，请重试。',
-              inversion: false,
-              error: true
-            }
-          } else {
-            newList.push({
-              text: '获取支付信息失败，请重试。',
-              inversion: false,
-              error: true
-            })
+        return newList
+      })
+
+      machine.send({ type: 'CHALLENGE_RECEIVED', challenge: result.challenge, accepts: supportedOptions })
+    } catch (error) {
+      if (signal.aborted) return
+      console.error('Failed to fetch payment info:', error)
+      // 网关响应未通过 schema 校验时把具体字段展示出来
+      const text = `获取支付信息失败，请重试。${getErrorMessage(error) ? `\n\n${getErrorMessage(error)}` : ''}`
+      setChatList((prev) => {
+        const newList = [...prev]
+        if (newList.length > 0) {
+          newList[newList.length - 1] = {
+            text,
+            inversion: false,
+            error: true
           }
-          return newList
-        })
-        setStep('failed')
-      }
+        } else {
+          newList.push({
+            text,
+            inversion: false,
+            error: true
+          })
+        }
+        return newList
+      })
+      machine.send({ type: 'FAILED', error: text })
     }
   }
 
-  const handleSelectNetwork = (optionIndex: string) => {
-    if (!paymentOptions.length) return
+  const handleSelectNetwork = async (optionIndex: string) => {
+    const { step, context } = machine.getState()
+    if (step !== 'select_network' && step !== 'select_amount' && step !== 'confirm_transfer') return
 
     const parsedIndex = Number(optionIndex)
-    if (Number.isNaN(parsedIndex) || !paymentOptions[parsedIndex]) return
+    if (Number.isNaN(parsedIndex) || !context.accepts[parsedIndex]) return
 
-    const option = paymentOptions[parsedIndex]
-    const tokenSymbol = (option.symbol || option.asset || 'USDC').toUpperCase()
+    const option = context.accepts[parsedIndex]
+    const tokenSymbol = getTokenSymbol(option)
 
-    setSelectedPaymentOption(option)
-    setSelectedNetwork(option.network || 'Solana Devnet')
-    setSelectedToken('USDC')
+    if (context.challenge && isAcceptExpired(option, context.challenge.receivedAt)) {
+      refreshPaymentChallenge()
+      return
+    }
 
-    const amountOptions = [
-      { label: `0.1 ${tokenSymbol}`, value: '0.1' },
-      { label: `0.2 ${tokenSymbol}`, value: '0.2' },
-      { label: `0.3 ${tokenSymbol}`, value: '0.3' }
-    ]
+    // 以链上资产精度为准，同时校验 accept 声明的代币与资产地址一致
+    let decimals: number
+    try {
+      decimals = await schemeRegistry.getDecimals(option)
+    } catch (error) {
+      setChatList((prev) => [
+        ...prev,
+        { text: `无法使用该支付选项：${getErrorMessage(error)}`, inversion: false, error: true }
+      ])
+      return
+    }
+
+    // 读取精度期间流程可能已被取消或推进，此时忽略这次选择
+    if (!machine.send({ type: 'NETWORK_SELECTED', accept: option, decimals })) return
+    fetchSchemeBalances(option)
+    if (context.challenge) {
+      sessionStore.update(context.challenge.orderId, { step: 'select_amount', accept: option, decimals })
+    }
+
+    // exact：直接按网关报价支付；upto 或未报价：由用户输入不超过上限的金额
+    const quotedAmount = getQuotedAmount(option, decimals)
+    const maxAmount = getMaxAmountRequired(option)
+    const expiresAt = context.challenge ? getAcceptExpiresAt(option, context.challenge.receivedAt) : null
+    setCustomAmount('')
 
     setChatList((prev) => [
       ...prev,
@@ -318,54 +509,216 @@ export default function Page() {
         inversion: true,
         error: false
       },
+      quotedAmount
+        ? {
+            text: `该订单需支付 ${quotedAmount} ${tokenSymbol}，请确认：`,
+            inversion: false,
+            error: false,
+            options: [{ label: `支付 ${quotedAmount} ${tokenSymbol}`, value: quotedAmount, expiresAt }]
+          }
+        : {
+            text:
+              isUptoScheme(option) && maxAmount !== null
+                ? `请输入支付金额（最多 ${formatSmallestUnit(maxAmount, decimals)} ${tokenSymbol}）：`
+                : '请输入支付金额：',
+            inversion: false,
+            error: false,
+            amountInput: {
+              symbol: tokenSymbol,
+              max: maxAmount !== null ? formatSmallestUnit(maxAmount, decimals) : null
+            }
+          }
+    ])
+  }
+
+  // 报价过期：用同一个 resourceid 重新获取支付信息（新的 orderId / nonce / expires）
+  const refreshPaymentChallenge = async () => {
+    const { resourceid } = machine.getState().context
+    // 倒计时每秒检查一次过期，只有第一次会被状态机接受
+    if (!machine.send({ type: 'CHALLENGE_EXPIRED' })) return
+    setChatList((prev) => [
+      ...prev,
       {
-        text: '请选择支付金额：',
+        text: '支付报价已过期，正在重新获取支付信息...',
         inversion: false,
-        error: false,
-        options: amountOptions
+        error: false
       }
     ])
-
-    setStep('select_amount')
+    await fetchPaymentInfo(resourceid)
   }
 
-  // 第三步：选择支付金额
-  const handleSelectAmount = async (amount: string) => {
-    if (!selectedPaymentOption || !selectedToken) return
+  // 第三步：选择支付金额，估算费用后等待用户确认
+  const handleSelectAmount = async (requestedAmount: string) => {
+    const { step, context } = machine.getState()
+    const { challenge, accept, decimals } = context
+    if ((step !== 'select_amount' && step !== 'confirm_transfer') || !challenge || !accept) return
+    const tokenSymbol = getTokenSymbol(accept)
+
+    // 报价过期后拒绝签名，重新请求新的 402 挑战
+    if (isAcceptExpired(accept, challenge.receivedAt)) {
+      refreshPaymentChallenge()
+      return
+    }
+
+    // 金额先按 scheme 与资产精度校验，不合法时留在当前步骤
+    let amount: string
+    let amountInSmallestUnit: bigint
+    try {
+      ;({ amount, amountInSmallestUnit } = resolvePaymentAmount(accept, decimals, requestedAmount))
+    } catch (error) {
+      setChatList((prev) => [...prev, { text: getErrorMessage(error), inversion: false, error: true }])
+      return
+    }
 
     console.log('用户选择金额:', amount)
-    setSelectedAmount(amount)
-    setActualTransferAmount(amount) // 保存实际转账金额
-    
+    const expiresAt = getAcceptExpiresAt(accept, challenge.receivedAt)
+
+    // Solana 浏览器钱包未连接时无法估算费用：可以连接钱包，或改用手机钱包扫码支付
+    // EVM 网络在转账时由注入钱包弹窗授权
+    if (isSolanaNetwork(accept.network) && !publicKey) {
+      if (!machine.send({ type: 'AMOUNT_SELECTED', amount, amountInSmallestUnit: amountInSmallestUnit.toString(), estimate: null })) return
+      setChatList((prev) => [
+        ...prev,
+        { text: `${amount} ${tokenSymbol}`, inversion: true, error: false },
+        {
+          text: '尚未连接 Solana 钱包。可以连接浏览器钱包（Phantom、Solflare、Backpack 等）后支付，或用手机钱包扫码支付：',
+          inversion: false,
+          error: false,
+          options: [
+            { label: '连接钱包', value: 'connect', expiresAt: null },
+            { label: '手机钱包扫码', value: 'solana_pay', expiresAt },
+            { label: '取消', value: 'cancel', expiresAt: null }
+          ]
+        }
+      ])
+      return
+    }
     setChatList((prev) => [
       ...prev,
-      {
-        text: `${amount} ${selectedToken}`,
-        inversion: true,
-        error: false
-      },
-      {
-        text: '正在发起转账...',
+      { text: `${amount} ${tokenSymbol}`, inversion: true, error: false },
+      { text: '正在估算网络费用...', inversion: false, error: false }
+    ])
+
+    // 模拟交易得到真实的网络费、优先费与租金押金；失败或 SOL 不足时留在选择金额步骤
+    let estimate: TransferFeeEstimate | null
+    try {
+      estimate = await schemeRegistry.estimateFee({
+        accept,
+        orderId: challenge.orderId,
+        amount,
+        amountInSmallestUnit,
+        decimals
+      })
+    } catch (error) {
+      replaceLastMessage({ text: `无法发起转账：${getErrorMessage(error) || '费用估算失败'}`, inversion: false, error: true })
+      return
+    }
+    if (estimate && !estimate.sufficient) {
+      replaceLastMessage({
+        text: `${estimate.nativeSymbol} 余额不足以支付本次交易费用：需要 ${estimate.total} ${estimate.nativeSymbol}，当前 ${estimate.nativeBalance} ${estimate.nativeSymbol}。请充值后重新选择金额。`,
         inversion: false,
-        error: false
+        error: true
+      })
+      return
+    }
+
+    // 估算期间流程可能已被取消或报价已过期
+    if (!machine.send({ type: 'AMOUNT_SELECTED', amount, amountInSmallestUnit: amountInSmallestUnit.toString(), estimate })) return
+
+    const lines = [`支付金额：${amount} ${tokenSymbol}`]
+    if (estimate) {
+      lines.push(`网络费：${estimate.networkFee} ${estimate.nativeSymbol}`, `优先费：${estimate.priorityFee} ${estimate.nativeSymbol}`)
+      if (Number(estimate.rentDeposit) > 0) {
+        lines.push(`收款账户租金押金：${estimate.rentDeposit} ${estimate.nativeSymbol}（首次向该地址转账时创建账户）`)
+      }
+      if (estimate.tokenFee) {
+        lines.push(`代币转账手续费：${estimate.tokenFee} ${tokenSymbol}`)
+      }
+      lines.push(`${estimate.nativeSymbol} 合计：${estimate.total}（余额 ${estimate.nativeBalance}）`)
+    } else {
+      lines.push('网络费由钱包在签名时估算')
+    }
+    replaceLastMessage({
+      text: `${lines.join('\n')}\n\n确认后将唤起钱包签名：`,
+      inversion: false,
+      error: false,
+      options: [
+        { label: '确认支付', value: 'confirm', expiresAt },
+        ...(isSolanaNetwork(accept.network) ? [{ label: '手机钱包扫码', value: 'solana_pay', expiresAt }] : []),
+        { label: '取消', value: 'cancel', expiresAt: null }
+      ]
+    })
+  }
+
+  // 第四步：用户确认后转账，金额取自确认时的 context
+  const handleConfirmTransfer = async () => {
+    const { step, context } = machine.getState()
+    const { challenge, accept, decimals, resourceid, amount, amountInSmallestUnit } = context
+    if (step !== 'confirm_transfer' || !challenge || !accept) return
+
+    if (isAcceptExpired(accept, challenge.receivedAt)) {
+      refreshPaymentChallenge()
+      return
+    }
+
+    // 选择金额时还没有连接钱包：先连接，连接后重新估算费用再确认
+    if (isSolanaNetwork(accept.network) && !context.estimate) {
+      if (!publicKey) {
+        replyInChat('请先连接 Solana 钱包，连接后回复“确认”查看费用明细。', { error: true })
+        setWalletModalVisible(true)
+        return
       }
+      await handleSelectAmount(amount)
+      return
+    }
+
+    // 进入 pending_transfer 之后再次点击会被状态机拒绝，同一订单不会发出两笔转账
+    if (!machine.send({ type: 'TRANSFER_STARTED' })) return
+
+    setChatList((prev) => [
+      ...prev,
+      { text: '确认支付', inversion: true, error: false },
+      { text: '正在发起转账...', inversion: false, error: false }
     ])
 
-    setStep('pending_transfer')
+    // 同一订单已有成功或仍在处理中的链上交易时不再转账，改为重试确认
+    const previousSession = sessionStore.get(challenge.orderId)
+    const previousTransfer = previousSession ? sessionToTransfer(previousSession) : null
+    if (previousTransfer) {
+      const txStatus = await schemeRegistry
+        .getTransactionStatus(previousTransfer.txHash, previousTransfer.accept)
+        .catch((): ChainTransactionStatus => 'pending')
+      if (txStatus === 'confirmed' || txStatus === 'pending') {
+        const text = `该订单已有链上交易，不会重复转账。\n\n交易哈希：${previousTransfer.txHash}\n\n请点击「重试确认支付」完成确认。`
+        machine.send({ type: 'FAILED', error: text, retryTransfer: previousTransfer })
+        setChatList((prev) => [...prev, { text, inversion: false, error: true }])
+        return
+      }
+    }
+
+    // 先记录再唤起钱包签名，签名过程中刷新页面也能找回订单
+    sessionStore.update(challenge.orderId, {
+      step: 'pending_transfer',
+      accept,
+      amount,
+      amountInSmallestUnit,
+      decimals
+    })
 
     try {
-      // 第四步：自动发起转账
-      console.log('准备转账金额:', amount, 'to', selectedPaymentOption.payTo)
-      const decimals = resolveDecimals(selectedPaymentOption.decimals, SOLANA_DECIMALS)
-      const hash = await sendSolanaTransfer(selectedPaymentOption.payTo, amount, decimals)
+      console.log('准备转账金额:', amount, 'to', accept.payTo)
+      const transfer = await x402Client.transfer(challenge, accept, amount)
+      console.log('转账完成，交易哈希:', transfer.txHash, '转账金额:', amount)
 
-      setTxHash(hash)
-      console.log('转账完成，交易哈希:', hash, '转账金额:', amount)
+      setTimeout(() => {
+        fetchWalletInfo()
+        fetchSchemeBalances(accept)
+      }, 2000)
 
       setChatList((prev) => {
         const newList = [...prev]
         newList[newList.length - 1] = {
-          text: `转账已发送！\n\n交易哈希：${hash}\n\n等待交易确认...`,
+          text: `${transfer.transaction ? '交易已签名，将由网关提交上链' : '转账已发送'}！\n\n交易哈希：${transfer.txHash}\n\n等待交易确认...`,
           inversion: false,
           error: false
         }
@@ -373,10 +726,11 @@ export default function Page() {
       })
 
       // 第五步：等待交易确认
-      setStep('pending_confirm')
+      machine.send({ type: 'TRANSFER_SENT', transfer })
+      sessionStore.update(transfer.orderId, { step: 'pending_confirm', txHash: transfer.txHash, transaction: transfer.transaction })
 
       // 第六步：确认支付
-      await confirmPayment(hash, selectedPaymentOption, decimals)
+      await confirmPayment(transfer, resourceid)
     } catch (error) {
       const message = getErrorMessage(error)
       console.error('Transfer failed:', error)
@@ -389,129 +743,113 @@ export default function Page() {
         }
         return newList
       })
-      setStep('failed')
+      markSession(challenge.orderId, 'failed')
+      machine.send({ type: 'FAILED', error: message || '转账失败' })
     }
   }
 
-  const sendSolanaTransfer = async (toAddress: string, amount: string, decimals: number): Promise<string> => {
-    try {
-      const connection = new Connection(SOLANA_RPC_URL, 'confirmed')
-      const payer = getSolanaKeypair()
-      const payerAddress = payer.publicKey.toBase58()
-      const recipient = new PublicKey(toAddress)
-      const mint = new PublicKey(SOLANA_USDC_MINT)
-
-      console.log('Solana payer address:', payerAddress)
-      console.log('Solana recipient address:', recipient.toBase58())
-
-      const fromTokenAccount = await getAssociatedTokenAddress(mint, payer.publicKey)
-      let toTokenAccount: PublicKey = recipient
-
-      const instructions: TransactionInstruction[] = []
-
-      const fromInfo = await connection.getAccountInfo(fromTokenAccount)
-      if (!fromInfo) {
-        throw new Error('发送方缺少 USDC 关联账户，请先创建并充值 USDC')
-      }
+  // 第四步（手机钱包）：展示 Solana Pay 二维码，在链上按订单引用等待付款，再走同一个确认流程
+  const handleSolanaPay = async () => {
+    const { step, context } = machine.getState()
+    const { challenge, accept, decimals, resourceid, amount, amountInSmallestUnit } = context
+    if (step !== 'confirm_transfer' || !challenge || !accept || !isSolanaNetwork(accept.network)) return
 
-      const directAccountInfo = await connection.getAccountInfo(recipient)
-      if (directAccountInfo && directAccountInfo.owner.equals(TOKEN_PROGRAM_ID)) {
-        toTokenAccount = recipient
-
-        const parsedInfo = await connection.getParsedAccountInfo(toTokenAccount)
-        const parsedData = parsedInfo.value?.data as ParsedAccountData | undefined
-        const accountMint = parsedData?.parsed?.info?.mint
-        if (accountMint && accountMint !== SOLANA_USDC_MINT) {
-          throw new Error('收款 Token 账户的 Mint 与 USDC 不匹配')
-        }
-      } else {
-        toTokenAccount = await getAssociatedTokenAddress(mint, recipient, true)
-        const ataInfo = await connection.getAccountInfo(toTokenAccount)
-
-        if (!ataInfo) {
-          instructions.push(
-            createAssociatedTokenAccountInstruction(payer.publicKey, toTokenAccount, recipient, mint)
-          )
-        } else if (!ataInfo.owner.equals(TOKEN_PROGRAM_ID)) {
-          throw new Error('关联 Token 账户的 Owner 非 SPL Token Program')
-        } else {
-          const parsedAtaInfo = await connection.getParsedAccountInfo(toTokenAccount)
-          const parsedAtaData = parsedAtaInfo.value?.data as ParsedAccountData | undefined
-          const ataMint = parsedAtaData?.parsed?.info?.mint
-          if (ataMint && ataMint !== SOLANA_USDC_MINT) {
-            throw new Error('关联 Token 账户的 Mint 与 USDC 不匹配')
-          }
-        }
-      }
+    if (isAcceptExpired(accept, challenge.receivedAt)) {
+      refreshPaymentChallenge()
+      return
+    }
 
-      const amountInSmallestUnit = amountToSmallestUnit(amount, decimals)
+    const tokenSymbol = getTokenSymbol(accept)
+    let request: SolanaPayRequest
+    let url: string
+    try {
+      request = await createSolanaPayRequest(connection, {
+        accept,
+        orderId: challenge.orderId,
+        amount,
+        label: 'AI Pay',
+        message: `订单 ${challenge.orderId}`
+      })
+      url = createSolanaPayUrl(request).toString()
+    } catch (error) {
+      replyInChat(`无法生成扫码支付链接：${getErrorMessage(error)}`, { error: true })
+      return
+    }
 
-      const payerUsdcBalance = await connection.getTokenAccountBalance(fromTokenAccount)
-      const payerUsdcLamports = BigInt(payerUsdcBalance.value?.amount || '0')
-      if (payerUsdcLamports < amountInSmallestUnit) {
-        throw new Error(
-          `USDC 余额不足：当前 ${payerUsdcBalance.value?.uiAmountString || '0'}，需要 ${amount}`
-        )
+    // 等待扫码期间与浏览器钱包转账一样占用本订单，不会再发起第二笔转账
+    if (!machine.send({ type: 'TRANSFER_STARTED' })) return
+    const signal = machine.signal()
+    sessionStore.update(challenge.orderId, {
+      step: 'pending_transfer',
+      accept,
+      amount,
+      amountInSmallestUnit,
+      decimals
+    })
+    setChatList((prev) => [
+      ...prev,
+      { text: '手机钱包扫码', inversion: true, error: false },
+      {
+        text: `请用支持 Solana Pay 的手机钱包扫码支付 ${request.transferAmount ?? amount} ${tokenSymbol}${
+          request.transferAmount && request.transferAmount !== amount ? `（含 Token-2022 转账手续费，实收 ${amount}）` : ''
+        }，或在手机上点击链接打开钱包。\n\n正在等待链上付款...`,
+        inversion: false,
+        error: false,
+        solanaPayUrl: url
       }
+    ])
 
-      const lamports = await connection.getBalance(payer.publicKey)
-      const minLamports = BigInt(10_000_000) // 0.01 SOL
-      if (BigInt(lamports) < minLamports) {
-        throw new Error('SOL 余额不足，请在 Devnet 领取一些 SOL 以支付手续费')
+    try {
+      const txHash = await waitForSolanaPayTransfer(connection, request, {
+        signal,
+        deadline: getAcceptExpiresAt(accept, challenge.receivedAt) ?? Date.now() + SOLANA_PAY_WAIT_MS,
+        onError: (error) => console.warn('Solana Pay reference lookup failed:', getErrorMessage(error))
+      })
+      const transfer: X402Transfer = {
+        accept,
+        orderId: challenge.orderId,
+        amount,
+        amountInSmallestUnit: BigInt(amountInSmallestUnit),
+        decimals,
+        txHash
       }
+      replyInChat(`已收到扫码支付！\n\n交易哈希：${txHash}`)
 
-      instructions.push(
-        createTransferInstruction(
-          fromTokenAccount,
-          toTokenAccount,
-          payer.publicKey,
-          amountInSmallestUnit,
-          [],
-          TOKEN_PROGRAM_ID
-        )
-      )
-
-      const transaction = new Transaction().add(...instructions)
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
-      transaction.recentBlockhash = blockhash
-      transaction.lastValidBlockHeight = lastValidBlockHeight
-      transaction.feePayer = payer.publicKey
-
-      const signature = await connection.sendTransaction(transaction, [payer], { skipPreflight: false })
-      console.log('Solana transaction sent:', signature)
-
-      await connection.confirmTransaction(
-        {
-          signature,
-          blockhash,
-          lastValidBlockHeight
-        },
-        'confirmed'
-      )
-
-      console.log('Solana transaction confirmed:', signature)
-
-      setTimeout(() => {
-        fetchWalletInfo()
-      }, 2000)
-
-      return signature
+      machine.send({ type: 'TRANSFER_SENT', transfer })
+      sessionStore.update(transfer.orderId, { step: 'pending_confirm', txHash })
+      await confirmPayment(transfer, resourceid)
     } catch (error) {
+      // 新订单或取消已中止本轮流程，不再提示
+      if (signal.aborted) return
       const message = getErrorMessage(error)
-      console.error('Solana transfer error:', error)
-      throw new Error(message || 'Solana 转账失败')
+      console.error('Solana Pay failed:', error)
+      markSession(challenge.orderId, 'failed')
+      machine.send({ type: 'FAILED', error: message || '扫码支付失败' })
+      replyInChat(`扫码支付失败：${message || '未知错误'}`, { error: true })
     }
   }
 
-  // 第六步：确认支付
-  const confirmPayment = async (txHash: string, paymentOption?: PaymentAccept | null, decimalsOverride?: number) => {
-    if (!resourceid || !orderId) {
-      throw new Error('缺少必要参数')
+  // 确认步骤里的按钮
+  const handleConfirmOption = (value: string) => {
+    switch (value) {
+      case 'confirm':
+        return handleConfirmTransfer()
+      case 'solana_pay':
+        return handleSolanaPay()
+      case 'connect':
+        return setWalletModalVisible(true)
+      case 'cancel':
+        return handleCancel()
+      default:
+        return handleSelectAmount(value)
     }
+  }
 
-    const option = paymentOption ?? selectedPaymentOption
-    if (!option) {
-      throw new Error('缺少支付配置')
+  // 第六步：确认支付
+  // transfer 与 resourceid 由调用方传入，来自状态机当时的 context，而不是渲染时的闭包
+  const confirmPayment = async (transfer: X402Transfer, resourceid: string) => {
+    if (!resourceid || !transfer.orderId) {
+      throw new Error('缺少必要参数')
     }
 
     try {
@@ -525,47 +863,27 @@ export default function Page() {
         return newList
       })
 
-      // 构建 X-PAYMENT header
-      // 优先使用实际转账金额，如果没有则使用 selectedAmount
-      const amountToUse = actualTransferAmount || selectedAmount
-      console.log('构建 X-PAYMENT，使用的金额:', amountToUse)
-      console.log('selectedAmount:', selectedAmount)
-      console.log('actualTransferAmount:', actualTransferAmount)
-      
-      const decimalsToUse = decimalsOverride ?? resolveDecimals(option.decimals, 6)
-      let amountInSmallestUnit = '0'
-      amountInSmallestUnit = amountToSmallestUnit(amountToUse, decimalsToUse).toString()
-      
-      console.log('计算的 amountInSmallestUnit:', amountInSmallestUnit)
-      
-      const xPaymentData = {
-        x402Version: 1,
-        scheme: option.scheme || 'exact',
-        network: option.network || selectedNetwork || 'Solana',
-        orderId: orderId,
-        payload: { amount: amountInSmallestUnit, txHash: txHash }
-      }
-      const xPaymentHeader = btoa(JSON.stringify(xPaymentData))
-      console.log('X-PAYMENT data:', xPaymentData)
-      console.log('X-PAYMENT payload amount:', xPaymentData.payload.amount)
-
-      // 调用确认接口
-      const res = await resourcePaymentConfirm({ resourceid }, xPaymentHeader)
-      
-      // 打印完整响应以便调试
-      console.log('Payment confirm response:', res)
-      console.log('Response code:', res.code)
-      console.log('Response data:', res.data)
-      console.log('Response status:', res.status)
-      console.log('Response message:', res.message)
-
-      // 检查响应状态
-      // 如果 code 是 200，或者 HTTP 状态是 200 且没有 code 字段（可能是直接返回数据）
-      const responseCode = res.code || res.status || (res.data?.code)
-      const responseMessage = res.message || res.data?.message || ''
-      
+      // 调用确认接口，X-PAYMENT 由客户端按实际转账金额构建；网络异常、5xx 时按指数退避自动重试
+      const result = await retryConfirm(() => x402Client.confirm(GATEWAY_ORDER_URL, orderRequestInit(resourceid), transfer), {
+        signal: machine.signal(),
+        onRetry: (attempt, reason, delayMs) => {
+          console.warn(`Payment confirm attempt ${attempt} failed, retrying in ${delayMs}ms:`, reason)
+          setChatList((prev) => {
+            const newList = [...prev]
+            newList[newList.length - 1] = {
+              text: `确认请求失败：${reason || '网络异常'}\n\n${Math.ceil(delayMs / 1000)} 秒后进行第 ${attempt} 次重试...`,
+              inversion: false,
+              error: false
+            }
+            return newList
+          })
+        }
+      })
+      console.log('X-PAYMENT data:', result.payment)
+      console.log('Payment confirm response:', result.response)
+
       // 如果响应中有 message 且是 "Waiting for Payment"，说明还在等待支付确认
-      if (responseMessage === 'Waiting for Payment' || responseMessage.includes('Waiting')) {
+      if (result.status === 'waiting') {
         setChatList((prev) => {
           const newList = [...prev]
           newList[newList.length - 1] = {
@@ -575,37 +893,44 @@ export default function Page() {
           }
           return newList
         })
-        
-        // 等待几秒后再次检查订单状态（可选：可以添加轮询逻辑）
-        setTimeout(async () => {
-          try {
-            // 可以在这里添加轮询逻辑来检查订单状态
-            // 或者直接标记为成功，因为交易已经提交
-            setStep('success')
-            setChatList((prev) => {
-              const newList = [...prev]
-              newList.push({
-                text: '支付已成功提交！推广流程已完成。',
-                inversion: false,
-                error: false
-              })
-              return newList
-            })
-            toast.success('支付提交成功！')
-          } catch (error) {
-            console.error('Status check error:', error)
+
+        await waitForSettlement(transfer, result.settlement)
+        return
+      }
+
+      // X-PAYMENT-RESPONSE 显示结算失败或与本地提交的交易不一致
+      if (result.status === 'settlement_rejected') {
+        const text = `结算校验失败：${result.message}\n\n本地交易哈希：${transfer.txHash}\n订单号：${transfer.orderId}`
+        setChatList((prev) => {
+          const newList = [...prev]
+          newList[newList.length - 1] = {
+            text,
+            inversion: false,
+            error: true
           }
-        }, 2000)
+          return newList
+        })
+        markSession(transfer.orderId, 'failed')
+        machine.send({ type: 'FAILED', error: text, retryTransfer: transfer })
         return
       }
 
-      // 如果 code 是 200，或者响应成功
-      if (responseCode === 200 || (!responseCode && !responseMessage)) {
-        setStep('success')
+      if (result.status === 'confirmed') {
+        // 确认响应不带到账金额，读取一次订单状态以区分全额、超额与部分支付；查询失败时按确认成功处理
+        replaceLastMessage({ text: '支付已确认，正在核对到账金额...', inversion: false, error: false })
+        const status = await x402Client.getOrderStatus(transfer.orderId).catch((error) => {
+          console.warn('Failed to read order status after confirmation:', getErrorMessage(error))
+          return null
+        })
+        if (status && isOrderSettled(status)) {
+          reportSettledOrder(transfer, result.settlement, status)
+          return
+        }
+        const record = recordCompletedOrder(transfer, result.settlement, null)
         setChatList((prev) => {
           const newList = [...prev]
           newList[newList.length - 1] = {
-            text: '支付确认成功！推广流程已完成。',
+            text: `支付确认成功！推广流程已完成。${describeSettlement(record)}`,
             inversion: false,
             error: false
           }
@@ -614,8 +939,7 @@ export default function Page() {
         toast.success('支付成功！')
       } else {
         // 如果响应中有其他状态，显示具体错误信息
-        const errorMsg = responseMessage || `支付确认失败 (code: ${responseCode})`
-        throw new Error(errorMsg)
+        throw new Error(result.message)
       }
     } catch (error: any) {
       console.error('Confirm payment error:', error)
@@ -628,11 +952,550 @@ export default function Page() {
         }
         return newList
       })
-      setStep('failed')
+      markSession(transfer.orderId, 'failed')
+      machine.send({ type: 'FAILED', error: error.message || '支付确认失败', retryTransfer: transfer })
+    }
+  }
+
+  // 重试确认：复用原有的 orderId 与 txHash 重新提交 X-PAYMENT
+  const handleRetryConfirm = async () => {
+    const { transfer, resourceid } = machine.getState().context
+    if (!transfer || !machine.send({ type: 'CONFIRM_RETRY' })) return
+    setChatList((prev) => [...prev, { text: '重试确认支付', inversion: true, error: false }])
+    markSession(transfer.orderId, 'pending_confirm')
+    await confirmPayment(transfer, resourceid)
+  }
+
+  // 部分到账后补款：对同一订单转出差额，再用新的交易提交一次 X-PAYMENT
+  const handleTopUp = async () => {
+    const { step, context } = machine.getState()
+    const { transfer: previous, shortfall, resourceid } = context
+    if (step !== 'partially_paid' || !previous || !shortfall) return
+    // 进入 pending_transfer 之后再次点击会被状态机拒绝，不会补款两次
+    if (!machine.send({ type: 'TOP_UP_STARTED' })) return
+
+    const symbol = getTokenSymbol(previous.accept)
+    setChatList((prev) => [
+      ...prev,
+      { text: '补足差额', inversion: true, error: false },
+      { text: `正在补款 ${formatSmallestUnit(shortfall, previous.decimals)} ${symbol}...`, inversion: false, error: false }
+    ])
+
+    try {
+      const transfer = await x402Client.topUp(previous, BigInt(shortfall))
+      console.log('补款完成，交易哈希:', transfer.txHash, '补款金额:', transfer.amount)
+
+      setTimeout(() => {
+        fetchWalletInfo()
+        fetchSchemeBalances(transfer.accept)
+      }, 2000)
+
+      replaceLastMessage({
+        text: `${transfer.transaction ? '补款交易已签名，将由网关提交上链' : '补款已发送'}！\n\n交易哈希：${transfer.txHash}\n\n等待交易确认...`,
+        inversion: false,
+        error: false
+      })
+      machine.send({ type: 'TRANSFER_SENT', transfer })
+      // 会话记录最新一笔转账，刷新页面后按它重新提交 X-PAYMENT；此前的转账保留在 payments 中，恢复后收据仍包含全部交易
+      sessionStore.update(transfer.orderId, {
+        step: 'pending_confirm',
+        txHash: transfer.txHash,
+        transaction: transfer.transaction,
+        amount: transfer.amount,
+        amountInSmallestUnit: transfer.amountInSmallestUnit.toString(),
+        payments: [...machine.getState().context.previousTransfers, transfer].map(toSessionTransfer)
+      })
+      await confirmPayment(transfer, resourceid)
+    } catch (error) {
+      const message = getErrorMessage(error)
+      console.error('Top-up failed:', error)
+      const text = `补款失败：${message || '未知错误'}\n\n可以重试确认原订单，重新查询差额后再补款。`
+      replaceLastMessage({ text, inversion: false, error: true })
+      // 第一笔转账仍然有效，重试确认会重新走到部分支付并再次提供补款
+      machine.send({ type: 'FAILED', error: text, retryTransfer: previous })
+    }
+  }
+
+  // 记录完成的订单并结束流程
+  const recordCompletedOrder = (
+    transfer: X402Transfer,
+    settlement: SettlementResponse | null,
+    orderStatus: OrderStatus | null
+  ): PaymentRecord => {
+    const record = recordFromTransfer(transfer, settlement, orderStatus, machine.getState().context.previousTransfers)
+    markSession(transfer.orderId, 'success')
+    machine.send({ type: 'SETTLED', record })
+    console.log('Completed order:', record)
+    return record
+  }
+
+  // 轮询 GET /order/{orderId}，以网关返回的真实到账结果结束流程
+  const waitForSettlement = async (transfer: X402Transfer, settlement: SettlementResponse | null) => {
+    const signal = machine.signal()
+
+    let result
+    try {
+      result = await pollOrderStatus(() => x402Client.getOrderStatus(transfer.orderId), {
+        signal,
+        onError: (error) => console.error('Order status poll error:', error)
+      })
+    } catch (error) {
+      if (signal.aborted) return
       throw error
     }
+
+    const { status, timedOut } = result
+    if (timedOut || !status) {
+      throw new Error(
+        `等待确认超时，最新状态：${status ? PAY_STATUS_TEXT[status.payStatus] || status.payStatus : '未知'}\n\n交易哈希：${transfer.txHash}`
+      )
+    }
+    reportSettledOrder(transfer, settlement, status)
+  }
+
+  // 按订单的最终到账结果结束流程：部分支付时提供补款，超额支付时列出多付金额（收据里记为待跟进），订单关闭时抛错
+  const reportSettledOrder = (transfer: X402Transfer, settlement: SettlementResponse | null, status: OrderStatus) => {
+    const detail = describeOrderStatus(status, transfer)
+    const balance = getOrderBalance(machine.getState().context, status)
+    const symbol = getTokenSymbol(transfer.accept)
+    if (status.payStatus === 'Fully Paid' || status.payStatus === 'Over Paid') {
+      const overPaid = status.payStatus === 'Over Paid'
+      const record = recordCompletedOrder(transfer, settlement, status)
+      const surplus =
+        overPaid && balance?.surplus
+          ? `\n\n多付金额：${formatSmallestUnit(balance.surplus, transfer.decimals)} ${symbol}，已记入支付记录，待退款或抵扣。`
+          : ''
+      setChatList((prev) => [
+        ...prev,
+        {
+          text: `${overPaid ? '支付已确认，但实际到账金额超过订单金额。' : '支付确认成功！推广流程已完成。'}${surplus}\n\n${detail}${describeSettlement(record)}`,
+          inversion: false,
+          error: false
+        }
+      ])
+      toast.success(overPaid ? '支付成功（超额支付）' : '支付成功！')
+      return
+    }
+
+    if (status.payStatus === 'Partially Paid') {
+      // 算不出差额（paidAmount 不是整数等）时无法补款，按失败处理
+      if (!balance?.shortfall || !machine.send({ type: 'PARTIALLY_PAID', status, shortfall: balance.shortfall.toString() })) {
+        throw new Error(`订单仅部分支付，到账金额不足。\n\n${detail}`)
+      }
+      const shortfall = formatSmallestUnit(balance.shortfall, transfer.decimals)
+      replyInChat(
+        `订单仅部分到账：应付 ${formatSmallestUnit(balance.required, transfer.decimals)} ${symbol}，已到账 ${formatSmallestUnit(balance.paid, transfer.decimals)} ${symbol}，还差 ${shortfall} ${symbol}。\n\n${detail}\n\n可以向同一订单补足差额，补款后会再次提交支付确认：`,
+        {
+          options: [
+            { label: `补足 ${shortfall} ${symbol}`, value: 'top_up', expiresAt: null },
+            { label: '取消', value: 'cancel', expiresAt: null }
+          ]
+        }
+      )
+      toast.error('订单仅部分到账')
+      return
+    }
+    throw new Error(`${status.message || `订单状态：${status.orderStatus}`}\n\n${detail}`)
+  }
+
+  // 页面重载后恢复未完成的支付：先查订单是否已到账，再查链上交易决定是否继续确认
+  const recoverPaymentSession = async (session: PaymentSession) => {
+    let transfer = sessionToTransfer(session)
+    const symbol = session.accept?.symbol || ''
+    const previousTransfers = sessionPreviousTransfers(session)
+    if (!machine.send({ type: 'RESUME', resourceid: session.resourceid, orderId: session.orderId, transfer, previousTransfers })) return
+    setChatList((prev) => [
+      ...prev,
+      {
+        text: `检测到未完成的支付，正在恢复...\n\n订单号：${session.orderId}${session.amount ? `\n金额：${session.amount} ${symbol}` : ''}${
+          session.txHash ? `\n交易哈希：${session.txHash}` : ''
+        }`,
+        inversion: false,
+        error: false
+      }
+    ])
+
+    let txStatus: ChainTransactionStatus | null = null
+    try {
+      const status = await x402Client.getOrderStatus(session.orderId)
+
+      if (!transfer) {
+        // 钱包签名过程中页面被关闭，没有记录到交易哈希，只能以网关到账结果为准
+        if (status.payStatus === 'Fully Paid' || status.payStatus === 'Over Paid') {
+          markSession(session.orderId, 'success')
+          machine.send({ type: 'SETTLED', record: null })
+          setChatList((prev) => [
+            ...prev,
+            {
+              text: `订单已到账，支付完成。\n\n订单号：${status.orderId}\n支付状态：${PAY_STATUS_TEXT[status.payStatus] || status.payStatus}`,
+              inversion: false,
+              error: false
+            }
+          ])
+          return
+        }
+        // 交易里带有订单引用，可以只凭订单号在链上找回哈希
+        const txHash = session.accept ? await schemeRegistry.findTransfer(session.accept, session.orderId) : null
+        transfer = txHash ? sessionToTransfer({ ...session, txHash }) : null
+        if (!transfer) {
+          throw new Error('转账过程中页面被关闭，未能记录交易哈希，链上也未找到该订单的转账。请在钱包中核对是否已转出，如已转出请提供订单号联系客服。')
+        }
+        sessionStore.update(session.orderId, { step: 'pending_confirm', txHash: transfer.txHash })
+        replyInChat(`已在链上找到该订单的转账。\n\n交易哈希：${transfer.txHash}`)
+      }
+
+      if (isOrderSettled(status)) {
+        reportSettledOrder(transfer, null, status)
+        return
+      }
+
+      txStatus = await schemeRegistry.getTransactionStatus(transfer.txHash, transfer.accept)
+      if (txStatus === 'failed') {
+        throw new Error(`链上交易执行失败：${transfer.txHash}`)
+      }
+      if (txStatus === 'not_found') {
+        if (!transfer.transaction) {
+          throw new Error(`链上未找到该交易，可能已过期未上链：${transfer.txHash}`)
+        }
+        // 签名后页面在网关提交前被关闭：随 X-PAYMENT 重新提交同一笔已签名交易，交易哈希不变，区块哈希过期时由网关返回失败
+        replyInChat(`链上尚未找到该交易，正在重新提交已签名的交易...\n\n交易哈希：${transfer.txHash}`)
+      }
+      await confirmPayment(transfer, session.resourceid)
+    } catch (error) {
+      console.error('Failed to recover payment session:', error)
+      markSession(session.orderId, 'failed')
+      const text = `恢复支付失败：${getErrorMessage(error) || '未知错误'}\n\n订单号：${session.orderId}`
+      // 查询失败（而非链上交易失败）时仍可重试确认；未上链但保存了已签名交易时，重试会再次提交它
+      const retryTransfer = transfer && txStatus !== 'failed' && (txStatus !== 'not_found' || transfer.transaction) ? transfer : undefined
+      machine.send({ type: 'FAILED', error: text, retryTransfer })
+      setChatList((prev) => [...prev, { text, inversion: false, error: true }])
+    }
+  }
+
+  // 按文本意图选择网络：唯一匹配时直接选中，否则列出候选追问
+  const applyNetworkIntent = (intent: PayIntent) => {
+    const { accepts, challenge } = machine.getState().context
+    const matches = matchAccepts(accepts, intent)
+    if (matches.length === 1) {
+      handleSelectNetwork(String(matches[0]))
+      return
+    }
+    // 没有指定网络时，获取支付信息的消息里已经列出了全部选项
+    if (!intent.network && !intent.token) return
+
+    const wanted = [intent.network, intent.token].filter(Boolean).join(' · ')
+    const candidates = matches.length ? matches : accepts.map((_, index) => index)
+    if (!matches.length) {
+      pendingIntentRef.current = { ...intent, network: null, token: null }
+    }
+    replyInChat(matches.length ? `有多个 ${wanted} 的支付选项，请选择：` : `没有 ${wanted} 的支付选项，请从以下选项中选择：`, {
+      error: !matches.length,
+      options: candidates.map((index) => ({
+        label: acceptLabel(accepts[index]),
+        value: `${index}`,
+        expiresAt: challenge ? getAcceptExpiresAt(accepts[index], challenge.receivedAt) : null
+      }))
+    })
+  }
+
+  const handlePayIntent = async (intent: PayIntent) => {
+    const { step, context } = machine.getState()
+    if (isPaymentBusy(machine.getState())) {
+      replyInChat('当前支付正在处理中，请稍候。')
+      return
+    }
+    if (step === 'failed' && context.canRetryConfirm) {
+      replyInChat('上一笔订单已有链上交易，请先回复“重试”完成确认，或回复“取消”放弃。', { error: true })
+      return
+    }
+    // 没有进行中的订单，或指定了另一个资源：重新创建订单，网络和金额在后续步骤中应用
+    if (step === 'start' || step === 'success' || step === 'failed' || (intent.resourceId && intent.resourceId !== context.resourceid)) {
+      await handleStartPromotion({ intent })
+      return
+    }
+
+    if (step === 'select_network') {
+      pendingIntentRef.current = intent
+      if (!intent.network && !intent.token) {
+        replyInChat('请问使用哪个网络与代币支付？可以点击上方选项，或输入例如“Solana USDC”。')
+        return
+      }
+      applyNetworkIntent(intent)
+      return
+    }
+
+    // select_amount / confirm_transfer：指定了与当前选择不同的网络或代币时重新选择
+    if ((intent.network || intent.token) && context.accept && !matchAccepts([context.accept], intent).length) {
+      pendingIntentRef.current = intent
+      applyNetworkIntent(intent)
+      return
+    }
+    if (intent.amount) {
+      await handleSelectAmount(intent.amount)
+      return
+    }
+    const tokenSymbol = context.accept ? getTokenSymbol(context.accept) : ''
+    const quotedAmount = context.accept ? getQuotedAmount(context.accept, context.decimals) : null
+    if (step === 'confirm_transfer') {
+      replyInChat(`本次支付 ${context.amount} ${tokenSymbol}，回复“确认”唤起钱包签名，或回复“取消”放弃。`)
+      return
+    }
+    replyInChat(
+      quotedAmount ? `该订单需支付 ${quotedAmount} ${tokenSymbol}，回复“确认”查看费用明细。` : `请问支付多少 ${tokenSymbol}？`
+    )
+  }
+
+  const handleConfirmIntent = async () => {
+    if (approvalRef.current) {
+      handleApproval(true)
+      return
+    }
+    const { step, context } = machine.getState()
+    if (step === 'confirm_transfer') {
+      await handleConfirmTransfer()
+      return
+    }
+    if (step === 'partially_paid') {
+      await handleTopUp()
+      return
+    }
+    if (step === 'select_amount' && context.accept) {
+      const quotedAmount = getQuotedAmount(context.accept, context.decimals)
+      if (quotedAmount) {
+        await handleSelectAmount(quotedAmount)
+      } else {
+        replyInChat(`请输入支付金额（${getTokenSymbol(context.accept)}）。`)
+      }
+      return
+    }
+    if (step === 'select_network' && context.accepts.length === 1) {
+      await handleSelectNetwork('0')
+      return
+    }
+    replyInChat(step === 'select_network' ? '请先选择支付网络与代币。' : '当前没有需要确认的操作。')
+  }
+
+  const replyBalance = async () => {
+    if (!publicKey) {
+      replyInChat('尚未连接钱包，请先连接 Solana 钱包后再查询余额。', { error: true })
+      setWalletModalVisible(true)
+      return
+    }
+    try {
+      const lines: string[] = []
+      const solana = await solanaScheme.getBalances()
+      if (solana) {
+        lines.push(
+          `Solana 地址：${shortenAddress(solana.address)}`,
+          `SOL：${Number(solana.native || 0).toFixed(3)}`,
+          `${solana.tokenSymbol}：${Number(solana.token || 0).toFixed(2)}`
+        )
+      }
+      // 选中了其他链的支付选项时一并查询该链余额
+      const { accept } = machine.getState().context
+      if (accept && !isSolanaNetwork(accept.network)) {
+        const other = await schemeRegistry.resolve(accept)?.getBalances(accept)
+        if (other) {
+          lines.push(
+            '',
+            `${accept.network} 地址：${shortenAddress(other.address)}`,
+            `${other.nativeSymbol}：${Number(other.native || 0).toFixed(3)}`,
+            `${other.tokenSymbol}：${Number(other.token || 0).toFixed(2)}`
+          )
+        }
+      }
+      replyInChat(lines.length ? lines.join('\n') : '未能读取钱包余额。', { error: !lines.length })
+    } catch (error) {
+      replyInChat(`查询余额失败：${getErrorMessage(error) || '未知错误'}`, { error: true })
+    }
   }
 
+  // 取消只在尚未转账时生效；已有链上交易时只能放弃重试确认
+  const handleCancel = () => {
+    pendingIntentRef.current = null
+    if (approvalRef.current) {
+      handleApproval(false)
+      return
+    }
+    const { step, context } = machine.getState()
+    if (step === 'pending_transfer' || step === 'pending_confirm') {
+      replyInChat('转账已发起，无法取消，请等待确认结果。', { error: true })
+      return
+    }
+    if (!machine.send({ type: 'CANCEL' })) {
+      replyInChat('当前没有进行中的支付。')
+      return
+    }
+
+    if (context.orderId && step !== 'failed') {
+      markSession(context.orderId, 'failed')
+    }
+    setSchemeBalances(null)
+    replyInChat(
+      step === 'partially_paid'
+        ? `已放弃补款。订单 ${context.orderId} 仍为部分支付，已到账的金额请凭订单号联系客服处理。`
+        : step === 'failed' && context.transfer
+          ? `已放弃重试确认。如链上已扣款，请凭订单号 ${context.transfer.orderId} 联系客服。`
+          : '已取消本次支付，没有发起任何转账。'
+    )
+  }
+
+  const handleIntent = async (intent: PaymentIntent) => {
+    switch (intent.type) {
+      case 'pay':
+        return handlePayIntent(intent)
+      case 'confirm':
+        return handleConfirmIntent()
+      case 'retry':
+        if (machine.getState().context.canRetryConfirm) return handleRetryConfirm()
+        return replyInChat('当前没有可以重试的支付确认。')
+      case 'balance':
+        return replyBalance()
+      case 'cancel':
+        return handleCancel()
+      case 'help':
+        return replyInChat(HELP_TEXT)
+      default:
+        return replyInChat(`抱歉，没有理解您的意思。\n\n${HELP_TEXT}`)
+    }
+  }
+
+  const handleSendText = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const text = inputText.trim()
+    if (!text) return
+    setInputText('')
+    setChatList((prev) => [...prev, { text, inversion: true, error: false }])
+    const { step, context } = machine.getState()
+    const intent = await intentParser.parse(text, {
+      step,
+      options: context.accepts.map((accept) => ({ network: accept.network, symbol: accept.symbol || accept.asset }))
+    })
+    console.log('解析的意图:', intent)
+    await handleIntent(intent)
+  }
+
+  // 文本意图里的网络、金额在对应步骤到来时应用，与点击按钮走同一个处理函数
+  useEffect(() => {
+    const pending = pendingIntentRef.current
+    if (!pending) return
+    if (step === 'select_network') {
+      applyNetworkIntent(pending)
+    } else if (step === 'select_amount' && selectedPaymentOption) {
+      pendingIntentRef.current = null
+      if (pending.amount) handleSelectAmount(pending.amount)
+    } else if (step === 'start' || step === 'success' || step === 'failed') {
+      pendingIntentRef.current = null
+    }
+  }, [step, selectedPaymentOption])
+
+  // 读取 GET /order/{orderId}，把 paidAmount、手续费等写进收据
+  const refreshReceiptStatus = async (orderId: string) => {
+    setRefreshingOrderId(orderId)
+    try {
+      const status = await x402Client.getOrderStatus(orderId)
+      const receipt = receiptStore.get(orderId)
+      if (receipt) {
+        receiptStore.save(applyOrderStatus(receipt, status))
+        setReceipts(receiptStore.list())
+      }
+    } catch (error) {
+      console.error('Failed to refresh order status:', error)
+      toast.error(`查询订单状态失败：${getErrorMessage(error) || '未知错误'}`)
+    } finally {
+      setRefreshingOrderId(null)
+    }
+  }
+
+  // 流程结束时写入收据：成功的订单，以及已有链上交易但失败的订单
+  useEffect(() => {
+    setReceipts(receiptStore.list())
+    return machine.subscribe(({ step, context }) => {
+      if (step === 'success' && context.completed) {
+        const { completed } = context
+        // 超额支付记为 over_paid 并写入多付金额，便于在支付记录里筛选出来跟进退款
+        const overPaid = completed.orderStatus?.payStatus === 'Over Paid'
+        const balance = overPaid && completed.orderStatus ? getOrderBalance(context, completed.orderStatus) : null
+        receiptStore.save(
+          createReceipt(completed, {
+            status: overPaid ? 'over_paid' : 'success',
+            decimals: context.transfer?.decimals ?? context.decimals,
+            surplus: balance ? balance.surplus.toString() : null
+          })
+        )
+        setReceipts(receiptStore.list())
+        // 直接确认成功时还没有读取过订单状态
+        if (!completed.orderStatus) refreshReceiptStatus(completed.orderId)
+      } else if (step === 'partially_paid' && context.transfer) {
+        // 先按部分支付记下，补款完成后被成功的收据覆盖
+        const { transfer } = context
+        receiptStore.save(
+          createReceipt(recordFromTransfer(transfer, null, context.orderStatus, context.previousTransfers), {
+            status: 'partially_paid',
+            decimals: transfer.decimals,
+            shortfall: context.shortfall
+          })
+        )
+        setReceipts(receiptStore.list())
+      } else if (step === 'failed' && context.transfer) {
+        const { transfer } = context
+        receiptStore.save(
+          createReceipt(recordFromTransfer(transfer, null, null, context.previousTransfers), {
+            status: 'failed',
+            decimals: transfer.decimals,
+            error: context.error
+          })
+        )
+        setReceipts(receiptStore.list())
+      }
+    })
+  }, [])
+
+  // 挂载时恢复上次未完成的支付（开发模式下 effect 会执行两次，用 ref 保证只恢复一次）
+  useEffect(() => {
+    if (recoveryStartedRef.current) return
+    recoveryStartedRef.current = true
+    const unfinished = sessionStore.listUnfinished()
+    if (!unfinished.length) return
+    ;(async () => {
+      for (const session of unfinished) {
+        await recoverPaymentSession(session)
+      }
+    })()
+  }, [])
+
+  // 选择网络 / 金额、等待确认期间每秒刷新倒计时
+  useEffect(() => {
+    if (step !== 'select_network' && step !== 'select_amount' && step !== 'confirm_transfer') return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [step])
+
+  // 当前可选的报价全部过期时自动重新获取
+  useEffect(() => {
+    const { challenge, accepts, accept } = context
+    if (!challenge) return
+    const expired =
+      step === 'select_network'
+        ? isChallengeExpired({ ...challenge, accepts }, now)
+        : (step === 'select_amount' || step === 'confirm_transfer') && accept
+          ? isAcceptExpired(accept, challenge.receivedAt, now)
+          : false
+    if (expired) {
+      refreshPaymentChallenge()
+    }
+  }, [now])
+
+  // 组件卸载时停止轮询
+  useEffect(() => {
+    return () => {
+      machine.abort()
+      approvalRef.current?.(false)
+      approvalRef.current = null
+    }
+  }, [])
+
   // 滚动到底部
   const scrollToBottom = () => {
     requestAnimationFrame(() => {
@@ -655,29 +1518,10 @@ export default function Page() {
 
   const fetchSolanaWalletInfo = async () => {
     try {
-      const connection = new Connection(SOLANA_RPC_URL, 'confirmed')
-      const keypair = getSolanaKeypair()
-      const address = keypair.publicKey.toBase58()
-      setSolWalletAddress(address)
-
-      const lamports = await connection.getBalance(keypair.publicKey)
-      setSolBalance((lamports / LAMPORTS_PER_SOL).toString())
-
-      try {
-        const mint = new PublicKey(SOLANA_USDC_MINT)
-        const tokenAccount = await getAssociatedTokenAddress(mint, keypair.publicKey)
-        const tokenInfo = await connection.getAccountInfo(tokenAccount)
-
-        if (!tokenInfo) {
-          setUsdcBalance('0')
-        } else {
-          const balance = await connection.getTokenAccountBalance(tokenAccount)
-          setUsdcBalance(balance.value.uiAmountString || '0')
-        }
-      } catch (error) {
-        console.error('Failed to fetch USDC balance on Solana:', error)
-        setUsdcBalance('0')
-      }
+      const balances = await solanaScheme.getBalances()
+      setSolWalletAddress(balances?.address || '')
+      setSolBalance(balances?.native || '0')
+      setUsdcBalance(balances?.token || '0')
     } catch (error) {
       console.error('Failed to fetch Solana wallet info:', error)
       setSolWalletAddress('')
@@ -686,6 +1530,19 @@ export default function Page() {
     }
   }
 
+  const fetchSchemeBalances = async (accept: PaymentAccept) => {
+    if (isSolanaNetwork(accept.network)) {
+      setSchemeBalances(null)
+      return
+    }
+    try {
+      setSchemeBalances((await schemeRegistry.resolve(accept)?.getBalances(accept)) ?? null)
+    } catch (error) {
+      console.error(`Failed to fetch balances on ${accept.network}:`, error)
+      setSchemeBalances(null)
+    }
+  }
+
   // 获取钱包信息
   const fetchWalletInfo = async () => {
     setIsLoadingBalance(true)
@@ -696,17 +1553,47 @@ export default function Page() {
     }
   }
 
-  // 组件加载时获取钱包信息
+  const handleDisconnectWallet = async () => {
+    try {
+      await disconnect()
+    } catch (error) {
+      console.error('Failed to disconnect wallet:', error)
+    }
+  }
+
+  // 钱包连接、断开、切换账户时在对话中提示
+  useEffect(() => {
+    const address = publicKey?.toBase58() || ''
+    const previousAddress = connectedAddressRef.current
+    connectedAddressRef.current = address
+    if (address === previousAddress) return
+
+    let text = ''
+    if (address && !previousAddress) {
+      text = `钱包已连接：${shortenAddress(address)}`
+    } else if (address && previousAddress) {
+      text = `钱包账户已切换：${shortenAddress(previousAddress)} → ${shortenAddress(address)}`
+    } else {
+      text = '钱包已断开连接。'
+    }
+    setChatList((prev) => [...prev, { text, inversion: false, error: !address }])
+  }, [publicKey])
+
+  // 钱包变化时获取钱包信息
   useEffect(() => {
     fetchWalletInfo()
-    
+    if (!publicKey) return
+
     // 每30秒刷新一次余额
     const interval = setInterval(() => {
       fetchWalletInfo()
     }, 30000)
 
     return () => clearInterval(interval)
-  }, [])
+  }, [publicKey, connection])
+
+  // 只有最近一条金额输入消息可以提交
+  const activeAmountInputIndex = chatList.map((item) => Boolean(item.amountInput)).lastIndexOf(true)
 
   return (
     <div className="my-[20px] md:my-[40px] mx-[12px] md:mx-20 h-auto md:h-[60%]">
@@ -718,7 +1605,9 @@ export default function Page() {
         <div className="absolute top-2 right-2 md:top-4 md:right-4 z-10 bg-[#23241c]/95 backdrop-blur-sm border border-white/10 rounded-lg p-2 md:p-3 space-y-1.5 md:space-y-2 min-w-[140px] md:min-w-[200px] max-w-[160px] md:max-w-none">
           <div className="text-[10px] md:text-xs text-white/70 mb-1 md:mb-2 font-medium">钱包信息</div>
           
-          {isLoadingBalance ? (
+          {!publicKey ? (
+            <WalletMultiButton className="!h-8 !px-3 !text-[10px] md:!text-xs">连接钱包</WalletMultiButton>
+          ) : isLoadingBalance ? (
             <div className="text-[10px] md:text-xs text-white/50">加载中...</div>
           ) : (
             <>
@@ -731,7 +1620,7 @@ export default function Page() {
                       className="text-[9px] md:text-xs text-white font-mono max-w-[70px] md:max-w-[120px] truncate"
                       title={solWalletAddress}
                     >
-                      {solWalletAddress ? `${solWalletAddress.slice(0, 4)}...${solWalletAddress.slice(-3)}` : '-'}
+                      {solWalletAddress ? shortenAddress(solWalletAddress) : '-'}
                     </span>
                   </div>
                   <div className="flex items-center justify-between gap-1">
@@ -748,19 +1637,92 @@ export default function Page() {
                   </div>
                 </div>
               </div>
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={fetchWalletInfo}
+                  className="mt-1 md:mt-2 text-[9px] md:text-xs text-white/50 hover:text-white/80 transition-colors"
+                >
+                  刷新余额
+                </button>
+                <button
+                  onClick={handleDisconnectWallet}
+                  className="mt-1 md:mt-2 text-[9px] md:text-xs text-white/50 hover:text-white/80 transition-colors"
+                >
+                  断开
+                </button>
+              </div>
+            </>
+          )}
+          {context.completed && (
+            <div className="border-t border-white/10 pt-2 md:pt-3 space-y-1 md:space-y-1.5">
+              <div className="text-[9px] md:text-[11px] text-white/60 uppercase tracking-wide">最近订单</div>
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-[10px] md:text-xs text-white/70">订单:</span>
+                <span className="text-[9px] md:text-xs text-white font-mono max-w-[70px] md:max-w-[120px] truncate" title={context.completed.orderId}>
+                  {context.completed.orderId}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-[10px] md:text-xs text-white/70">结算:</span>
+                <span
+                  className="text-[10px] md:text-xs text-[#E1FF01] font-medium"
+                  title={context.completed.settlement ? `${context.completed.settlement.networkId} ${context.completed.settlement.txHash}` : ''}
+                >
+                  {context.completed.settlement ? '已校验' : '无结算头'}
+                </span>
+              </div>
+            </div>
+          )}
+          {schemeBalances && (
+            <div className="border-t border-white/10 pt-2 md:pt-3 space-y-1 md:space-y-1.5">
+              <div className="text-[9px] md:text-[11px] text-white/60 uppercase tracking-wide">{selectedPaymentOption?.network}</div>
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-[10px] md:text-xs text-white/70">地址:</span>
+                <span
+                  className="text-[9px] md:text-xs text-white font-mono max-w-[70px] md:max-w-[120px] truncate"
+                  title={schemeBalances.address}
+                >
+                  {shortenAddress(schemeBalances.address)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-[10px] md:text-xs text-white/70">{schemeBalances.nativeSymbol}:</span>
+                <span className="text-[10px] md:text-xs text-[#E1FF01] font-medium">
+                  {Number(schemeBalances.native || 0).toFixed(3)} {schemeBalances.nativeSymbol}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-[10px] md:text-xs text-white/70">{schemeBalances.tokenSymbol}:</span>
+                <span className="text-[10px] md:text-xs text-[#E1FF01] font-medium">
+                  {Number(schemeBalances.token || 0).toFixed(2)} {schemeBalances.tokenSymbol}
+                </span>
+              </div>
+            </div>
+          )}
+          <div className="border-t border-white/10 pt-2 md:pt-3">
+            {historyOpen ? (
+              <div className="w-[220px] md:w-[320px]">
+                <PaymentHistoryPanel
+                  receipts={receipts}
+                  refreshingOrderId={refreshingOrderId}
+                  onRefreshStatus={refreshReceiptStatus}
+                  onClose={() => setHistoryOpen(false)}
+                />
+              </div>
+            ) : (
               <button
-                onClick={fetchWalletInfo}
-                className="mt-1 md:mt-2 text-[9px] md:text-xs text-white/50 hover:text-white/80 transition-colors"
+                onClick={() => setHistoryOpen(true)}
+                className="text-[9px] md:text-xs text-white/50 hover:text-white/80 transition-colors"
               >
-                刷新余额
+                支付记录（{receipts.length}）
               </button>
-            </>
-          )}
+            )}
+          </div>
         </div>
         <div
           ref={chatContainerRef}
           className="py-3 md:py-4 px-[12px] md:px-[40px] space-y-3 md:space-y-4 overflow-y-auto"
-          style={{ minHeight: '300px', height: 'calc(100% - 100px)' }}
+          style={{ minHeight: '300px', height: 'calc(100% - 150px)' }}
         >
           {chatList.map((item, index) => (
             <div key={index} className={`flex ${item.inversion ? 'justify-end' : 'justify-start'}`}>
@@ -791,26 +1753,79 @@ export default function Page() {
                       ) : (
                         <div>
                           <div className="whitespace-pre-wrap text-sm md:text-base">{item.text}</div>
+                          {item.solanaPayUrl && (
+                            <div className="mt-2 md:mt-3 flex flex-col gap-2">
+                              <SolanaPayQr url={item.solanaPayUrl} />
+                              <a href={item.solanaPayUrl} className="text-xs md:text-sm text-[#E1FF01] underline break-all">
+                                在手机钱包中打开
+                              </a>
+                            </div>
+                          )}
                           {item.options && item.options.length > 0 && (
                             <div className="mt-2 md:mt-3 flex flex-wrap gap-2">
-                              {item.options.map((option, optIndex) => (
-                                <Button
-                                  key={optIndex}
-                                  variant="ai"
-                                  size="sm"
-                                  onClick={() =>
-                                    step === 'select_network'
-                                      ? handleSelectNetwork(option.value)
-                                      : handleSelectAmount(option.value)
-                                  }
-                                  disabled={!['select_network', 'select_amount'].includes(step)}
-                                  className="text-[11px] md:text-xs px-3 md:px-4 py-1.5 md:py-2"
-                                >
-                                  {option.label}
-                                </Button>
-                              ))}
+                              {item.options.map((option, optIndex) => {
+                                const remainingMs = option.expiresAt ? option.expiresAt - now : Infinity
+                                const expired = remainingMs <= 0
+                                const isApprovalOption = option.value.startsWith('policy_')
+                                return (
+                                  <Button
+                                    key={optIndex}
+                                    variant="ai"
+                                    size="sm"
+                                    onClick={() =>
+                                      isApprovalOption
+                                        ? handleApproval(option.value === 'policy_approve')
+                                        : step === 'select_network'
+                                          ? handleSelectNetwork(option.value)
+                                          : step === 'confirm_transfer'
+                                            ? handleConfirmOption(option.value)
+                                            : step === 'partially_paid'
+                                              ? option.value === 'top_up'
+                                                ? handleTopUp()
+                                                : handleCancel()
+                                              : handleSelectAmount(option.value)
+                                    }
+                                    disabled={
+                                      isApprovalOption
+                                        ? !approvalPending
+                                        : expired || !['select_network', 'select_amount', 'confirm_transfer', 'partially_paid'].includes(step)
+                                    }
+                                    className="text-[11px] md:text-xs px-3 md:px-4 py-1.5 md:py-2"
+                                  >
+                                    {option.label}
+                                    {option.expiresAt ? (expired ? ' · 已过期' : ` · ${formatCountdown(remainingMs)}`) : ''}
+                                  </Button>
+                                )
+                              })}
                             </div>
                           )}
+                          {item.amountInput && (step === 'select_amount' || step === 'confirm_transfer') && index === activeAmountInputIndex && (
+                            <form
+                              className="mt-2 md:mt-3 flex flex-wrap items-center gap-2"
+                              onSubmit={(event) => {
+                                event.preventDefault()
+                                handleSelectAmount(customAmount)
+                              }}
+                            >
+                              <input
+                                value={customAmount}
+                                onChange={(event) => setCustomAmount(event.target.value)}
+                                inputMode="decimal"
+                                placeholder={item.amountInput.max ? `≤ ${item.amountInput.max}` : '0.00'}
+                                className="w-[120px] rounded-md bg-[#23241c] border border-white/20 px-2 py-1 text-sm text-white outline-none focus:border-[#E1FF01]"
+                              />
+                              <span className="text-xs text-white/70">{item.amountInput.symbol}</span>
+                              <Button
+                                type="submit"
+                                variant="ai"
+                                size="sm"
+                                disabled={!customAmount}
+                                className="text-[11px] md:text-xs px-3 md:px-4 py-1.5 md:py-2"
+                              >
+                                支付
+                              </Button>
+                            </form>
+                          )}
                         </div>
                       )}
                     </div>
@@ -820,12 +1835,33 @@ export default function Page() {
             </div>
           ))}
         </div>
-        <div className="absolute bottom-[12px] md:bottom-[20px] left-1/2 transform -translate-x-1/2 px-[12px] md:px-[40px] w-full max-w-[400px] md:max-w-none md:w-[400px] flex justify-center">
+        <div className="absolute bottom-[12px] md:bottom-[20px] left-1/2 transform -translate-x-1/2 px-[12px] md:px-[40px] w-full max-w-[400px] md:max-w-none md:w-[480px] flex flex-col items-center gap-2">
           {step === 'start' && (
-            <Button variant="ai" size="main" onClick={handleStartPromotion} className="w-full text-sm md:text-base px-4 md:px-6 py-2 md:py-3">
+            <Button variant="ai" size="main" onClick={() => handleStartPromotion()} className="w-full text-sm md:text-base px-4 md:px-6 py-2 md:py-3">
               我需要帮我的推文进行推广
             </Button>
           )}
+          {step === 'partially_paid' && (
+            <Button variant="ai" size="main" onClick={handleTopUp} className="w-full text-sm md:text-base px-4 md:px-6 py-2 md:py-3">
+              补足差额
+            </Button>
+          )}
+          {step === 'failed' && context.canRetryConfirm && (
+            <Button variant="ai" size="main" onClick={handleRetryConfirm} className="w-full text-sm md:text-base px-4 md:px-6 py-2 md:py-3">
+              重试确认支付
+            </Button>
+          )}
+          <form className="w-full flex items-center gap-2" onSubmit={handleSendText}>
+            <input
+              value={inputText}
+              onChange={(event) => setInputText(event.target.value)}
+              placeholder="输入指令，例如：pay 0.2 USDC on Solana for resource abc"
+              className="flex-1 min-w-0 rounded-md bg-[#23241c] border border-white/20 px-3 py-2 text-sm text-white outline-none focus:border-[#E1FF01]"
+            />
+            <Button type="submit" variant="ai" size="sm" disabled={!inputText.trim()} className="text-[11px] md:text-xs px-3 md:px-4 py-2">
+              发送
+            </Button>
+          </form>
         </div>
       </div>
     </div>
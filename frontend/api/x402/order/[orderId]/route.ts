@@ -0,0 +1,9 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { isValidOrderId, proxyGatewayCall } from '../../proxy'
+
+export const GET = async (request: NextRequest, { params }: { params: { orderId: string } }) => {
+  if (!isValidOrderId(params.orderId)) {
+    return NextResponse.json({ message: '订单号格式不正确', orderId: params.orderId }, { status: 404 })
+  }
+  return proxyGatewayCall(request, (gateway) => gateway.getOrder(params.orderId))
+}
@@ -0,0 +1,9 @@
+import type { NextRequest } from 'next/server'
+import { proxyGatewayCall, readDescription } from '../proxy'
+
+// 带 X-PAYMENT 为确认支付，否则创建订单并返回 402 支付要求
+export const POST = async (request: NextRequest) => {
+  const xPayment = request.headers.get('X-PAYMENT')
+  const body = { description: await readDescription(request) }
+  return proxyGatewayCall(request, (gateway) => (xPayment ? gateway.confirmOrder(xPayment, body) : gateway.createOrder(body)))
+}
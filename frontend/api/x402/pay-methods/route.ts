@@ -0,0 +1,6 @@
+import type { NextRequest } from 'next/server'
+import { proxyGatewayCall } from '../proxy'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = async (request: NextRequest) => proxyGatewayCall(request, (gateway) => gateway.getPayMethods())
@@ -0,0 +1,202 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto'
+import { NextResponse, type NextRequest } from 'next/server'
+import {
+  GatewayValidationError,
+  createGatewayClient,
+  type GatewayClient,
+  type GatewayResult
+} from '../../lib/x402/gateway'
+
+// 浏览器只访问 /api/x402/*，Merchant-App-Key 与网关地址只存在于服务端环境变量
+//   X402_GATEWAY_URL=https://<gateway>/openapi/crypto/x402
+//   X402_MERCHANT_APP_KEY=...
+//   X402_PROXY_RATE_LIMIT=60   每个会话每分钟的请求数（未带会话 cookie 的请求按客户端 IP 计）
+//   X402_SESSION_SECRET=...    会话 cookie 的签名密钥，多实例部署时各实例必须一致
+
+const SESSION_COOKIE = 'x402_session'
+const RATE_WINDOW_MS = 60 * 1000
+const MAX_DESCRIPTION_LENGTH = 200
+
+let gateway: GatewayClient | null = null
+
+const getGateway = (): GatewayClient => {
+  if (gateway) return gateway
+  const baseUrl = process.env.X402_GATEWAY_URL
+  const merchantAppKey = process.env.X402_MERCHANT_APP_KEY
+  if (!baseUrl || !merchantAppKey) {
+    throw new Error('X402_GATEWAY_URL 或 X402_MERCHANT_APP_KEY 未配置')
+  }
+  gateway = createGatewayClient({ baseUrl, merchantAppKey })
+  return gateway
+}
+
+// 按会话的固定窗口限流，单实例内存实现；key 为 session:<id> 或 ip:<address>
+const rateWindows = new Map<string, { count: number; resetAt: number }>()
+
+const consumeRateLimit = (key: string): number | null => {
+  const limit = Number(process.env.X402_PROXY_RATE_LIMIT) || 60
+  const now = Date.now()
+  if (rateWindows.size > 10000) {
+    rateWindows.forEach((window, key) => {
+      if (window.resetAt <= now) rateWindows.delete(key)
+    })
+  }
+  const window = rateWindows.get(key)
+  if (!window || window.resetAt <= now) {
+    rateWindows.set(key, { count: 1, resetAt: now + RATE_WINDOW_MS })
+    return null
+  }
+  if (window.count >= limit) {
+    return Math.ceil((window.resetAt - now) / 1000)
+  }
+  window.count += 1
+  return null
+}
+
+// 客户端可以自带 x-forwarded-for，只有反向代理追加的最后一个地址可信；平台提供 request.ip 时以它为准
+const clientAddress = (request: NextRequest): string =>
+  request.ip || request.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || request.headers.get('x-real-ip') || 'unknown'
+
+// 未配置密钥时每个进程随机生成一个，重启后已发出的 cookie 失效，相应请求回到按 IP 限流
+let sessionSecret: string | null = null
+
+const getSessionSecret = (): string => {
+  if (!sessionSecret) sessionSecret = process.env.X402_SESSION_SECRET || randomBytes(32).toString('hex')
+  return sessionSecret
+}
+
+const sessionSignature = (sessionId: string): string =>
+  createHmac('sha256', getSessionSecret()).update(sessionId).digest('base64url')
+
+// cookie 为 <sessionId>.<HMAC>，签名不符（客户端自行编造或篡改）时视为没有会话
+const verifySessionCookie = (value: string | undefined): string | null => {
+  const separator = value?.lastIndexOf('.') ?? -1
+  if (!value || separator <= 0) return null
+  const sessionId = value.slice(0, separator)
+  const expected = Buffer.from(sessionSignature(sessionId))
+  const actual = Buffer.from(value.slice(separator + 1))
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? sessionId : null
+}
+
+const pick = <T extends object>(source: T, keys: string[]): Partial<T> =>
+  Object.fromEntries(
+    keys.filter((key) => (source as Record<string, unknown>)[key] !== undefined).map((key) => [key, (source as Record<string, unknown>)[key]])
+  ) as Partial<T>
+
+const ACCEPT_FIELDS = [
+  'scheme',
+  'network',
+  'asset',
+  'symbol',
+  'decimals',
+  'payTo',
+  'resource',
+  'description',
+  'nonce',
+  'expires',
+  'maxAmountRequired'
+]
+const ACCEPT_EXTRA_FIELDS = ['signedTransaction']
+const ORDER_STATUS_FIELDS = ['orderId', 'orderStatus', 'message', 'payStatus', 'paidAmount', 'transactionFee', 'gasFee', 'txHash']
+
+// 只转发 OpenAPI 声明过的字段和结算 header，网关附带的其他字段、header 一律丢弃
+const sanitize = (result: GatewayResult): { status: number; body: unknown; headers: Record<string, string> } => {
+  switch (result.type) {
+    case 'PaymentRequired':
+      return {
+        status: 402,
+        headers: {},
+        body: {
+          x402Version: result.body.x402Version,
+          orderId: result.body.orderId,
+          accepts: result.body.accepts.map((accept) => ({
+            ...pick(accept, ACCEPT_FIELDS),
+            ...(accept.extra ? { extra: pick(accept.extra, ACCEPT_EXTRA_FIELDS) } : {})
+          }))
+        }
+      }
+    case 'Confirmed': {
+      const settlement = result.headers['x-payment-response']
+      return {
+        status: 200,
+        headers: settlement ? { 'X-PAYMENT-RESPONSE': settlement } : {},
+        body: pick(result.body, ['orderId', 'orderStatus', 'message'])
+      }
+    }
+    case 'Waiting': {
+      const retryAfter = result.headers['retry-after']
+      return {
+        status: 202,
+        headers: retryAfter ? { 'Retry-After': retryAfter } : {},
+        body: pick(result.body, ['orderId', 'orderStatus', 'message'])
+      }
+    }
+    case 'InvalidPayment':
+      return { status: 400, headers: {}, body: pick(result.body, ['error', 'message', 'orderId']) }
+    case 'OrderStatus':
+      return { status: 200, headers: {}, body: pick(result.body, ORDER_STATUS_FIELDS) }
+    case 'NotFound':
+      return { status: 404, headers: {}, body: pick(result.body, ['message', 'orderId']) }
+    case 'PayMethods':
+      return { status: 200, headers: {}, body: result.body.map((method) => pick(method, ['network', 'asset', 'symbol'])) }
+    case 'Unauthorized':
+      // 网关拒绝的是服务端的商户 key，不把 401 透传给浏览器
+      console.error('Gateway rejected Merchant-App-Key:', result.body.message)
+      return { status: 502, headers: {}, body: { error: 'gateway_unauthorized', message: '支付网关鉴权失败，请联系管理员' } }
+  }
+}
+
+const withSessionCookie = (response: NextResponse, sessionId: string, isNew: boolean): NextResponse => {
+  if (isNew) {
+    response.cookies.set(SESSION_COOKIE, `${sessionId}.${sessionSignature(sessionId)}`, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/x402'
+    })
+  }
+  return response
+}
+
+export const readDescription = async (request: NextRequest): Promise<string | undefined> => {
+  try {
+    const body = await request.json()
+    return typeof body?.description === 'string' ? body.description.slice(0, MAX_DESCRIPTION_LENGTH) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export const isValidOrderId = (orderId: string): boolean => /^[A-Za-z0-9_-]{1,64}$/.test(orderId)
+
+// 统一处理：会话 cookie、限流、附加商户 key、校验并裁剪网关响应
+export const proxyGatewayCall = async (
+  request: NextRequest,
+  call: (gateway: GatewayClient) => Promise<GatewayResult>
+): Promise<NextResponse> => {
+  const existing = verifySessionCookie(request.cookies.get(SESSION_COOKIE)?.value)
+  const sessionId = existing || randomUUID()
+
+  // 不带有效 cookie 的请求每次都会拿到新会话，按会话限流形同虚设，这类请求改按 IP 计数
+  const retryAfter = consumeRateLimit(existing ? `session:${existing}` : `ip:${clientAddress(request)}`)
+  if (retryAfter !== null) {
+    return withSessionCookie(
+      NextResponse.json(
+        { error: 'rate_limited', message: '请求过于频繁，请稍后再试' },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      ),
+      sessionId,
+      !existing
+    )
+  }
+
+  try {
+    const { status, body, headers } = sanitize(await call(getGateway()))
+    return withSessionCookie(NextResponse.json(body, { status, headers }), sessionId, !existing)
+  } catch (error) {
+    console.error('x402 gateway proxy error:', error)
+    // 校验错误只描述字段不一致，可以展示；其他错误可能包含内部地址，只返回通用信息
+    const message = error instanceof GatewayValidationError ? error.message : '支付网关暂时不可用，请稍后重试'
+    return withSessionCookie(NextResponse.json({ error: 'gateway_error', message }, { status: 502 }), sessionId, !existing)
+  }
+}
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { comparePaidAmount, getQuotedAmount, resolvePaymentAmount } from './amount'
+import { createTestAccept } from './testFixtures'
+import { amountToSmallestUnit, formatSmallestUnit } from './utils'
+
+const exact = createTestAccept({ maxAmountRequired: '2600000' })
+const upto = createTestAccept({ scheme: 'upto', maxAmountRequired: '5000000' })
+
+test('金额与最小单位互转不经过浮点数', () => {
+  assert.equal(amountToSmallestUnit('0.1', 18), BigInt('100000000000000000'))
+  assert.equal(amountToSmallestUnit('123456789.123456', 6), BigInt('123456789123456'))
+  assert.equal(amountToSmallestUnit('7', 0), BigInt(7))
+  assert.equal(formatSmallestUnit(BigInt('100000000000000000'), 18), '0.1')
+  assert.equal(formatSmallestUnit('2600000', 6), '2.6')
+  assert.equal(formatSmallestUnit(BigInt(5), 6), '0.000005')
+  assert.equal(formatSmallestUnit(BigInt(7), 0), '7')
+})
+
+test('超出精度的金额直接报错，不做四舍五入', () => {
+  assert.throws(() => amountToSmallestUnit('1.0000001', 6), /超出精度/)
+  assert.throws(() => amountToSmallestUnit('0.5', 0), /超出精度/)
+  assert.throws(() => resolvePaymentAmount(upto, 6, '0.0000005'), /超出精度/)
+})
+
+test('格式不正确的金额报错', () => {
+  for (const value of ['', '-1', '1e6', '1.', '.5', '1,5', 'abc']) {
+    assert.throws(() => amountToSmallestUnit(value, 6), /金额格式不正确/, value)
+  }
+})
+
+test('exact 按网关报价支付，不能修改金额', () => {
+  assert.equal(getQuotedAmount(exact, 6), '2.6')
+  assert.deepEqual(resolvePaymentAmount(exact, 6), { amount: '2.6', amountInSmallestUnit: BigInt(2_600_000) })
+  assert.deepEqual(resolvePaymentAmount(exact, 6, '2.600000'), { amount: '2.6', amountInSmallestUnit: BigInt(2_600_000) })
+  assert.throws(() => resolvePaymentAmount(exact, 6, '2.5'), /不能修改金额/)
+})
+
+test('upto 金额必须在 (0, maxAmountRequired] 内', () => {
+  assert.equal(getQuotedAmount(upto, 6), null)
+  assert.deepEqual(resolvePaymentAmount(upto, 6, '5'), { amount: '5', amountInSmallestUnit: BigInt(5_000_000) })
+  assert.deepEqual(resolvePaymentAmount(upto, 6, '0.000001'), { amount: '0.000001', amountInSmallestUnit: BigInt(1) })
+  assert.throws(() => resolvePaymentAmount(upto, 6), /请输入支付金额/)
+  assert.throws(() => resolvePaymentAmount(upto, 6, '0'), /必须大于 0/)
+  assert.throws(() => resolvePaymentAmount(upto, 6, '5.000001'), /不能超过 5 USDC/)
+})
+
+test('对比网关到账金额：exact 以报价为准，upto 以选定金额为准', () => {
+  assert.deepEqual(comparePaidAmount(exact, BigInt(1), { paidAmount: '1300000' }), {
+    required: BigInt(2_600_000),
+    paid: BigInt(1_300_000),
+    shortfall: BigInt(1_300_000),
+    surplus: BigInt(0)
+  })
+  assert.deepEqual(comparePaidAmount(upto, BigInt(3_000_000), { paidAmount: '3500000' }), {
+    required: BigInt(3_000_000),
+    paid: BigInt(3_500_000),
+    shortfall: BigInt(0),
+    surplus: BigInt(500_000)
+  })
+  assert.equal(comparePaidAmount(exact, BigInt(0), { paidAmount: '2.6' }), null)
+})
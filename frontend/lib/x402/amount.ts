@@ -0,0 +1,71 @@
+import type { OrderStatus, PaymentAccept } from './types'
+import { amountToSmallestUnit, formatSmallestUnit } from './utils'
+
+export interface ResolvedAmount {
+  amount: string
+  amountInSmallestUnit: bigint
+}
+
+// 订单应付金额与网关到账金额的比较，均为最小单位
+export interface PaidBalance {
+  required: bigint
+  paid: bigint
+  // 还差多少（部分支付时补款的金额）
+  shortfall: bigint
+  // 多付了多少
+  surplus: bigint
+}
+
+export const isUptoScheme = (accept: PaymentAccept): boolean => (accept.scheme || '').toLowerCase() === 'upto'
+
+export const getMaxAmountRequired = (accept: PaymentAccept): bigint | null => {
+  const value = (accept.maxAmountRequired ?? '').toString().trim()
+  return /^\d+$/.test(value) ? BigInt(value) : null
+}
+
+// exact 且网关给出了金额时，无需用户选择
+export const getQuotedAmount = (accept: PaymentAccept, decimals: number): string | null => {
+  const max = getMaxAmountRequired(accept)
+  return max !== null && !isUptoScheme(accept) ? formatSmallestUnit(max, decimals) : null
+}
+
+// 按 scheme 决定最终支付金额：exact 必须等于报价，upto 必须在 (0, maxAmountRequired] 内
+export const resolvePaymentAmount = (accept: PaymentAccept, decimals: number, requested?: string): ResolvedAmount => {
+  const max = getMaxAmountRequired(accept)
+  const symbol = accept.symbol || ''
+
+  if (max !== null && !isUptoScheme(accept)) {
+    if (requested !== undefined && requested !== '' && amountToSmallestUnit(requested, decimals) !== max) {
+      throw new Error(`该订单需支付 ${formatSmallestUnit(max, decimals)} ${symbol}，不能修改金额`)
+    }
+    return { amount: formatSmallestUnit(max, decimals), amountInSmallestUnit: max }
+  }
+
+  if (requested === undefined || requested === '') {
+    throw new Error('请输入支付金额')
+  }
+  const amountInSmallestUnit = amountToSmallestUnit(requested, decimals)
+  if (amountInSmallestUnit <= BigInt(0)) {
+    throw new Error('支付金额必须大于 0')
+  }
+  if (max !== null && amountInSmallestUnit > max) {
+    throw new Error(`支付金额不能超过 ${formatSmallestUnit(max, decimals)} ${symbol}`)
+  }
+  return { amount: formatSmallestUnit(amountInSmallestUnit, decimals), amountInSmallestUnit }
+}
+
+// 以 GET /order/{orderId} 的 paidAmount 对比应付金额：exact 以报价为准，upto 以用户选定的金额为准
+// paidAmount 不是最小单位整数时无法比较，返回 null
+export const comparePaidAmount = (accept: PaymentAccept, selected: bigint, status: Pick<OrderStatus, 'paidAmount'>): PaidBalance | null => {
+  const value = (status.paidAmount ?? '').toString().trim()
+  if (!/^\d+$/.test(value)) return null
+  const paid = BigInt(value)
+  const max = getMaxAmountRequired(accept)
+  const required = max !== null && !isUptoScheme(accept) ? max : selected
+  return {
+    required,
+    paid,
+    shortfall: required > paid ? required - paid : BigInt(0),
+    surplus: paid > required ? paid - required : BigInt(0)
+  }
+}
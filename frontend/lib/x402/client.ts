@@ -0,0 +1,301 @@
+import type {
+  OrderStatus,
+  PaymentAccept,
+  PaymentResponse,
+  X402ConfirmResult,
+  X402FetchResult,
+  X402HttpResponse,
+  X402PaymentResult,
+  X402RequestResult,
+  X402Signer,
+  X402Transfer,
+  X402TransferRequest,
+  X402Transport,
+  XPaymentPayload
+} from './types'
+import { getQuotedAmount, resolvePaymentAmount } from './amount'
+import { isAcceptExpired } from './expiry'
+import { decodePaymentResponseHeader, readSettlementHeader, verifySettlement } from './settlement'
+import { encodeBase64Json, formatSmallestUnit, getErrorMessage, resolveDecimals } from './utils'
+
+export const X402_VERSION = 1
+export const X_PAYMENT_HEADER = 'X-PAYMENT'
+export const ORDER_STATUS_PATH = '/openapi/crypto/x402/order/'
+// 收款方不接受 X-PAYMENT 中的已签名交易时返回的错误码
+export const UNSUPPORTED_PAYLOAD_ERROR = 'unsupported_payload'
+
+export interface X402ClientOptions {
+  signer: X402Signer
+  transport?: X402Transport
+  // 从可支付的选项中挑选一个，默认取第一个
+  selectAccept?: (accepts: PaymentAccept[]) => PaymentAccept | undefined
+  // 网关未给出 exact 金额（或 scheme 为 upto）时，fetchWithPayment 通过它决定支付金额
+  selectAmount?: (accept: PaymentAccept) => string | Promise<string>
+  // GET /order/{orderId} 的地址，默认使用网关的相对路径
+  orderStatusUrl?: (orderId: string) => string
+  // 校验 X-PAYMENT-RESPONSE 的 networkId 与支付网络是否为同一条链
+  isSameNetwork?: (a: string, b: string) => boolean
+}
+
+export interface X402Client {
+  request: (url: string, init?: RequestInit) => Promise<X402RequestResult>
+  supportedAccepts: (challenge: PaymentResponse) => PaymentAccept[]
+  transfer: (challenge: PaymentResponse, accept: PaymentAccept, amount?: string) => Promise<X402Transfer>
+  // 订单部分到账后补足差额：沿用原转账的订单与报价，金额为 shortfall（最小单位），之后用同一个 orderId 再提交一次 X-PAYMENT
+  topUp: (previous: X402Transfer, shortfall: bigint) => Promise<X402Transfer>
+  confirm: (url: string, init: RequestInit | undefined, transfer: X402Transfer) => Promise<X402ConfirmResult>
+  pay: (
+    url: string,
+    init: RequestInit | undefined,
+    challenge: PaymentResponse,
+    accept: PaymentAccept,
+    amount?: string
+  ) => Promise<X402PaymentResult>
+  fetchWithPayment: (url: string, init?: RequestInit) => Promise<X402FetchResult>
+  getOrderStatus: (orderId: string, init?: RequestInit) => Promise<OrderStatus>
+}
+
+const parseResponseBody = async (res: Response): Promise<unknown> => {
+  const text = await res.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+export const fetchTransport: X402Transport = async (url, init) => {
+  const res = await fetch(url, init)
+  const headers: Record<string, string> = {}
+  res.headers.forEach((value, key) => {
+    headers[key.toLowerCase()] = value
+  })
+  return { status: res.status, headers, body: await parseResponseBody(res) }
+}
+
+export const parsePaymentResponse = (body: unknown, receivedAt: number = Date.now()): PaymentResponse => {
+  const data = (body || {}) as Partial<PaymentResponse>
+  if (!data.orderId || !Array.isArray(data.accepts)) {
+    throw new Error('402 响应缺少 orderId 或 accepts')
+  }
+  return {
+    x402Version: data.x402Version ?? X402_VERSION,
+    orderId: data.orderId,
+    accepts: data.accepts,
+    receivedAt
+  }
+}
+
+export const buildPaymentHeader = (transfer: X402Transfer): { header: string; payment: XPaymentPayload } => {
+  const payment: XPaymentPayload = {
+    x402Version: X402_VERSION,
+    scheme: transfer.accept.scheme || 'exact',
+    network: transfer.accept.network,
+    orderId: transfer.orderId,
+    payload: {
+      amount: transfer.amountInSmallestUnit.toString(),
+      txHash: transfer.txHash,
+      nonce: transfer.accept.nonce,
+      resource: transfer.accept.resource,
+      ...(transfer.transaction ? { transaction: transfer.transaction } : {})
+    }
+  }
+  return { header: encodeBase64Json(payment), payment }
+}
+
+const readError = (body: unknown): string =>
+  body && typeof body === 'object' && 'error' in body ? String((body as { error?: unknown }).error ?? '') : ''
+
+const readMessage = (body: unknown): string => {
+  if (body && typeof body === 'object' && 'message' in body) {
+    return String((body as { message?: unknown }).message ?? '')
+  }
+  return typeof body === 'string' ? body : ''
+}
+
+// 将带 X-PAYMENT 的重试响应归一为 confirmed / waiting / failed / settlement_rejected
+export const interpretConfirmResponse = (
+  response: X402HttpResponse,
+  transfer: X402Transfer,
+  payment: XPaymentPayload,
+  isSameNetwork?: (a: string, b: string) => boolean
+): X402ConfirmResult => {
+  const message = readMessage(response.body)
+  const base = { message, orderId: payment.orderId, payment, response, settlement: null }
+
+  // 202：收款方已收到 X-PAYMENT，但交易尚未达到要求的确认级别
+  if (response.status === 202) {
+    return { ...base, status: 'waiting', message: message || 'Waiting for Payment' }
+  }
+  if (response.status !== 200) {
+    return { ...base, status: 'failed', message: message || `支付确认失败 (code: ${response.status})` }
+  }
+
+  const header = readSettlementHeader(response)
+  if (header) {
+    let settlement
+    try {
+      settlement = decodePaymentResponseHeader(header)
+    } catch (error) {
+      const reason = getErrorMessage(error)
+      return {
+        ...base,
+        status: 'settlement_rejected',
+        message: reason,
+        settlementCheck: { ok: false, reason: 'invalid_header', message: reason }
+      }
+    }
+    const settlementCheck = verifySettlement(settlement, transfer, isSameNetwork)
+    if (!settlementCheck.ok) {
+      return { ...base, status: 'settlement_rejected', message: settlementCheck.message, settlement, settlementCheck }
+    }
+    return { ...base, status: message.includes('Waiting') ? 'waiting' : 'confirmed', settlement, settlementCheck }
+  }
+
+  return { ...base, status: message.includes('Waiting') ? 'waiting' : 'confirmed' }
+}
+
+const withPaymentHeader = (init: RequestInit | undefined, header: string): RequestInit => {
+  const headers = new Headers(init?.headers)
+  headers.set(X_PAYMENT_HEADER, header)
+  return { ...init, headers }
+}
+
+export const createX402Client = (options: X402ClientOptions): X402Client => {
+  const {
+    signer,
+    transport = fetchTransport,
+    selectAccept = (accepts) => accepts[0],
+    selectAmount,
+    isSameNetwork,
+    orderStatusUrl = (orderId) => `${ORDER_STATUS_PATH}${encodeURIComponent(orderId)}`
+  } = options
+
+  const request = async (url: string, init: RequestInit = {}): Promise<X402RequestResult> => {
+    const response = await transport(url, init)
+    if (response.status === 402) {
+      return { status: 'payment_required', challenge: parsePaymentResponse(response.body), response }
+    }
+    return { status: 'completed', response }
+  }
+
+  const supportedAccepts = (challenge: PaymentResponse): PaymentAccept[] =>
+    challenge.accepts.filter((accept) => signer.supports(accept))
+
+  // 收款方声明接受已签名交易时只签名不广播，由收款方提交；签名方或钱包不支持只签名时自行广播
+  const submitTransfer = async (transferRequest: X402TransferRequest): Promise<X402Transfer> => {
+    if (transferRequest.accept.extra?.signedTransaction && signer.sign) {
+      const signed = await signer.sign(transferRequest)
+      if (signed) return { ...transferRequest, ...signed }
+    }
+    return { ...transferRequest, txHash: await signer.pay(transferRequest) }
+  }
+
+  const transfer = async (challenge: PaymentResponse, accept: PaymentAccept, requested?: string): Promise<X402Transfer> => {
+    if (!signer.supports(accept)) {
+      throw new Error(`不支持的支付网络：${accept.network}`)
+    }
+    // 过期的报价不再签名，调用方应重新请求 402 挑战
+    if (isAcceptExpired(accept, challenge.receivedAt)) {
+      throw new Error(`支付报价已过期（nonce: ${accept.nonce}），请重新获取支付信息`)
+    }
+    const decimals = signer.getDecimals ? await signer.getDecimals(accept) : resolveDecimals(accept.decimals)
+    const { amount, amountInSmallestUnit } = resolvePaymentAmount(accept, decimals, requested)
+    return submitTransfer({ accept, orderId: challenge.orderId, amount, amountInSmallestUnit, decimals })
+  }
+
+  // 补款不受 exact 金额与报价有效期限制：订单已经被第一笔转账锁定，是否接受由网关判断
+  const topUp = async (previous: X402Transfer, shortfall: bigint): Promise<X402Transfer> => {
+    const { accept, orderId, decimals } = previous
+    if (!signer.supports(accept)) {
+      throw new Error(`不支持的支付网络：${accept.network}`)
+    }
+    if (shortfall <= BigInt(0)) {
+      throw new Error('订单没有需要补足的差额')
+    }
+    return submitTransfer({ accept, orderId, amount: formatSmallestUnit(shortfall, decimals), amountInSmallestUnit: shortfall, decimals })
+  }
+
+  const confirm = async (url: string, init: RequestInit | undefined, transfer: X402Transfer): Promise<X402ConfirmResult> => {
+    const { header, payment } = buildPaymentHeader(transfer)
+    const response = await transport(url, withPaymentHeader(init, header))
+    // 收款方不接受已签名交易：自行广播同一笔交易（交易哈希不变），上链后只凭 txHash 再确认一次
+    if (transfer.transaction && response.status === 400 && readError(response.body) === UNSUPPORTED_PAYLOAD_ERROR) {
+      if (!signer.sendSigned) {
+        throw new Error('收款方不接受已签名的交易，签名方也无法自行广播')
+      }
+      const { transaction, ...broadcast } = transfer
+      await signer.sendSigned(transfer.accept, transaction)
+      return confirm(url, init, broadcast)
+    }
+    return interpretConfirmResponse(response, transfer, payment, isSameNetwork)
+  }
+
+  const pay = async (
+    url: string,
+    init: RequestInit | undefined,
+    challenge: PaymentResponse,
+    accept: PaymentAccept,
+    amount?: string
+  ): Promise<X402PaymentResult> => {
+    const sent = await transfer(challenge, accept, amount)
+    const result = await confirm(url, init, sent)
+    return { ...result, transfer: sent }
+  }
+
+  const fetchWithPayment = async (url: string, init?: RequestInit): Promise<X402FetchResult> => {
+    let first = await request(url, init)
+    if (first.status === 'completed') {
+      return { paid: false, response: first.response }
+    }
+
+    const accept = selectAccept(supportedAccepts(first.challenge))
+    if (!accept) {
+      throw new Error('没有可用的支付方式')
+    }
+    let amount: string | undefined
+    const decimals = signer.getDecimals ? await signer.getDecimals(accept) : resolveDecimals(accept.decimals)
+    if (getQuotedAmount(accept, decimals) === null) {
+      if (!selectAmount) {
+        throw new Error('未配置 selectAmount，无法确定支付金额')
+      }
+      amount = await selectAmount(accept)
+    }
+
+    // 选择金额期间报价过期时，自动重新获取一次挑战
+    let challenge = first.challenge
+    let chosen = accept
+    if (isAcceptExpired(chosen, challenge.receivedAt)) {
+      first = await request(url, init)
+      if (first.status === 'completed') {
+        return { paid: false, response: first.response }
+      }
+      challenge = first.challenge
+      const refreshed = supportedAccepts(challenge).find(
+        (item) => item.network === accept.network && item.asset === accept.asset
+      )
+      if (!refreshed) {
+        throw new Error('重新获取的支付信息中没有相同的支付方式')
+      }
+      chosen = refreshed
+    }
+
+    const result = await pay(url, init, challenge, chosen, amount)
+    return { paid: true, ...result }
+  }
+
+  const getOrderStatus = async (orderId: string, init: RequestInit = {}): Promise<OrderStatus> => {
+    const response = await transport(orderStatusUrl(orderId), { ...init, method: 'GET' })
+    if (response.status !== 200) {
+      throw new Error(readMessage(response.body) || `查询订单状态失败 (code: ${response.status})`)
+    }
+    const status = (response.body || {}) as Partial<OrderStatus>
+    if (!status.orderId || !status.payStatus) {
+      throw new Error('订单状态响应缺少 orderId 或 payStatus')
+    }
+    return status as OrderStatus
+  }
+
+  return { request, supportedAccepts, transfer, topUp, confirm, pay, fetchWithPayment, getOrderStatus }
+}
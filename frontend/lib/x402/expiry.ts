@@ -0,0 +1,29 @@
+import type { PaymentAccept, PaymentResponse } from './types'
+
+// expires 可能是相对秒数（如 3600）、Unix 秒或毫秒时间戳
+export const getAcceptExpiresAt = (accept: PaymentAccept, receivedAt: number): number | null => {
+  const expires = Number(accept.expires)
+  if (!Number.isFinite(expires) || expires <= 0) return null
+  if (expires >= 1e12) return expires
+  if (expires >= 1e9) return expires * 1000
+  return receivedAt + expires * 1000
+}
+
+export const getAcceptRemainingMs = (accept: PaymentAccept, receivedAt: number, now: number = Date.now()): number => {
+  const expiresAt = getAcceptExpiresAt(accept, receivedAt)
+  return expiresAt === null ? Infinity : expiresAt - now
+}
+
+export const isAcceptExpired = (accept: PaymentAccept, receivedAt: number, now: number = Date.now()): boolean =>
+  getAcceptRemainingMs(accept, receivedAt, now) <= 0
+
+export const isChallengeExpired = (challenge: PaymentResponse, now: number = Date.now()): boolean =>
+  challenge.accepts.length > 0 && challenge.accepts.every((accept) => isAcceptExpired(accept, challenge.receivedAt, now))
+
+export const formatCountdown = (remainingMs: number): string => {
+  if (!Number.isFinite(remainingMs)) return ''
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+}
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createGatewayClient, createGatewayTransport, GatewayHttpError, GatewayValidationError } from './client'
+
+const ORDER_ID = 'CO2025091502171350002'
+
+const offer = {
+  scheme: 'exact',
+  network: 'solana-devnet',
+  asset: 'Mint1111111111111111111111111111111111111111',
+  symbol: 'USDC',
+  decimals: '6',
+  payTo: 'PayTo111111111111111111111111111111111111111',
+  resource: '/openapi/crypto/x402/order',
+  nonce: 'abc123',
+  expires: 600,
+  maxAmountRequired: '2600000'
+}
+
+// 每次请求都返回同一个响应，并记下请求
+const gatewayReturning = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+  const requests: { url: string; init: RequestInit }[] = []
+  const gateway = createGatewayClient({
+    baseUrl: 'https://gateway.test/openapi/crypto/x402',
+    merchantAppKey: 'merchant_key_123',
+    fetch: async (url, init = {}) => {
+      requests.push({ url: String(url), init })
+      return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, headers })
+    }
+  })
+  return { gateway, requests }
+}
+
+const rejectsWithIssues = async (promise: Promise<unknown>, status: number, paths: string[]) => {
+  await assert.rejects(promise, (error) => {
+    assert.ok(error instanceof GatewayValidationError)
+    assert.equal(error.operation, 'PostOrder')
+    assert.equal(error.status, status)
+    assert.deepEqual(
+      error.issues.map((issue) => issue.path.join('.')),
+      paths
+    )
+    return true
+  })
+}
+
+test('402 报价按 OpenAPI 校验，未声明的字段原样保留', async () => {
+  const { gateway, requests } = gatewayReturning(402, { x402Version: 1, orderId: ORDER_ID, accepts: [{ ...offer, chainId: 56 }] })
+
+  const result = await gateway.createOrder({ description: 'test' })
+
+  assert.equal(result.type, 'PaymentRequired')
+  assert.deepEqual(result.type === 'PaymentRequired' && result.body.accepts[0], { ...offer, chainId: 56 })
+  assert.equal(requests[0].url, 'https://gateway.test/openapi/crypto/x402/order')
+  assert.equal((requests[0].init.headers as Record<string, string>)['Merchant-App-Key'], 'merchant_key_123')
+})
+
+test('decimals 返回 number 时抛出 GatewayValidationError', async () => {
+  const { gateway } = gatewayReturning(402, { x402Version: 1, orderId: ORDER_ID, accepts: [{ ...offer, decimals: 6 }] })
+  await rejectsWithIssues(gateway.createOrder(), 402, ['accepts.0.decimals'])
+})
+
+test('确认响应用 status 代替 orderStatus 时抛出 GatewayValidationError', async () => {
+  const { gateway } = gatewayReturning(200, { orderId: ORDER_ID, status: 'confirmed', message: 'Payment successful' })
+  await rejectsWithIssues(gateway.confirmOrder('eyJ9'), 200, ['orderStatus'])
+})
+
+test('缺少必填字段或响应不是 JSON 时抛出 GatewayValidationError', async () => {
+  await rejectsWithIssues(gatewayReturning(400, { message: 'Invalid signature' }).gateway.confirmOrder('eyJ9'), 400, ['error'])
+  await rejectsWithIssues(gatewayReturning(402, 'Payment Required').gateway.createOrder(), 402, [''])
+})
+
+test('202 返回 Waiting 结果，不再当作未声明的状态码抛出', async () => {
+  const { gateway, requests } = gatewayReturning(
+    202,
+    { orderId: ORDER_ID, orderStatus: 'pending', message: 'Waiting for Payment' },
+    { 'Retry-After': '2' }
+  )
+
+  const result = await gateway.confirmOrder('eyJ9')
+
+  assert.equal(result.type, 'Waiting')
+  assert.equal(result.status, 202)
+  assert.equal(result.headers['retry-after'], '2')
+  assert.equal((requests[0].init.headers as Record<string, string>)['X-PAYMENT'], 'eyJ9')
+
+  const transport = createGatewayTransport(gateway)
+  const response = await transport(`${gateway.baseUrl}/order`, { method: 'POST', headers: { 'X-PAYMENT': 'eyJ9' }, body: '{}' })
+  assert.equal(response.status, 202)
+})
+
+test('未声明的状态码抛出带 status 的 GatewayHttpError', async () => {
+  const { gateway } = gatewayReturning(503, 'Service Unavailable')
+  await assert.rejects(gateway.confirmOrder('eyJ9'), (error) => {
+    assert.ok(error instanceof GatewayHttpError)
+    assert.equal(error.status, 503)
+    assert.equal(error.body, 'Service Unavailable')
+    return true
+  })
+})
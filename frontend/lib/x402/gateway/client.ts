@@ -0,0 +1,175 @@
+import type { ZodIssue, ZodTypeAny } from 'zod'
+import type { X402HttpResponse, X402Transport } from '../types'
+import {
+  ErrorSchema,
+  GATEWAY_BASE_PATH,
+  gatewayOperations,
+  type GatewayError,
+  type GatewayOperationName,
+  type GetOrderByOrderId200,
+  type GetOrderByOrderId404,
+  type GetPayMethods200,
+  type PostOrder200,
+  type PostOrder202,
+  type PostOrder400,
+  type PostOrder402
+} from './schemas'
+
+type ResponseHeaders = Record<string, string>
+
+// 网关响应按状态码收窄成判别联合，body 均已按 OpenAPI schema 校验
+export type PaymentRequired = { type: 'PaymentRequired'; status: 402; headers: ResponseHeaders; body: PostOrder402 }
+export type Confirmed = { type: 'Confirmed'; status: 200; headers: ResponseHeaders; body: PostOrder200 }
+export type Waiting = { type: 'Waiting'; status: 202; headers: ResponseHeaders; body: PostOrder202 }
+export type InvalidPayment = { type: 'InvalidPayment'; status: 400; headers: ResponseHeaders; body: PostOrder400 }
+export type NotFound = { type: 'NotFound'; status: 404; headers: ResponseHeaders; body: GetOrderByOrderId404 }
+export type Unauthorized = { type: 'Unauthorized'; status: 401; headers: ResponseHeaders; body: GatewayError }
+export type PayMethods = { type: 'PayMethods'; status: 200; headers: ResponseHeaders; body: GetPayMethods200 }
+export type OrderStatusFound = { type: 'OrderStatus'; status: 200; headers: ResponseHeaders; body: GetOrderByOrderId200 }
+
+export type OrderResult = PaymentRequired | Confirmed | Waiting | InvalidPayment | Unauthorized
+export type PayMethodsResult = PayMethods | Unauthorized
+export type OrderStatusResult = OrderStatusFound | NotFound | Unauthorized
+export type GatewayResult = OrderResult | PayMethodsResult | OrderStatusResult
+
+// 响应体与 OpenAPI 不一致（例如 decimals 返回 number、确认响应用 status 代替 orderStatus）
+export class GatewayValidationError extends Error {
+  constructor(
+    readonly operation: GatewayOperationName,
+    readonly status: number,
+    readonly issues: ZodIssue[],
+    readonly body: unknown
+  ) {
+    super(
+      `网关响应不符合 OpenAPI 定义（${operation} ${status}）：${issues
+        .map((issue) => `${issue.path.join('.') || '(root)'} ${issue.message}`)
+        .join('；')}`
+    )
+    this.name = 'GatewayValidationError'
+  }
+}
+
+// 网关返回了 OpenAPI 未声明的状态码（通常是 5xx），status 供调用方判断能否重试
+export class GatewayHttpError extends Error {
+  constructor(
+    readonly operation: GatewayOperationName,
+    readonly status: number,
+    readonly body: unknown
+  ) {
+    super(`网关返回了未声明的状态码 ${status}：${typeof body === 'string' ? body : JSON.stringify(body)}`)
+    this.name = 'GatewayHttpError'
+  }
+}
+
+export interface GatewayClientOptions {
+  // 默认与页面同源的 /openapi/crypto/x402，也可以指向代理或本地模拟网关
+  baseUrl?: string
+  // 只在服务端或脚本中传入，浏览器请求应走持有 key 的代理
+  merchantAppKey?: string
+  fetch?: typeof fetch
+}
+
+export interface GatewayClient {
+  baseUrl: string
+  getPayMethods: () => Promise<PayMethodsResult>
+  createOrder: (body?: { description?: string }) => Promise<OrderResult>
+  confirmOrder: (xPayment: string, body?: { description?: string }) => Promise<OrderResult>
+  getOrder: (orderId: string) => Promise<OrderStatusResult>
+}
+
+const RESULT_TYPES: Record<GatewayOperationName, Record<number, GatewayResult['type']>> = {
+  GetPayMethods: { 200: 'PayMethods', 401: 'Unauthorized' },
+  PostOrder: { 200: 'Confirmed', 202: 'Waiting', 400: 'InvalidPayment', 401: 'Unauthorized', 402: 'PaymentRequired' },
+  GetOrderByOrderId: { 200: 'OrderStatus', 401: 'Unauthorized', 404: 'NotFound' }
+}
+
+const readBody = async (res: Response): Promise<unknown> => {
+  const text = await res.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+export const createGatewayClient = (options: GatewayClientOptions = {}): GatewayClient => {
+  const { baseUrl = GATEWAY_BASE_PATH, merchantAppKey, fetch: fetchImpl = (...args) => fetch(...args) } = options
+  const root = baseUrl.replace(/\/+$/, '')
+
+  const send = async (
+    operation: GatewayOperationName,
+    { path, body, headers = {} }: { path: string; body?: unknown; headers?: ResponseHeaders }
+  ): Promise<GatewayResult> => {
+    const { method, responses } = gatewayOperations[operation]
+    const res = await fetchImpl(`${root}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(merchantAppKey ? { 'Merchant-App-Key': merchantAppKey } : {}),
+        ...headers
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    })
+
+    const responseHeaders: ResponseHeaders = {}
+    res.headers.forEach((value, key) => {
+      responseHeaders[key.toLowerCase()] = value
+    })
+    const data = await readBody(res)
+
+    const type = RESULT_TYPES[operation][res.status]
+    if (!type) {
+      // 5xx 等未声明的状态码直接抛出，调用方按网络异常处理（可重试）
+      throw new GatewayHttpError(operation, res.status, data)
+    }
+    // 401 未在所有接口上声明，统一按 Error schema 校验
+    const schema: ZodTypeAny = (responses as Partial<Record<number, ZodTypeAny>>)[res.status] ?? ErrorSchema
+    const parsed = schema.safeParse(data)
+    if (!parsed.success) {
+      throw new GatewayValidationError(operation, res.status, parsed.error.issues, data)
+    }
+    return { type, status: res.status, headers: responseHeaders, body: parsed.data } as GatewayResult
+  }
+
+  return {
+    baseUrl: root,
+    getPayMethods: () => send('GetPayMethods', { path: '/pay-methods' }) as Promise<PayMethodsResult>,
+    createOrder: (body = {}) => send('PostOrder', { path: '/order', body }) as Promise<OrderResult>,
+    confirmOrder: (xPayment, body = {}) =>
+      send('PostOrder', { path: '/order', body, headers: { 'X-PAYMENT': xPayment } }) as Promise<OrderResult>,
+    getOrder: (orderId) =>
+      send('GetOrderByOrderId', { path: `/order/${encodeURIComponent(orderId)}` }) as Promise<OrderStatusResult>
+  }
+}
+
+const parseRequestBody = (body: RequestInit['body']): { description?: string } => {
+  if (typeof body !== 'string' || !body) return {}
+  try {
+    const parsed = JSON.parse(body)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+// 让 X402 客户端经由校验过的网关接口收发：POST {baseUrl}/order 与 GET {baseUrl}/order/{orderId}
+export const createGatewayTransport = (gateway: GatewayClient): X402Transport => async (url, init) => {
+  const method = (init.method || 'GET').toUpperCase()
+  const path = url.startsWith(gateway.baseUrl) ? url.slice(gateway.baseUrl.length) : url
+  const orderMatch = path.match(/^\/order\/([^/?]+)$/)
+
+  let result: GatewayResult
+  if (method === 'GET' && orderMatch) {
+    result = await gateway.getOrder(decodeURIComponent(orderMatch[1]))
+  } else if (method === 'POST' && path === '/order') {
+    const xPayment = new Headers(init.headers).get('X-PAYMENT')
+    const body = parseRequestBody(init.body)
+    result = xPayment ? await gateway.confirmOrder(xPayment, body) : await gateway.createOrder(body)
+  } else {
+    throw new Error(`网关没有对应的接口：${method} ${url}`)
+  }
+
+  const response: X402HttpResponse = { status: result.status, headers: result.headers, body: result.body }
+  return response
+}
@@ -0,0 +1,182 @@
+// 由 backend/api/generate-gateway-client.ts 根据 Payment-Getway-x402.openapi.json 生成，请勿手动修改
+import { z } from 'zod'
+
+export const GATEWAY_BASE_PATH = '/openapi/crypto/x402'
+
+export const ErrorSchema = z
+  .object({
+    // Error code
+    error: z.string(),
+    // Error description
+    message: z.string(),
+    // Payment ID, if applicable
+    paymentId: z.string().optional()
+  })
+  .passthrough()
+export type GatewayError = z.infer<typeof ErrorSchema>
+
+export const PaymentMethodSchema = z
+  .object({
+    // Blockchain network ID (e.g., bsc-mainnet, solana-mainnet)
+    network: z.string(),
+    // Asset contract address or identifier
+    asset: z.string(),
+    // Human-readable asset symbol
+    symbol: z.string().optional()
+  })
+  .passthrough()
+export type GatewayPaymentMethod = z.infer<typeof PaymentMethodSchema>
+
+// GET /openapi/crypto/x402/pay-methods 200 - List of supported payment methods
+export const GetPayMethods200Schema = z.array(PaymentMethodSchema)
+export type GetPayMethods200 = z.infer<typeof GetPayMethods200Schema>
+
+// GET /openapi/crypto/x402/pay-methods 401 - Unauthorized
+export const GetPayMethods401Schema = ErrorSchema
+export type GetPayMethods401 = z.infer<typeof GetPayMethods401Schema>
+
+// POST /openapi/crypto/x402/order 200 - Payment successful, order confirmed
+export const PostOrder200Schema = z
+  .object({
+    // Unique identifier for the payment order
+    orderId: z.string(),
+    // Order status (e.g., pending, confirmed, failed)
+    orderStatus: z.string(),
+    // Human-readable status message
+    message: z.string()
+  })
+  .passthrough()
+export type PostOrder200 = z.infer<typeof PostOrder200Schema>
+
+// POST /openapi/crypto/x402/order 202 - X-PAYMENT received but the transaction has not reached the required commitment yet; retry with the same X-PAYMENT after Retry-After seconds
+export const PostOrder202Schema = z
+  .object({
+    // Unique identifier for the payment order
+    orderId: z.string(),
+    // Order status, pending while waiting
+    orderStatus: z.string(),
+    // Human-readable status message
+    message: z.string()
+  })
+  .passthrough()
+export type PostOrder202 = z.infer<typeof PostOrder202Schema>
+
+// POST /openapi/crypto/x402/order 400 - Invalid payment or request
+export const PostOrder400Schema = z
+  .object({
+    // Error code
+    error: z.string(),
+    // Error description
+    message: z.string(),
+    // orderId, if applicable
+    orderId: z.string().optional()
+  })
+  .passthrough()
+export type PostOrder400 = z.infer<typeof PostOrder400Schema>
+
+// POST /openapi/crypto/x402/order 402 - Payment required
+export const PostOrder402Schema = z
+  .object({
+    // X402 protocol version
+    x402Version: z.number().int(),
+    // CO2025091502171350002
+    orderId: z.string(),
+    accepts: z.array(z
+      .object({
+        // Payment scheme (exact, or upto for a payer-chosen amount up to maxAmountRequired)
+        scheme: z.string(),
+        // Blockchain network ID
+        network: z.string(),
+        // Asset contract address
+        asset: z.string(),
+        // Asset symbol
+        symbol: z.string(),
+        // Asset decimal places
+        decimals: z.string(),
+        // Recipient address
+        payTo: z.string(),
+        // Resource URI for the payment
+        resource: z.string(),
+        // Payment purpose
+        description: z.string().optional(),
+        // Unique nonce for anti-replay
+        nonce: z.string().optional(),
+        // Expiration time in seconds
+        expires: z.number().int().optional(),
+        // Amount to pay in the asset's smallest unit. For scheme exact the payer must pay exactly this amount; for scheme upto it is the upper limit
+        maxAmountRequired: z.string().optional(),
+        // Scheme-specific extensions, as in upstream x402
+        extra: z
+          .object({
+            // The gateway accepts a signed but not broadcast transaction in payload.transaction, verifies it and submits it on chain
+            signedTransaction: z.boolean().optional()
+          })
+          .passthrough().optional()
+      })
+      .passthrough())
+  })
+  .passthrough()
+export type PostOrder402 = z.infer<typeof PostOrder402Schema>
+
+// GET /openapi/crypto/x402/order/{orderId} 200 - Order status
+export const GetOrderByOrderId200Schema = z
+  .object({
+    // Unique identifier for the payment order
+    orderId: z.string(),
+    // Human-readable status message
+    message: z.string(),
+    // Order status (e.g., pending, confirmed, failed)
+    orderStatus: z.string(),
+    // Payment Status(Not Paid, Partially Paid,Fully Paid,Over Paid)
+    payStatus: z.string(),
+    // Amount paid
+    paidAmount: z.string(),
+    transactionFee: z.string(),
+    gasFee: z.string(),
+    txHash: z.string()
+  })
+  .passthrough()
+export type GetOrderByOrderId200 = z.infer<typeof GetOrderByOrderId200Schema>
+
+// GET /openapi/crypto/x402/order/{orderId} 404 - Order not found
+export const GetOrderByOrderId404Schema = z
+  .object({
+    // Error description
+    message: z.string(),
+    // Payment ID, if applicable
+    orderId: z.string().optional()
+  })
+  .passthrough()
+export type GetOrderByOrderId404 = z.infer<typeof GetOrderByOrderId404Schema>
+
+// 每个接口按 HTTP 状态码对应的响应 schema，path 相对于 GATEWAY_BASE_PATH
+export const gatewayOperations = {
+  GetPayMethods: {
+    method: 'GET',
+    path: '/pay-methods',
+    responses: {
+      200: GetPayMethods200Schema,
+      401: GetPayMethods401Schema
+    }
+  },
+  PostOrder: {
+    method: 'POST',
+    path: '/order',
+    responses: {
+      200: PostOrder200Schema,
+      202: PostOrder202Schema,
+      400: PostOrder400Schema,
+      402: PostOrder402Schema
+    }
+  },
+  GetOrderByOrderId: {
+    method: 'GET',
+    path: '/order/{orderId}',
+    responses: {
+      200: GetOrderByOrderId200Schema,
+      404: GetOrderByOrderId404Schema
+    }
+  }
+} as const
+
+export type GatewayOperationName = keyof typeof gatewayOperations
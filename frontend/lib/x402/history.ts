@@ -0,0 +1,190 @@
+import type { SettlementResponse } from './settlement'
+import type { OrderStatus, PaymentRecord, X402Transfer } from './types'
+
+// partially_paid：放弃补款或补款失败，shortfall 为未付的差额；over_paid：订单完成但多付了 surplus，需要后续退款或抵扣
+export type ReceiptStatus = 'success' | 'over_paid' | 'partially_paid' | 'failed'
+
+// 一笔支付的收据：订单、链上签名、解码后的结算头与 GET /order/{orderId} 的到账结果
+export interface PaymentReceipt extends PaymentRecord {
+  status: ReceiptStatus
+  decimals: number
+  error: string | null
+  // 最小单位，只在 partially_paid / over_paid 时有值
+  shortfall: string | null
+  surplus: string | null
+  // 最近一次从网关读取订单状态的时间
+  statusCheckedAt: number | null
+}
+
+export interface ReceiptFilter {
+  // 毫秒时间戳，均包含边界
+  from?: number | null
+  to?: number | null
+  status?: ReceiptStatus | null
+  network?: string | null
+}
+
+export interface PaymentReceiptStore {
+  // 按 orderId 覆盖，失败后重试确认成功的订单只保留最新结果
+  save: (receipt: PaymentReceipt) => PaymentReceipt
+  update: (orderId: string, patch: Partial<Omit<PaymentReceipt, 'orderId'>>) => PaymentReceipt | null
+  get: (orderId: string) => PaymentReceipt | null
+  // 按完成时间从新到旧
+  list: () => PaymentReceipt[]
+}
+
+export const PAYMENT_RECEIPTS_STORAGE_KEY = 'x402:payment-receipts'
+const MAX_STORED_RECEIPTS = 500
+
+// storage 缺失（SSR、隐私模式）时退化为内存存储
+export const createLocalReceiptStore = (
+  storage: Storage | undefined = typeof window === 'undefined' ? undefined : window.localStorage,
+  key: string = PAYMENT_RECEIPTS_STORAGE_KEY,
+  // localStorage 读写失败（数据损坏、超出配额）时回调，读取失败按空数据处理
+  onError?: (error: unknown) => void
+): PaymentReceiptStore => {
+  let memory: PaymentReceipt[] = []
+
+  const readAll = (): PaymentReceipt[] => {
+    if (!storage) return memory
+    try {
+      const parsed = JSON.parse(storage.getItem(key) || '[]')
+      return Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      onError?.(error)
+      return []
+    }
+  }
+
+  const writeAll = (receipts: PaymentReceipt[]) => {
+    const kept = [...receipts].sort((a, b) => b.completedAt - a.completedAt).slice(0, MAX_STORED_RECEIPTS)
+    if (!storage) {
+      memory = kept
+      return
+    }
+    try {
+      storage.setItem(key, JSON.stringify(kept))
+    } catch (error) {
+      onError?.(error)
+    }
+  }
+
+  const get = (orderId: string) => readAll().find((receipt) => receipt.orderId === orderId) ?? null
+
+  const save = (receipt: PaymentReceipt) => {
+    writeAll([receipt, ...readAll().filter((item) => item.orderId !== receipt.orderId)])
+    return receipt
+  }
+
+  return {
+    save,
+    update: (orderId, patch) => {
+      const existing = get(orderId)
+      return existing ? save({ ...existing, ...patch }) : null
+    },
+    get,
+    list: () => readAll().sort((a, b) => b.completedAt - a.completedAt)
+  }
+}
+
+// previous：同一订单此前已提交的转账（部分支付后补款时）
+export const recordFromTransfer = (
+  transfer: X402Transfer,
+  settlement: SettlementResponse | null,
+  orderStatus: OrderStatus | null,
+  previous: X402Transfer[] = [],
+  completedAt: number = Date.now()
+): PaymentRecord => ({
+  orderId: transfer.orderId,
+  resource: transfer.accept.resource,
+  network: transfer.accept.network,
+  asset: transfer.accept.asset,
+  symbol: transfer.accept.symbol,
+  payTo: transfer.accept.payTo,
+  nonce: transfer.accept.nonce,
+  amount: transfer.amount,
+  amountInSmallestUnit: transfer.amountInSmallestUnit.toString(),
+  txHash: transfer.txHash,
+  payments: [...previous.filter((item) => item.txHash !== transfer.txHash), transfer].map((item) => ({ txHash: item.txHash, amountInSmallestUnit: item.amountInSmallestUnit.toString() })),
+  settlement,
+  orderStatus,
+  completedAt
+})
+
+export const createReceipt = (
+  record: PaymentRecord,
+  {
+    status,
+    decimals,
+    error = null,
+    shortfall = null,
+    surplus = null
+  }: { status: ReceiptStatus; decimals: number; error?: string | null; shortfall?: string | null; surplus?: string | null }
+): PaymentReceipt => ({
+  ...record,
+  status,
+  decimals,
+  error,
+  shortfall,
+  surplus,
+  statusCheckedAt: record.orderStatus ? record.completedAt : null
+})
+
+export const applyOrderStatus = (receipt: PaymentReceipt, orderStatus: OrderStatus, checkedAt: number = Date.now()): PaymentReceipt => ({
+  ...receipt,
+  orderStatus,
+  statusCheckedAt: checkedAt
+})
+
+export const filterReceipts = (receipts: PaymentReceipt[], { from, to, status, network }: ReceiptFilter): PaymentReceipt[] =>
+  receipts.filter(
+    (receipt) =>
+      (from == null || receipt.completedAt >= from) &&
+      (to == null || receipt.completedAt <= to) &&
+      (!status || receipt.status === status) &&
+      (!network || receipt.network === network)
+  )
+
+// 订单状态里的金额与 X-PAYMENT 一致为最小单位，导出时原样保留，由对账方按 decimals 换算
+const CSV_COLUMNS: [string, (receipt: PaymentReceipt) => string | number | boolean | null | undefined][] = [
+  ['completedAt', (receipt) => new Date(receipt.completedAt).toISOString()],
+  ['orderId', (receipt) => receipt.orderId],
+  ['status', (receipt) => receipt.status],
+  ['network', (receipt) => receipt.network],
+  ['symbol', (receipt) => receipt.symbol],
+  ['asset', (receipt) => receipt.asset],
+  ['payTo', (receipt) => receipt.payTo],
+  ['decimals', (receipt) => receipt.decimals],
+  ['amount', (receipt) => receipt.amount],
+  ['amountInSmallestUnit', (receipt) => receipt.amountInSmallestUnit],
+  ['txHash', (receipt) => receipt.txHash],
+  // 多笔转账以空格分隔，每笔为 txHash:amountInSmallestUnit；旧收据没有该字段
+  ['payments', (receipt) => (receipt.payments || []).map((item) => `${item.txHash}:${item.amountInSmallestUnit}`).join(' ')],
+  ['resource', (receipt) => receipt.resource],
+  ['settlementSuccess', (receipt) => receipt.settlement?.success],
+  ['settlementTxHash', (receipt) => receipt.settlement?.txHash],
+  ['settlementNetworkId', (receipt) => receipt.settlement?.networkId],
+  ['orderStatus', (receipt) => receipt.orderStatus?.orderStatus],
+  ['payStatus', (receipt) => receipt.orderStatus?.payStatus],
+  ['paidAmount', (receipt) => receipt.orderStatus?.paidAmount],
+  ['transactionFee', (receipt) => receipt.orderStatus?.transactionFee],
+  ['gasFee', (receipt) => receipt.orderStatus?.gasFee],
+  ['shortfall', (receipt) => receipt.shortfall],
+  ['surplus', (receipt) => receipt.surplus],
+  ['statusCheckedAt', (receipt) => (receipt.statusCheckedAt ? new Date(receipt.statusCheckedAt).toISOString() : '')],
+  ['error', (receipt) => receipt.error]
+]
+
+const escapeCsv = (value: string | number | boolean | null | undefined): string => {
+  const raw = value === null || value === undefined ? '' : String(value)
+  // 网关返回的错误信息等文本以 = + - @ 开头时，表格软件会当作公式执行
+  const text = typeof value === 'string' && /^[=+\-@]/.test(raw) && !/^-?\d+(\.\d+)?$/.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const receiptsToCsv = (receipts: PaymentReceipt[]): string =>
+  [CSV_COLUMNS.map(([name]) => name), ...receipts.map((receipt) => CSV_COLUMNS.map(([, read]) => escapeCsv(read(receipt))))]
+    .map((row) => row.join(','))
+    .join('\r\n')
+
+export const receiptsToJson = (receipts: PaymentReceipt[]): string => JSON.stringify(receipts, null, 2)
@@ -0,0 +1,13 @@
+export * from './types'
+export * from './utils'
+export * from './client'
+export * from './poll'
+export * from './settlement'
+export * from './expiry'
+export * from './amount'
+export * from './session'
+export * from './retry'
+export * from './intent'
+export * from './machine'
+export * from './policy'
+export * from './history'
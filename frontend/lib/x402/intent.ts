@@ -0,0 +1,169 @@
+import type { PaymentAccept } from './types'
+import { getErrorMessage, NETWORK_ALIASES, normalizeNetwork } from './utils'
+
+// 聊天输入解析出的意图；pay 的各字段可以缺省，由调用方追问补齐
+export type PaymentIntent =
+  | { type: 'pay'; amount: string | null; token: string | null; network: string | null; resourceId: string | null }
+  | { type: 'confirm' }
+  | { type: 'retry' }
+  | { type: 'balance' }
+  | { type: 'cancel' }
+  | { type: 'help' }
+  | { type: 'unknown' }
+
+export type PayIntent = Extract<PaymentIntent, { type: 'pay' }>
+
+// 解析时可参考的当前对话状态，LLM 适配器会把它写进提示词
+export interface IntentContext {
+  step: string
+  options: { network: string; symbol: string }[]
+}
+
+export interface IntentParser {
+  parse: (text: string, context: IntentContext) => Promise<PaymentIntent>
+}
+
+const KNOWN_TOKENS = ['USDC', 'USDT', 'PYUSD', 'DAI', 'SOL', 'ETH', 'BNB']
+
+const CANCEL_PATTERN = /^(cancel|stop|abort|never ?mind|forget it)\b|取消|算了|不要了|不付了|停止/i
+const BALANCE_PATTERN = /\bbalances?\b|how much .*\b(have|left)\b|余额|还有多少/i
+const RETRY_PATTERN = /^(retry|try again)\b|重试|再试/i
+const HELP_PATTERN = /^(help|\?|？)$|^help\b|帮助|怎么用|能做什么/i
+const CONFIRM_PATTERN = /^(yes|y|ok|okay|sure|confirm|go ahead|pay it|确认|确定|好的?|是的?|可以|行|没问题)[.!。！]?$/i
+const PAY_PATTERN = /\b(pay|send|promote|buy)\b|支付|付款|付|转账|推广/i
+const RESOURCE_PATTERN = /(?:\bresource(?:\s*id)?|\btweet|资源|推文)\s*[:：#]?\s*([A-Za-z0-9_-]{1,64})/i
+const AMOUNT_PATTERN = new RegExp(`(?<![\\w.])(\\d+(?:\\.\\d+)?)\\s*(${KNOWN_TOKENS.join('|')})?(?![\\w.])`, 'i')
+const TOKEN_PATTERN = new RegExp(`(?<![\\w])(${KNOWN_TOKENS.join('|')})(?![\\w])`, 'i')
+
+const findNetwork = (text: string): string | null => {
+  const lower = text.toLowerCase()
+  for (const [network, aliases] of Object.entries(NETWORK_ALIASES)) {
+    // eth、bnb 这类别名同时是代币符号，文本里只按代币处理
+    const matched = aliases.filter((alias) => !KNOWN_TOKENS.includes(alias.toUpperCase())).some((alias) =>
+      /^[a-z]+$/.test(alias) ? new RegExp(`(?<![a-z])${alias}(?![a-z])`).test(lower) : lower.includes(alias)
+    )
+    if (matched) return network
+  }
+  return null
+}
+
+// 规则解析：支持中英文常见说法，例如 “pay 0.2 USDC on Solana for resource abc”、“余额”、“取消”
+export const parseIntentRules = (input: string): PaymentIntent => {
+  const text = input.trim()
+  if (!text) return { type: 'unknown' }
+  if (CANCEL_PATTERN.test(text)) return { type: 'cancel' }
+  if (BALANCE_PATTERN.test(text)) return { type: 'balance' }
+  if (RETRY_PATTERN.test(text)) return { type: 'retry' }
+  if (HELP_PATTERN.test(text)) return { type: 'help' }
+  if (CONFIRM_PATTERN.test(text)) return { type: 'confirm' }
+
+  // 先取出资源 ID，避免其中的数字被当成金额
+  const resourceMatch = text.match(RESOURCE_PATTERN)
+  const rest = resourceMatch ? text.replace(resourceMatch[0], ' ') : text
+  const amountMatch = rest.match(AMOUNT_PATTERN)
+  const tokenMatch = amountMatch?.[2] ? amountMatch : rest.match(TOKEN_PATTERN)
+  let token = tokenMatch ? (amountMatch?.[2] || tokenMatch[1]).toUpperCase() : null
+  let network = findNetwork(rest)
+  // 没有金额时单独出现的 “sol” 多半指网络而不是代币
+  if (token === 'SOL' && !amountMatch?.[2] && !network) {
+    token = null
+    network = 'solana'
+  }
+
+  const intent: PayIntent = {
+    type: 'pay',
+    amount: amountMatch ? amountMatch[1] : null,
+    token,
+    network,
+    resourceId: resourceMatch ? resourceMatch[1] : null
+  }
+  if (intent.amount || intent.token || intent.network || intent.resourceId || PAY_PATTERN.test(text)) {
+    return intent
+  }
+  return { type: 'unknown' }
+}
+
+export const createRuleIntentParser = (): IntentParser => ({
+  parse: async (text) => parseIntentRules(text)
+})
+
+// 按意图里的网络、代币筛选 accept，返回在 accepts 中的下标
+export const matchAccepts = (accepts: PaymentAccept[], intent: Pick<PayIntent, 'network' | 'token'>): number[] =>
+  accepts
+    .map((accept, index) => ({ accept, index }))
+    .filter(({ accept }) => !intent.network || normalizeNetwork(accept.network) === normalizeNetwork(intent.network))
+    .filter(({ accept }) => !intent.token || (accept.symbol || '').toUpperCase() === intent.token.toUpperCase())
+    .map(({ index }) => index)
+
+// LLM 只负责把自然语言翻译成 JSON，适配器可以对接任意模型服务
+export interface LlmIntentAdapter {
+  complete: (prompt: { system: string; user: string }) => Promise<string>
+}
+
+const INTENT_TYPES: PaymentIntent['type'][] = ['pay', 'confirm', 'retry', 'balance', 'cancel', 'help', 'unknown']
+
+const buildSystemPrompt = (context: IntentContext): string =>
+  [
+    'You turn a user message in a crypto payment chat into one JSON object and output nothing else.',
+    `"type" is one of ${INTENT_TYPES.map((type) => `"${type}"`).join(', ')}.`,
+    'For "pay" also set "amount" (decimal string), "token" (symbol), "network" and "resourceId"; use null for anything the user did not say.',
+    `Current step: ${context.step}.`,
+    context.options.length
+      ? `Payment options: ${context.options.map((option) => `${option.network} ${option.symbol}`).join('; ')}.`
+      : 'No payment options yet.'
+  ].join('\n')
+
+const toNullableString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : null
+
+// 模型输出不可信：只接受约定的字段，金额、资源 ID 格式不对时当作未提供
+export const parseIntentJson = (output: string): PaymentIntent | null => {
+  const json = output.match(/\{[\s\S]*\}/)
+  if (!json) return null
+  let value: Record<string, unknown>
+  try {
+    value = JSON.parse(json[0])
+  } catch {
+    return null
+  }
+  const type = value?.type as PaymentIntent['type']
+  if (!INTENT_TYPES.includes(type)) return null
+  if (type !== 'pay') return { type } as PaymentIntent
+
+  const amount = toNullableString(value.amount)
+  const resourceId = toNullableString(value.resourceId)
+  const network = toNullableString(value.network)
+  return {
+    type,
+    amount: amount && /^\d+(\.\d+)?$/.test(amount) ? amount : null,
+    token: toNullableString(value.token)?.toUpperCase() || null,
+    network: network ? normalizeNetwork(network) : null,
+    resourceId: resourceId && /^[A-Za-z0-9_-]{1,64}$/.test(resourceId) ? resourceId : null
+  }
+}
+
+export interface LlmIntentParserOptions {
+  adapter: LlmIntentAdapter
+  // 模型不可用或输出无法解析时使用，默认规则解析
+  fallback?: IntentParser
+  // 改用 fallback 时回调原因：模型调用失败或输出无法解析
+  onFallback?: (reason: string) => void
+}
+
+export const createLlmIntentParser = ({ adapter, fallback = createRuleIntentParser(), onFallback }: LlmIntentParserOptions): IntentParser => ({
+  parse: async (text, context) => {
+    try {
+      const intent = parseIntentJson(await adapter.complete({ system: buildSystemPrompt(context), user: text }))
+      if (intent) return intent
+      onFallback?.('LLM intent output could not be parsed')
+    } catch (error) {
+      onFallback?.(`LLM intent adapter failed: ${getErrorMessage(error)}`)
+    }
+    return fallback.parse(text, context)
+  }
+})
+
+// 本地桩：不调用任何模型，按规则解析后以 JSON 返回，用于离线联调 LLM 路径
+export const createStubLlmAdapter = (): LlmIntentAdapter => ({
+  complete: async ({ user }) => JSON.stringify(parseIntentRules(user))
+})
@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createPaymentMachine, initialPaymentState, transitionPayment, type PaymentEvent, type PaymentState } from './machine'
+import { accept } from './testFixtures'
+import type { OrderStatus, PaymentResponse, X402Transfer } from './types'
+
+const challenge: PaymentResponse = { x402Version: 1, orderId: 'CO1', accepts: [accept], receivedAt: Date.now() }
+
+const transfer = (txHash: string, orderId = 'CO1'): X402Transfer => ({
+  accept,
+  orderId,
+  amount: '2.6',
+  amountInSmallestUnit: BigInt(2_600_000),
+  decimals: 6,
+  txHash
+})
+
+const partialStatus: OrderStatus = {
+  orderId: 'CO1',
+  orderStatus: 'pending',
+  message: 'Partially paid',
+  payStatus: 'Partially Paid',
+  paidAmount: '1300000',
+  transactionFee: '0',
+  gasFee: '0',
+  txHash: 'tx1'
+}
+
+const run = (events: PaymentEvent[], from: PaymentState = initialPaymentState): PaymentState => events.reduce(transitionPayment, from)
+
+const TO_CONFIRM: PaymentEvent[] = [
+  { type: 'START', resourceid: 'res1' },
+  { type: 'CHALLENGE_RECEIVED', challenge, accepts: challenge.accepts },
+  { type: 'NETWORK_SELECTED', accept, decimals: 6 },
+  { type: 'AMOUNT_SELECTED', amount: '2.6', amountInSmallestUnit: '2600000', estimate: null }
+]
+
+const TO_PENDING_CONFIRM: PaymentEvent[] = [...TO_CONFIRM, { type: 'TRANSFER_STARTED' }, { type: 'TRANSFER_SENT', transfer: transfer('tx1') }]
+
+const TO_PARTIALLY_PAID: PaymentEvent[] = [...TO_PENDING_CONFIRM, { type: 'PARTIALLY_PAID', status: partialStatus, shortfall: '1300000' }]
+
+test('正常流程走到 success', () => {
+  const state = run([...TO_PENDING_CONFIRM, { type: 'SETTLED', record: null }])
+  assert.equal(state.step, 'success')
+  assert.equal(state.context.transfer?.txHash, 'tx1')
+  assert.equal(state.context.orderId, 'CO1')
+})
+
+test('确认转账双击：第二次 TRANSFER_STARTED 被忽略', () => {
+  const pending = run([...TO_CONFIRM, { type: 'TRANSFER_STARTED' }])
+  assert.equal(pending.step, 'pending_transfer')
+  assert.equal(transitionPayment(pending, { type: 'TRANSFER_STARTED' }), pending)
+})
+
+test('重复事件原样返回 state', () => {
+  const confirming = run(TO_PENDING_CONFIRM)
+  assert.equal(transitionPayment(confirming, { type: 'TRANSFER_SENT', transfer: transfer('tx2') }), confirming)
+  assert.equal(transitionPayment(confirming, { type: 'CHALLENGE_RECEIVED', challenge, accepts: challenge.accepts }), confirming)
+
+  const settled = transitionPayment(confirming, { type: 'SETTLED', record: null })
+  assert.equal(transitionPayment(settled, { type: 'SETTLED', record: null }), settled)
+  assert.equal(transitionPayment(settled, { type: 'FAILED', error: 'late' }), settled)
+})
+
+test('处理中不能 START 新订单，部分到账时也不能', () => {
+  for (const events of [TO_PENDING_CONFIRM, TO_PARTIALLY_PAID]) {
+    const state = run(events)
+    assert.equal(transitionPayment(state, { type: 'START', resourceid: 'res2' }), state)
+  }
+})
+
+test('补款双击：第二次 TOP_UP_STARTED 被忽略，首笔只记入一次', () => {
+  const toppingUp = run([...TO_PARTIALLY_PAID, { type: 'TOP_UP_STARTED' }])
+  assert.equal(toppingUp.step, 'pending_transfer')
+  assert.equal(transitionPayment(toppingUp, { type: 'TOP_UP_STARTED' }), toppingUp)
+  assert.deepEqual(toppingUp.context.previousTransfers.map((item) => item.txHash), ['tx1'])
+})
+
+test('补款失败后重试确认再补款，previousTransfers 不重复', () => {
+  const state = run([
+    ...TO_PARTIALLY_PAID,
+    { type: 'TOP_UP_STARTED' },
+    { type: 'FAILED', error: '钱包拒绝', retryTransfer: transfer('tx1') },
+    { type: 'CONFIRM_RETRY' },
+    { type: 'PARTIALLY_PAID', status: partialStatus, shortfall: '1300000' },
+    { type: 'TOP_UP_STARTED' }
+  ])
+  assert.equal(state.step, 'pending_transfer')
+  assert.deepEqual(state.context.previousTransfers.map((item) => item.txHash), ['tx1'])
+})
+
+test('PARTIALLY_PAID 差额必须为正整数', () => {
+  const confirming = run(TO_PENDING_CONFIRM)
+  for (const shortfall of ['0', '-1', '1.5', '']) {
+    assert.equal(transitionPayment(confirming, { type: 'PARTIALLY_PAID', status: partialStatus, shortfall }), confirming)
+  }
+})
+
+test('选择阶段和部分到账时可以取消，回到初始状态', () => {
+  for (const count of [2, 3, 4]) {
+    assert.equal(run([...TO_CONFIRM.slice(0, count), { type: 'CANCEL' }]), initialPaymentState)
+  }
+  assert.equal(run([{ type: 'START', resourceid: 'res1' }, { type: 'CANCEL' }]), initialPaymentState)
+  assert.equal(run([...TO_PARTIALLY_PAID, { type: 'CANCEL' }]), initialPaymentState)
+})
+
+test('转账发出后不能取消', () => {
+  const pending = run([...TO_CONFIRM, { type: 'TRANSFER_STARTED' }])
+  assert.equal(transitionPayment(pending, { type: 'CANCEL' }), pending)
+  const confirming = transitionPayment(pending, { type: 'TRANSFER_SENT', transfer: transfer('tx1') })
+  assert.equal(transitionPayment(confirming, { type: 'CANCEL' }), confirming)
+})
+
+test('失败后只有可以重试确认时才能取消', () => {
+  const retryable = run([...TO_PENDING_CONFIRM, { type: 'FAILED', error: '网关超时', retryTransfer: transfer('tx1') }])
+  assert.equal(transitionPayment(retryable, { type: 'CANCEL' }), initialPaymentState)
+
+  const final = run([...TO_CONFIRM, { type: 'FAILED', error: '余额不足' }])
+  assert.equal(transitionPayment(final, { type: 'CANCEL' }), final)
+})
+
+test('取消后迟到的事件被忽略', () => {
+  const cancelled = run([...TO_CONFIRM, { type: 'CANCEL' }])
+  const late: PaymentEvent[] = [
+    { type: 'CHALLENGE_RECEIVED', challenge, accepts: challenge.accepts },
+    { type: 'TRANSFER_SENT', transfer: transfer('tx1') },
+    { type: 'PARTIALLY_PAID', status: partialStatus, shortfall: '1300000' },
+    { type: 'SETTLED', record: null },
+    { type: 'FAILED', error: 'late' }
+  ]
+  for (const event of late) {
+    assert.equal(transitionPayment(cancelled, event), cancelled)
+  }
+})
+
+test('新订单开始后，上一单迟到的 TRANSFER_SENT 被忽略', () => {
+  const failed = run([...TO_CONFIRM, { type: 'FAILED', error: '余额不足' }])
+  const restarted = run(
+    [
+      { type: 'START', resourceid: 'res2' },
+      { type: 'CHALLENGE_RECEIVED', challenge: { ...challenge, orderId: 'CO2' }, accepts: challenge.accepts },
+      { type: 'NETWORK_SELECTED', accept, decimals: 6 },
+      { type: 'AMOUNT_SELECTED', amount: '2.6', amountInSmallestUnit: '2600000', estimate: null },
+      { type: 'TRANSFER_STARTED' }
+    ],
+    failed
+  )
+  assert.equal(restarted.context.orderId, 'CO2')
+  assert.equal(transitionPayment(restarted, { type: 'TRANSFER_SENT', transfer: transfer('tx1', 'CO1') }), restarted)
+  assert.equal(transitionPayment(restarted, { type: 'TRANSFER_SENT', transfer: transfer('tx2', 'CO2') }).step, 'pending_confirm')
+})
+
+test('挑战过期后旧报价的 NETWORK_SELECTED 被忽略', () => {
+  const expired = run([...TO_CONFIRM.slice(0, 2), { type: 'CHALLENGE_EXPIRED' }])
+  assert.equal(expired.step, 'pending_payment_info')
+  assert.equal(transitionPayment(expired, { type: 'NETWORK_SELECTED', accept, decimals: 6 }), expired)
+})
+
+test('CONFIRM_RETRY 只在失败且保留了链上交易时生效，且只生效一次', () => {
+  const retryable = run([...TO_PENDING_CONFIRM, { type: 'FAILED', error: '网关超时', retryTransfer: transfer('tx1') }])
+  assert.equal(retryable.context.canRetryConfirm, true)
+
+  const retrying = transitionPayment(retryable, { type: 'CONFIRM_RETRY' })
+  assert.equal(retrying.step, 'pending_confirm')
+  assert.equal(retrying.context.canRetryConfirm, false)
+  assert.equal(retrying.context.error, null)
+  assert.equal(transitionPayment(retrying, { type: 'CONFIRM_RETRY' }), retrying)
+})
+
+test('没有可重试的交易时 CONFIRM_RETRY 被忽略', () => {
+  // 转账本身失败：没有 retryTransfer
+  const transferFailed = run([...TO_CONFIRM, { type: 'TRANSFER_STARTED' }, { type: 'FAILED', error: '钱包拒绝' }])
+  assert.equal(transferFailed.context.canRetryConfirm, false)
+  assert.equal(transitionPayment(transferFailed, { type: 'CONFIRM_RETRY' }), transferFailed)
+
+  // 确认被网关明确拒绝：保留交易用于展示，但不允许重试
+  const rejected = run([...TO_PENDING_CONFIRM, { type: 'FAILED', error: 'invalid_payment' }])
+  assert.equal(rejected.context.transfer?.txHash, 'tx1')
+  assert.equal(transitionPayment(rejected, { type: 'CONFIRM_RETRY' }), rejected)
+
+  assert.equal(transitionPayment(run(TO_PENDING_CONFIRM), { type: 'CONFIRM_RETRY' }).step, 'pending_confirm')
+  assert.equal(transitionPayment(initialPaymentState, { type: 'CONFIRM_RETRY' }), initialPaymentState)
+})
+
+test('RESUME 只在空闲时生效', () => {
+  const resumed = transitionPayment(initialPaymentState, { type: 'RESUME', resourceid: 'res1', orderId: 'CO1', transfer: transfer('tx1') })
+  assert.equal(resumed.step, 'pending_confirm')
+  assert.equal(resumed.context.amountInSmallestUnit, '2600000')
+
+  const selecting = run(TO_CONFIRM)
+  assert.equal(transitionPayment(selecting, { type: 'RESUME', resourceid: 'res1', orderId: 'CO1', transfer: null }), selecting)
+})
+
+test('RESUME 还原补款订单此前的转账，完成后仍可补款且不重复记录', () => {
+  const resumed = transitionPayment(initialPaymentState, {
+    type: 'RESUME',
+    resourceid: 'res1',
+    orderId: 'CO1',
+    transfer: transfer('tx2'),
+    previousTransfers: [transfer('tx1')]
+  })
+  assert.deepEqual(resumed.context.previousTransfers.map((item) => item.txHash), ['tx1'])
+
+  const toppingUp = run([{ type: 'PARTIALLY_PAID', status: partialStatus, shortfall: '100' }, { type: 'TOP_UP_STARTED' }], resumed)
+  assert.deepEqual(toppingUp.context.previousTransfers.map((item) => item.txHash), ['tx1', 'tx2'])
+})
+
+test('createPaymentMachine：被忽略的事件返回 false 并回调 onIgnored，不通知订阅者', () => {
+  const ignored: string[] = []
+  const machine = createPaymentMachine(initialPaymentState, {
+    onIgnored: (event, state) => ignored.push(`${event.type}@${state.step}`)
+  })
+  let notified = 0
+  machine.subscribe(() => notified++)
+
+  assert.equal(machine.send({ type: 'START', resourceid: 'res1' }), true)
+  assert.equal(machine.send({ type: 'START', resourceid: 'res2' }), false)
+  assert.equal(machine.send({ type: 'TRANSFER_STARTED' }), false)
+
+  assert.equal(notified, 1)
+  assert.deepEqual(ignored, ['START@pending_payment_info', 'TRANSFER_STARTED@pending_payment_info'])
+  assert.equal(machine.getState().context.resourceid, 'res1')
+})
+
+test('createPaymentMachine：CANCEL 中止上一轮的异步任务', () => {
+  const machine = createPaymentMachine()
+  machine.send({ type: 'START', resourceid: 'res1' })
+  const signal = machine.signal()
+
+  machine.send({ type: 'CHALLENGE_RECEIVED', challenge, accepts: challenge.accepts })
+  assert.equal(signal.aborted, false)
+
+  machine.send({ type: 'CANCEL' })
+  assert.equal(signal.aborted, true)
+  assert.equal(machine.signal().aborted, false)
+  assert.equal(machine.getState(), initialPaymentState)
+})
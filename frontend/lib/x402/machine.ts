@@ -0,0 +1,265 @@
+import type { TransferFeeEstimate } from './schemes/types'
+import type { OrderStatus, PaymentAccept, PaymentRecord, PaymentResponse, X402Transfer } from './types'
+
+export type PaymentStep =
+  | 'start'
+  | 'pending_payment_info'
+  | 'select_network'
+  | 'select_amount'
+  | 'confirm_transfer'
+  | 'pending_transfer'
+  | 'pending_confirm'
+  | 'partially_paid'
+  | 'success'
+  | 'failed'
+
+// 流程中累积的数据，异步回调一律从这里读取，不依赖渲染时闭包里的旧值
+export interface PaymentContext {
+  resourceid: string
+  challenge: PaymentResponse | null
+  // 已过滤为有 handler 的选项
+  accepts: PaymentAccept[]
+  accept: PaymentAccept | null
+  decimals: number
+  amount: string
+  amountInSmallestUnit: string
+  // 用户确认前展示的费用；链上不支持估算时为 null
+  estimate: TransferFeeEstimate | null
+  // 交易已发出后才有；失败时保留，用于展示和重试确认
+  transfer: X402Transfer | null
+  // 部分到账后补款时，同一订单此前已确认过的转账
+  previousTransfers: X402Transfer[]
+  // partially_paid 时网关返回的订单状态与待补足的差额（最小单位）
+  orderStatus: OrderStatus | null
+  shortfall: string
+  // 恢复流程没有 challenge 时，orderId 从会话中带入
+  orderId: string
+  completed: PaymentRecord | null
+  error: string | null
+  // 已有链上交易且可以重发同一个 X-PAYMENT
+  canRetryConfirm: boolean
+}
+
+export interface PaymentState {
+  step: PaymentStep
+  context: PaymentContext
+}
+
+export type PaymentEvent =
+  | { type: 'START'; resourceid: string }
+  | { type: 'CHALLENGE_RECEIVED'; challenge: PaymentResponse; accepts: PaymentAccept[] }
+  | { type: 'ALREADY_PAID' }
+  | { type: 'CHALLENGE_EXPIRED' }
+  | { type: 'NETWORK_SELECTED'; accept: PaymentAccept; decimals: number }
+  | { type: 'AMOUNT_SELECTED'; amount: string; amountInSmallestUnit: string; estimate: TransferFeeEstimate | null }
+  | { type: 'TRANSFER_STARTED' }
+  | { type: 'TRANSFER_SENT'; transfer: X402Transfer }
+  | { type: 'CONFIRM_RETRY' }
+  | { type: 'PARTIALLY_PAID'; status: OrderStatus; shortfall: string }
+  | { type: 'TOP_UP_STARTED' }
+  // previousTransfers：补款订单在当前交易之前已提交的转账
+  | { type: 'RESUME'; resourceid: string; orderId: string; transfer: X402Transfer | null; previousTransfers?: X402Transfer[] }
+  | { type: 'SETTLED'; record: PaymentRecord | null }
+  // retryTransfer：失败时已有链上交易，允许之后重试确认
+  | { type: 'FAILED'; error: string; retryTransfer?: X402Transfer }
+  | { type: 'CANCEL' }
+
+export const createInitialPaymentContext = (resourceid = ''): PaymentContext => ({
+  resourceid,
+  challenge: null,
+  accepts: [],
+  accept: null,
+  decimals: 0,
+  amount: '',
+  amountInSmallestUnit: '',
+  estimate: null,
+  transfer: null,
+  previousTransfers: [],
+  orderStatus: null,
+  shortfall: '',
+  orderId: '',
+  completed: null,
+  error: null,
+  canRetryConfirm: false
+})
+
+export const initialPaymentState: PaymentState = { step: 'start', context: createInitialPaymentContext() }
+
+const IDLE_STEPS: PaymentStep[] = ['start', 'success', 'failed']
+const SELECTING_STEPS: PaymentStep[] = ['select_network', 'select_amount', 'confirm_transfer']
+const BUSY_STEPS: PaymentStep[] = ['pending_payment_info', 'pending_transfer', 'pending_confirm']
+
+export const isPaymentBusy = (state: PaymentState): boolean => BUSY_STEPS.includes(state.step)
+
+// 纯函数：事件在当前步骤不被允许或守卫不通过时原样返回 state，调用方据此判断是否继续
+export const transitionPayment = (state: PaymentState, event: PaymentEvent): PaymentState => {
+  const { step, context } = state
+  const to = (next: PaymentStep, patch: Partial<PaymentContext> = {}): PaymentState => ({
+    step: next,
+    context: { ...context, ...patch }
+  })
+
+  switch (event.type) {
+    case 'START':
+      // 处理中的订单不能被新订单覆盖，避免同时存在两笔转账；部分到账的订单需先补款或取消
+      if (isPaymentBusy(state) || step === 'partially_paid') return state
+      return { step: 'pending_payment_info', context: createInitialPaymentContext(event.resourceid) }
+
+    case 'CHALLENGE_RECEIVED':
+      if (step !== 'pending_payment_info' || !event.accepts.length) return state
+      return to('select_network', {
+        challenge: event.challenge,
+        accepts: event.accepts,
+        orderId: event.challenge.orderId,
+        accept: null,
+        amount: '',
+        amountInSmallestUnit: '',
+        estimate: null
+      })
+
+    case 'ALREADY_PAID':
+      return step === 'pending_payment_info' ? to('success') : state
+
+    case 'CHALLENGE_EXPIRED':
+      if (!SELECTING_STEPS.includes(step)) return state
+      return to('pending_payment_info', { challenge: null, accepts: [], accept: null, decimals: 0 })
+
+    case 'NETWORK_SELECTED':
+      if (!SELECTING_STEPS.includes(step) || !context.accepts.includes(event.accept)) return state
+      return to('select_amount', { accept: event.accept, decimals: event.decimals, estimate: null })
+
+    case 'AMOUNT_SELECTED':
+      // 确认页上可以改金额，重新估算后停留在 confirm_transfer
+      if ((step !== 'select_amount' && step !== 'confirm_transfer') || !context.accept) return state
+      return to('confirm_transfer', {
+        amount: event.amount,
+        amountInSmallestUnit: event.amountInSmallestUnit,
+        estimate: event.estimate
+      })
+
+    case 'TRANSFER_STARTED':
+      // 只有用户在确认页明确确认后才转账；第二次点击到达时已处于 pending_transfer，被守卫拦下
+      if (step !== 'confirm_transfer' || !context.challenge || !context.accept) return state
+      return to('pending_transfer')
+
+    case 'TRANSFER_SENT':
+      if (step !== 'pending_transfer' || event.transfer.orderId !== context.orderId) return state
+      return to('pending_confirm', { transfer: event.transfer, orderStatus: null, shortfall: '' })
+
+    case 'CONFIRM_RETRY':
+      if (step !== 'failed' || !context.transfer || !context.canRetryConfirm) return state
+      return to('pending_confirm', { canRetryConfirm: false, error: null })
+
+    case 'PARTIALLY_PAID':
+      if (step !== 'pending_confirm' || !context.transfer || !/^\d+$/.test(event.shortfall) || BigInt(event.shortfall) <= BigInt(0)) {
+        return state
+      }
+      return to('partially_paid', { orderStatus: event.status, shortfall: event.shortfall })
+
+    case 'TOP_UP_STARTED':
+      // 补款沿用同一订单，已确认的转账移入 previousTransfers（补款失败后重试确认再补款时不重复记录）
+      // 第二次点击时已处于 pending_transfer，被守卫拦下
+      if (step !== 'partially_paid' || !context.transfer) return state
+      return to('pending_transfer', {
+        previousTransfers: [...context.previousTransfers.filter((item) => item.txHash !== context.transfer?.txHash), context.transfer]
+      })
+
+    case 'RESUME':
+      if (!IDLE_STEPS.includes(step)) return state
+      return {
+        step: 'pending_confirm',
+        context: {
+          ...createInitialPaymentContext(event.resourceid),
+          orderId: event.orderId,
+          transfer: event.transfer,
+          previousTransfers: event.previousTransfers ?? [],
+          accept: event.transfer?.accept ?? null,
+          decimals: event.transfer?.decimals ?? 0,
+          amount: event.transfer?.amount ?? '',
+          amountInSmallestUnit: event.transfer?.amountInSmallestUnit.toString() ?? ''
+        }
+      }
+
+    case 'SETTLED':
+      if (step !== 'pending_confirm') return state
+      return to('success', { completed: event.record, canRetryConfirm: false, error: null })
+
+    case 'FAILED':
+      if (IDLE_STEPS.includes(step)) return state
+      return to('failed', {
+        error: event.error,
+        transfer: event.retryTransfer ?? context.transfer,
+        canRetryConfirm: Boolean(event.retryTransfer)
+      })
+
+    case 'CANCEL':
+      // 已发出转账（pending_transfer / pending_confirm）后不能取消；部分到账时取消即放弃补款
+      if (
+        step !== 'pending_payment_info' &&
+        step !== 'partially_paid' &&
+        !SELECTING_STEPS.includes(step) &&
+        !(step === 'failed' && context.canRetryConfirm)
+      ) {
+        return state
+      }
+      return initialPaymentState
+  }
+}
+
+export interface PaymentMachine {
+  getState: () => PaymentState
+  // 同步更新状态，返回事件是否被接受
+  send: (event: PaymentEvent) => boolean
+  subscribe: (listener: (state: PaymentState) => void) => () => void
+  // 当前这一轮流程的取消信号，START / RESUME / CANCEL 会中止上一轮的轮询等异步任务
+  signal: () => AbortSignal
+  // 组件卸载时中止当前这一轮的异步任务，状态保持不变
+  abort: () => void
+}
+
+export interface PaymentMachineOptions {
+  // 事件被忽略（步骤不允许或守卫不通过）时回调，state 为忽略时的状态
+  onIgnored?: (event: PaymentEvent, state: PaymentState) => void
+}
+
+// 不依赖 React，脚本中可以直接驱动：machine.send({ type: 'START', resourceid: 'abc' })
+export const createPaymentMachine = (
+  initial: PaymentState = initialPaymentState,
+  options: PaymentMachineOptions = {}
+): PaymentMachine => {
+  let state = initial
+  let controller = new AbortController()
+  const listeners = new Set<(state: PaymentState) => void>()
+
+  const abort = () => {
+    controller.abort()
+    controller = new AbortController()
+  }
+
+  const send = (event: PaymentEvent): boolean => {
+    const next = transitionPayment(state, event)
+    if (next === state) {
+      options.onIgnored?.(event, state)
+      return false
+    }
+    if (event.type === 'START' || event.type === 'RESUME' || event.type === 'CANCEL') {
+      abort()
+    }
+    state = next
+    listeners.forEach((listener) => listener(state))
+    return true
+  }
+
+  return {
+    getState: () => state,
+    send,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    signal: () => controller.signal,
+    abort
+  }
+}
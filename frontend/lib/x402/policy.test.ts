@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createX402Client } from './client'
+import { createLocalSpendingLedger, createSpendingPolicyEngine, withSpendingPolicy } from './policy'
+import { accept } from './testFixtures'
+import type { PaymentResponse, X402Signer } from './types'
+import { UnconfirmedTransferError } from './utils'
+
+const challenge = (): PaymentResponse => ({ x402Version: 1, orderId: 'CO1', accepts: [accept], receivedAt: Date.now() })
+
+const request = (orderId: string) => ({ accept, orderId, amount: '2.6', amountInSmallestUnit: BigInt(2_600_000), decimals: 6 })
+
+const countingSigner = (): X402Signer => {
+  let sequence = 0
+  return { supports: () => true, pay: async () => `tx${++sequence}` }
+}
+
+test('部分支付后补款：两笔交易都计入当日与当月花费', async () => {
+  const engine = createSpendingPolicyEngine({ policy: { limits: { USDC: { daily: '100' } } }, ledger: createLocalSpendingLedger(undefined) })
+  const client = createX402Client({ signer: withSpendingPolicy(countingSigner(), engine) })
+
+  const first = await client.transfer(challenge(), accept)
+  await client.topUp(first, BigInt(1_300_000))
+
+  assert.deepEqual(engine.spent(accept, 6), { daily: '3.9', monthly: '3.9' })
+  assert.equal(engine.ledger.list().length, 2)
+})
+
+test('同一笔交易重复记录只计一次', () => {
+  const engine = createSpendingPolicyEngine({ policy: {}, ledger: createLocalSpendingLedger(undefined) })
+  engine.recordPayment(request('CO1'), 'tx1')
+  engine.recordPayment(request('CO1'), 'tx1')
+
+  assert.deepEqual(engine.spent(accept, 6), { daily: '2.6', monthly: '2.6' })
+})
+
+test('补款计入预算后，超出当日上限的下一笔被拒绝', async () => {
+  const engine = createSpendingPolicyEngine({ policy: { limits: { USDC: { daily: '5' } } }, ledger: createLocalSpendingLedger(undefined) })
+  const client = createX402Client({ signer: withSpendingPolicy(countingSigner(), engine) })
+
+  const first = await client.transfer(challenge(), accept)
+  await client.topUp(first, BigInt(1_300_000))
+
+  await assert.rejects(client.transfer({ ...challenge(), orderId: 'CO2' }, accept), { name: 'SpendingPolicyError' })
+})
+
+
+// pay 在 release 被调用前一直挂起，模拟等待钱包签名与上链
+const pendingSigner = () => {
+  const pending: { resolve: (txHash: string) => void; reject: (error: unknown) => void }[] = []
+  const signer: X402Signer = {
+    supports: () => true,
+    pay: () => new Promise<string>((resolve, reject) => pending.push({ resolve, reject }))
+  }
+  return { signer, pending }
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+test('并发支付按预留判定，不会一起超出当日预算', async () => {
+  const engine = createSpendingPolicyEngine({ policy: { limits: { USDC: { daily: '5' } } }, ledger: createLocalSpendingLedger(undefined) })
+  const { signer, pending } = pendingSigner()
+  const guarded = withSpendingPolicy(signer, engine)
+
+  const first = guarded.pay(request('CO1'))
+  await assert.rejects(guarded.pay(request('CO2')), { name: 'SpendingPolicyError' })
+  // 预留不算已花费
+  assert.deepEqual(engine.spent(accept, 6), { daily: '0', monthly: '0' })
+
+  pending[0].resolve('tx1')
+  assert.equal(await first, 'tx1')
+  assert.deepEqual(engine.spent(accept, 6), { daily: '2.6', monthly: '2.6' })
+  assert.deepEqual(
+    engine.ledger.list().map(({ txHash }) => txHash),
+    ['tx1']
+  )
+})
+
+test('广播前失败时撤销预留，之后的支付不受影响', async () => {
+  const engine = createSpendingPolicyEngine({ policy: { limits: { USDC: { daily: '3' } } }, ledger: createLocalSpendingLedger(undefined) })
+  const { signer, pending } = pendingSigner()
+  const guarded = withSpendingPolicy(signer, engine)
+
+  const rejected = guarded.pay(request('CO1'))
+  await flush()
+  pending[0].reject(new Error('User rejected the request.'))
+  await assert.rejects(rejected, /rejected/)
+  assert.deepEqual(engine.ledger.list(), [])
+
+  const retry = guarded.pay(request('CO1'))
+  await flush()
+  pending[1].resolve('tx2')
+  assert.equal(await retry, 'tx2')
+})
+
+test('广播后未能确认结果时按交易哈希记为支出', async () => {
+  const engine = createSpendingPolicyEngine({ policy: { limits: { USDC: { daily: '3' } } }, ledger: createLocalSpendingLedger(undefined) })
+  const { signer, pending } = pendingSigner()
+  const guarded = withSpendingPolicy(signer, engine)
+
+  const paying = guarded.pay(request('CO1'))
+  await flush()
+  pending[0].reject(new UnconfirmedTransferError('tx1', 'fetch failed'))
+  await assert.rejects(paying, { name: 'UnconfirmedTransferError' })
+
+  assert.deepEqual(engine.spent(accept, 6), { daily: '2.6', monthly: '2.6' })
+  assert.deepEqual(
+    engine.ledger.list().map(({ txHash }) => txHash),
+    ['tx1']
+  )
+  await assert.rejects(guarded.pay(request('CO2')), { name: 'SpendingPolicyError' })
+})
+
+test('人工拒绝时撤销预留，判定经 onDecision 回调', async () => {
+  const decisions: string[] = []
+  const engine = createSpendingPolicyEngine({
+    policy: { limits: { USDC: { daily: '5', approvalAbove: '1' } } },
+    ledger: createLocalSpendingLedger(undefined),
+    onDecision: (entry) => decisions.push(`${entry.outcome}:${entry.rule}`)
+  })
+  const guarded = withSpendingPolicy(countingSigner(), engine, { requestApproval: async () => false })
+
+  await assert.rejects(guarded.pay(request('CO1')), { name: 'SpendingPolicyError' })
+
+  assert.deepEqual(engine.ledger.list(), [])
+  assert.deepEqual(decisions, ['require_approval:limits.approvalAbove', 'rejected:approval'])
+})
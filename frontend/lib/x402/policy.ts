@@ -0,0 +1,486 @@
+import type { PaymentAccept, X402Signer, X402TransferRequest } from './types'
+import { amountToSmallestUnit, formatSmallestUnit, getErrorMessage, normalizeNetwork, UnconfirmedTransferError } from './utils'
+
+// 金额一律写成代币单位的十进制字符串，例如 '5' 表示 5 USDC
+export interface SpendingLimits {
+  perPayment?: string
+  // 自然日 / 自然月（本地时间）内的累计上限
+  daily?: string
+  monthly?: string
+  // 单笔超过该金额时需要人工批准
+  approvalAbove?: string
+}
+
+export interface NetworkRule {
+  // false 时该网络上的支付一律拒绝
+  allowed?: boolean
+  // 覆盖全局限额中的同名字段
+  limits?: Record<string, SpendingLimits>
+}
+
+// limits 的键为代币符号（大写），'*' 作用于所有代币，符号上的配置覆盖 '*'
+export interface SpendingPolicy {
+  limits?: Record<string, SpendingLimits>
+  // 键为规范网络名（solana、base、bsc 等）或 accept.network 原文
+  networks?: Record<string, NetworkRule>
+  allowPayTo?: string[]
+  denyPayTo?: string[]
+  // 资源 URI，末尾的 * 表示前缀匹配
+  allowResources?: string[]
+  denyResources?: string[]
+}
+
+export type PolicyOutcome = 'allow' | 'deny' | 'require_approval'
+
+export interface PolicyDecision {
+  outcome: PolicyOutcome
+  // 命中的规则，例如 limits.daily、denyPayTo
+  rule: string
+  reason: string
+}
+
+// 已完成的支付，按资产累计预算；每笔交易一条，部分支付后的补款与首笔各占一条。
+// 通过判定后先按 reservationId 预留（txHash 为空），得到交易哈希后原地转为支出，预留同样计入预算
+export interface SpendingEntry {
+  orderId: string
+  network: string
+  asset: string
+  symbol: string
+  payTo: string
+  resource: string
+  amount: string
+  amountInSmallestUnit: string
+  decimals: number
+  txHash: string
+  at: number
+  reservationId?: string
+}
+
+// 每次判定及人工批准结果都会记录原因，便于事后审计
+export interface PolicyLogEntry {
+  at: number
+  orderId: string
+  network: string
+  symbol: string
+  payTo: string
+  resource: string
+  amount: string
+  outcome: PolicyOutcome | 'approved' | 'rejected'
+  rule: string
+  reason: string
+}
+
+export interface SpendingLedger {
+  // 替换同一 txHash 或同一 reservationId 的旧条目
+  record: (entry: SpendingEntry) => void
+  release: (reservationId: string) => void
+  list: () => SpendingEntry[]
+  logDecision: (entry: PolicyLogEntry) => void
+  decisions: () => PolicyLogEntry[]
+}
+
+export const SPENDING_LEDGER_STORAGE_KEY = 'x402:spending-ledger'
+// 月度预算最多回看一个自然月，多留一些余量
+const LEDGER_RETENTION_MS = 62 * 24 * 60 * 60 * 1000
+// 页面在支付中途关闭时预留不会被撤销，超过该时间的预留不再计入预算
+const RESERVATION_TTL_MS = 30 * 60 * 1000
+const MAX_DECISIONS = 200
+
+interface LedgerData {
+  entries: SpendingEntry[]
+  decisions: PolicyLogEntry[]
+}
+
+// 与会话存储一样，storage 缺失（SSR、Node 脚本）时退化为内存存储
+export const createLocalSpendingLedger = (
+  storage: Storage | undefined = typeof window === 'undefined' ? undefined : window.localStorage,
+  key: string = SPENDING_LEDGER_STORAGE_KEY,
+  // 账本无法解析或写入失败时回调，读取失败按空账本计算预算
+  onError?: (error: unknown) => void
+): SpendingLedger => {
+  let memory: LedgerData = { entries: [], decisions: [] }
+
+  const read = (): LedgerData => {
+    if (!storage) return memory
+    try {
+      const parsed = JSON.parse(storage.getItem(key) || '{}')
+      return {
+        entries: Array.isArray(parsed?.entries) ? parsed.entries : [],
+        decisions: Array.isArray(parsed?.decisions) ? parsed.decisions : []
+      }
+    } catch (error) {
+      onError?.(error)
+      return { entries: [], decisions: [] }
+    }
+  }
+
+  const write = (data: LedgerData) => {
+    const cutoff = Date.now() - LEDGER_RETENTION_MS
+    const kept: LedgerData = {
+      entries: data.entries.filter((entry) => entry.at >= cutoff),
+      decisions: data.decisions.slice(-MAX_DECISIONS)
+    }
+    if (!storage) {
+      memory = kept
+      return
+    }
+    try {
+      storage.setItem(key, JSON.stringify(kept))
+    } catch (error) {
+      onError?.(error)
+    }
+  }
+
+  return {
+    record: (entry) => {
+      const data = read()
+      // 同一笔交易只记一次，重试确认不会重复计入预算；补款沿用 orderId 但是新的交易，与首笔分别计入
+      const replaces = (item: SpendingEntry) =>
+        (entry.txHash !== '' && item.txHash === entry.txHash) || (entry.reservationId !== undefined && item.reservationId === entry.reservationId)
+      write({ ...data, entries: [...data.entries.filter((item) => !replaces(item)), entry] })
+    },
+    release: (reservationId) => {
+      const data = read()
+      write({ ...data, entries: data.entries.filter((item) => item.txHash !== '' || item.reservationId !== reservationId) })
+    },
+    list: () => read().entries,
+    logDecision: (entry) => {
+      const data = read()
+      write({ ...data, decisions: [...data.decisions, entry] })
+    },
+    decisions: () => read().decisions
+  }
+}
+
+const startOfDay = (at: number): number => {
+  const date = new Date(at)
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+}
+
+const startOfMonth = (at: number): number => {
+  const date = new Date(at)
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime()
+}
+
+const matchesResource = (patterns: string[], resource: string): boolean =>
+  patterns.some((pattern) => (pattern.endsWith('*') ? resource.startsWith(pattern.slice(0, -1)) : resource === pattern))
+
+const sameNetwork = (a: string, b: string): boolean => a === b || normalizeNetwork(a) === normalizeNetwork(b)
+
+const findNetworkRule = (policy: SpendingPolicy, network: string): NetworkRule | undefined =>
+  policy.networks?.[network] ?? policy.networks?.[normalizeNetwork(network)]
+
+const symbolOf = (accept: PaymentAccept): string => (accept.symbol || accept.asset || '').toUpperCase()
+
+// 由宽到窄合并：全局 '*' → 全局符号 → 网络 '*' → 网络符号
+export const resolveSpendingLimits = (policy: SpendingPolicy, accept: PaymentAccept): SpendingLimits => {
+  const symbol = symbolOf(accept)
+  const networkLimits = findNetworkRule(policy, accept.network)?.limits
+  return {
+    ...policy.limits?.['*'],
+    ...policy.limits?.[symbol],
+    ...networkLimits?.['*'],
+    ...networkLimits?.[symbol]
+  }
+}
+
+export interface SpendingPolicyEngine {
+  // 判定并记录本次决定
+  evaluate: (request: X402TransferRequest) => PolicyDecision
+  // 人工批准或拒绝的结果
+  logApproval: (request: X402TransferRequest, approved: boolean, reason: string) => void
+  // 判定通过后立即调用，返回的 reservationId 交给 recordPayment 或 releaseReservation
+  reserve: (request: X402TransferRequest) => string
+  // 记一笔支出；传入 reservationId 时把对应的预留转为支出
+  recordPayment: (request: X402TransferRequest, txHash: string, reservationId?: string) => void
+  releaseReservation: (reservationId: string) => void
+  // 指定资产在当前自然日 / 自然月已花费的金额（代币单位），不含进行中的预留
+  spent: (accept: PaymentAccept, decimals: number) => { daily: string; monthly: string }
+  ledger: SpendingLedger
+}
+
+export interface SpendingPolicyEngineOptions {
+  policy: SpendingPolicy
+  ledger?: SpendingLedger
+  now?: () => number
+  // 每次判定与人工批准结果写入账本后回调
+  onDecision?: (entry: PolicyLogEntry) => void
+}
+
+export const createSpendingPolicyEngine = ({
+  policy,
+  ledger = createLocalSpendingLedger(),
+  now = Date.now,
+  onDecision
+}: SpendingPolicyEngineOptions): SpendingPolicyEngine => {
+  let reservationSequence = 0
+
+  // 预算判定同时计入未过期的预留；展示给用户的已花费只算已有交易的支出
+  const spentSince = (accept: PaymentAccept, since: number, includeReserved: boolean): bigint => {
+    const staleBefore = now() - RESERVATION_TTL_MS
+    return ledger
+      .list()
+      .filter((entry) => entry.at >= since && entry.asset === accept.asset && sameNetwork(entry.network, accept.network))
+      .filter((entry) => entry.txHash !== '' || (includeReserved && entry.at >= staleBefore))
+      .reduce((total, entry) => total + BigInt(entry.amountInSmallestUnit || '0'), BigInt(0))
+  }
+
+  const entryFor = (request: X402TransferRequest, txHash: string, reservationId?: string): SpendingEntry => {
+    const { accept } = request
+    return {
+      orderId: request.orderId,
+      network: accept.network,
+      asset: accept.asset,
+      symbol: symbolOf(accept),
+      payTo: accept.payTo,
+      resource: accept.resource || '',
+      amount: request.amount,
+      amountInSmallestUnit: request.amountInSmallestUnit.toString(),
+      decimals: request.decimals,
+      txHash,
+      at: now(),
+      ...(reservationId !== undefined ? { reservationId } : {})
+    }
+  }
+
+  const log = (request: X402TransferRequest, outcome: PolicyLogEntry['outcome'], rule: string, reason: string) => {
+    const { accept } = request
+    const entry: PolicyLogEntry = {
+      at: now(),
+      orderId: request.orderId,
+      network: accept.network,
+      symbol: symbolOf(accept),
+      payTo: accept.payTo,
+      resource: accept.resource || '',
+      amount: request.amount,
+      outcome,
+      rule,
+      reason
+    }
+    ledger.logDecision(entry)
+    onDecision?.(entry)
+  }
+
+  const decide = ({ accept, amountInSmallestUnit, decimals }: X402TransferRequest): PolicyDecision => {
+    const symbol = symbolOf(accept)
+    const resource = accept.resource || ''
+    const deny = (rule: string, reason: string): PolicyDecision => ({ outcome: 'deny', rule, reason })
+
+    if (findNetworkRule(policy, accept.network)?.allowed === false) {
+      return deny('networks.allowed', `不允许在 ${accept.network} 上支付`)
+    }
+    if (policy.denyPayTo?.includes(accept.payTo)) {
+      return deny('denyPayTo', `收款地址 ${accept.payTo} 在禁止列表中`)
+    }
+    if (policy.allowPayTo?.length && !policy.allowPayTo.includes(accept.payTo)) {
+      return deny('allowPayTo', `收款地址 ${accept.payTo} 不在允许列表中`)
+    }
+    if (policy.denyResources?.length && matchesResource(policy.denyResources, resource)) {
+      return deny('denyResources', `资源 ${resource} 在禁止列表中`)
+    }
+    if (policy.allowResources?.length && !matchesResource(policy.allowResources, resource)) {
+      return deny('allowResources', `资源 ${resource || '(未声明)'} 不在允许列表中`)
+    }
+
+    const limits = resolveSpendingLimits(policy, accept)
+    const toUnits = (value: string) => amountToSmallestUnit(value, decimals)
+    const format = (value: bigint) => `${formatSmallestUnit(value, decimals)} ${symbol}`
+
+    if (limits.perPayment !== undefined && amountInSmallestUnit > toUnits(limits.perPayment)) {
+      return deny('limits.perPayment', `单笔金额 ${format(amountInSmallestUnit)} 超过上限 ${limits.perPayment} ${symbol}`)
+    }
+    const at = now()
+    const budgets: [keyof SpendingLimits, string, number][] = [
+      ['daily', '今日', startOfDay(at)],
+      ['monthly', '本月', startOfMonth(at)]
+    ]
+    for (const [field, label, since] of budgets) {
+      const budget = limits[field]
+      if (budget === undefined) continue
+      const spent = spentSince(accept, since, true)
+      if (spent + amountInSmallestUnit > toUnits(budget)) {
+        return deny(`limits.${field}`, `${label}已花费 ${format(spent)}，再付 ${format(amountInSmallestUnit)} 将超过预算 ${budget} ${symbol}`)
+      }
+    }
+    if (limits.approvalAbove !== undefined && amountInSmallestUnit > toUnits(limits.approvalAbove)) {
+      return {
+        outcome: 'require_approval',
+        rule: 'limits.approvalAbove',
+        reason: `金额 ${format(amountInSmallestUnit)} 超过 ${limits.approvalAbove} ${symbol}，需要人工批准`
+      }
+    }
+    return { outcome: 'allow', rule: 'default', reason: '在策略范围内' }
+  }
+
+  return {
+    evaluate: (request) => {
+      let decision: PolicyDecision
+      try {
+        decision = decide(request)
+      } catch (error) {
+        // 策略里的金额写错时拒绝支付，而不是放行
+        decision = { outcome: 'deny', rule: 'policy', reason: `支出策略配置有误：${getErrorMessage(error)}` }
+      }
+      log(request, decision.outcome, decision.rule, decision.reason)
+      return decision
+    },
+    logApproval: (request, approved, reason) => log(request, approved ? 'approved' : 'rejected', 'approval', reason),
+    reserve: (request) => {
+      const reservationId = `${now()}-${++reservationSequence}-${Math.random().toString(36).slice(2, 10)}`
+      ledger.record(entryFor(request, '', reservationId))
+      return reservationId
+    },
+    recordPayment: (request, txHash, reservationId) => ledger.record(entryFor(request, txHash, reservationId)),
+    releaseReservation: (reservationId) => ledger.release(reservationId),
+    spent: (accept, decimals) => {
+      const at = now()
+      return {
+        daily: formatSmallestUnit(spentSince(accept, startOfDay(at), false), decimals),
+        monthly: formatSmallestUnit(spentSince(accept, startOfMonth(at), false), decimals)
+      }
+    },
+    ledger
+  }
+}
+
+// 策略拒绝或人工未批准时抛出，调用方可以据此区分于链上错误
+export class SpendingPolicyError extends Error {
+  constructor(readonly decision: PolicyDecision) {
+    super(`支出策略拒绝了这笔支付：${decision.reason}`)
+    this.name = 'SpendingPolicyError'
+  }
+}
+
+export interface SpendingPolicySignerOptions {
+  // 超过审批阈值时调用，返回 true 表示批准；未提供时一律拒绝
+  requestApproval?: (request: X402TransferRequest, decision: PolicyDecision) => Promise<boolean>
+}
+
+// 包装任意签名方：每次转账（或只签名）前判定并预留金额，成功后转为支出。无人值守的 agent 与聊天页共用同一套规则
+export const withSpendingPolicy = (
+  signer: X402Signer,
+  engine: SpendingPolicyEngine,
+  { requestApproval }: SpendingPolicySignerOptions = {}
+): X402Signer => {
+  // 钱包不支持只签名时，客户端会用同一个 request 改走 pay，沿用已有的预留，不重复判定与审批
+  const reservations = new WeakMap<X402TransferRequest, string>()
+
+  const authorize = async (request: X402TransferRequest): Promise<string> => {
+    const existing = reservations.get(request)
+    if (existing) return existing
+    const decision = engine.evaluate(request)
+    if (decision.outcome === 'deny') {
+      throw new SpendingPolicyError(decision)
+    }
+    // 判定与预留之间没有 await，并发的支付依次看到彼此的预留，不会一起越过预算
+    const reservationId = engine.reserve(request)
+    if (decision.outcome === 'require_approval') {
+      let approved = false
+      try {
+        approved = requestApproval ? await requestApproval(request, decision) : false
+      } finally {
+        if (!approved) engine.releaseReservation(reservationId)
+      }
+      engine.logApproval(request, approved, approved ? '已人工批准' : requestApproval ? '人工拒绝' : '无人值守，无法人工批准')
+      if (!approved) {
+        throw new SpendingPolicyError({ ...decision, outcome: 'deny', reason: `${decision.reason}，未获批准` })
+      }
+    }
+    reservations.set(request, reservationId)
+    return reservationId
+  }
+
+  // 签名方失败：已广播但结果未知的交易可能已经扣款，按支出记账；广播前就失败时撤销预留
+  const settleFailure = (request: X402TransferRequest, reservationId: string, error: unknown) => {
+    reservations.delete(request)
+    if (error instanceof UnconfirmedTransferError) {
+      engine.recordPayment(request, error.txHash, reservationId)
+    } else {
+      engine.releaseReservation(reservationId)
+    }
+  }
+
+  const { sign } = signer
+  return {
+    ...signer,
+    pay: async (request) => {
+      const reservationId = await authorize(request)
+      let txHash: string
+      try {
+        txHash = await signer.pay(request)
+      } catch (error) {
+        settleFailure(request, reservationId, error)
+        throw error
+      }
+      reservations.delete(request)
+      engine.recordPayment(request, txHash, reservationId)
+      return txHash
+    },
+    // 已签名的交易交出后任何人都能提交，签名即计入账本
+    sign:
+      sign &&
+      (async (request) => {
+        const reservationId = await authorize(request)
+        let signed: Awaited<ReturnType<typeof sign>>
+        try {
+          signed = await sign(request)
+        } catch (error) {
+          settleFailure(request, reservationId, error)
+          throw error
+        }
+        if (signed) {
+          reservations.delete(request)
+          engine.recordPayment(request, signed.txHash, reservationId)
+        }
+        return signed
+      })
+  }
+}
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+const LIMIT_FIELDS: (keyof SpendingLimits)[] = ['perPayment', 'daily', 'monthly', 'approvalAbove']
+
+const parseLimitsMap = (value: unknown, path: string): Record<string, SpendingLimits> => {
+  if (!value || typeof value !== 'object') throw new Error(`${path} 必须是对象`)
+  const result: Record<string, SpendingLimits> = {}
+  for (const [symbol, limits] of Object.entries(value as Record<string, unknown>)) {
+    if (!limits || typeof limits !== 'object') throw new Error(`${path}.${symbol} 必须是对象`)
+    const parsed: SpendingLimits = {}
+    for (const field of LIMIT_FIELDS) {
+      const amount = (limits as Record<string, unknown>)[field]
+      if (amount === undefined) continue
+      if (typeof amount !== 'string' && typeof amount !== 'number') throw new Error(`${path}.${symbol}.${field} 必须是金额`)
+      if (!/^\d+(\.\d+)?$/.test(String(amount))) throw new Error(`${path}.${symbol}.${field} 金额格式不正确：${amount}`)
+      parsed[field] = String(amount)
+    }
+    result[symbol === '*' ? symbol : symbol.toUpperCase()] = parsed
+  }
+  return result
+}
+
+// 从 JSON（例如环境变量）读取策略；格式不对时抛错，避免在没有限额的情况下放行
+export const parseSpendingPolicy = (json: string): SpendingPolicy => {
+  const value = JSON.parse(json) as Record<string, unknown>
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('支出策略必须是 JSON 对象')
+  const policy: SpendingPolicy = {}
+  if (value.limits !== undefined) policy.limits = parseLimitsMap(value.limits, 'limits')
+  for (const field of ['allowPayTo', 'denyPayTo', 'allowResources', 'denyResources'] as const) {
+    if (value[field] === undefined) continue
+    if (!isStringList(value[field])) throw new Error(`${field} 必须是字符串数组`)
+    policy[field] = value[field] as string[]
+  }
+  if (value.networks !== undefined) {
+    if (!value.networks || typeof value.networks !== 'object') throw new Error('networks 必须是对象')
+    policy.networks = {}
+    for (const [network, rule] of Object.entries(value.networks as Record<string, Record<string, unknown>>)) {
+      if (!rule || typeof rule !== 'object') throw new Error(`networks.${network} 必须是对象`)
+      if (rule.allowed !== undefined && typeof rule.allowed !== 'boolean') throw new Error(`networks.${network}.allowed 必须是布尔值`)
+      policy.networks[network] = {
+        allowed: rule.allowed as boolean | undefined,
+        limits: rule.limits !== undefined ? parseLimitsMap(rule.limits, `networks.${network}.limits`) : undefined
+      }
+    }
+  }
+  return policy
+}
@@ -0,0 +1,54 @@
+import type { OrderStatus } from './types'
+import { sleep } from './utils'
+
+export interface PollOrderStatusOptions {
+  intervalMs?: number
+  maxIntervalMs?: number
+  backoffFactor?: number
+  timeoutMs?: number
+  signal?: AbortSignal
+  onUpdate?: (status: OrderStatus) => void
+  // 单次查询失败时回调，轮询本身继续
+  onError?: (error: unknown) => void
+}
+
+export interface PollOrderStatusResult {
+  status: OrderStatus | null
+  timedOut: boolean
+}
+
+const FINAL_ORDER_STATUSES = ['confirmed', 'completed', 'success', 'failed', 'expired', 'cancelled', 'closed']
+
+// 已经有链上到账结果（含部分支付、超额支付）或订单已关闭，就不再继续轮询
+export const isOrderSettled = (status: OrderStatus): boolean =>
+  status.payStatus !== 'Not Paid' || FINAL_ORDER_STATUSES.includes((status.orderStatus || '').toLowerCase())
+
+export const pollOrderStatus = async (
+  fetchStatus: () => Promise<OrderStatus>,
+  options: PollOrderStatusOptions = {}
+): Promise<PollOrderStatusResult> => {
+  const { intervalMs = 2000, maxIntervalMs = 15000, backoffFactor = 1.5, timeoutMs = 120000, signal, onUpdate, onError } = options
+  const deadline = Date.now() + timeoutMs
+  let delay = intervalMs
+  let latest: OrderStatus | null = null
+
+  while (Date.now() < deadline) {
+    try {
+      latest = await fetchStatus()
+      signal?.throwIfAborted()
+      onUpdate?.(latest)
+      if (isOrderSettled(latest)) {
+        return { status: latest, timedOut: false }
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error
+      // 查询失败按网络抖动处理，继续退避重试直到超时
+      onError?.(error)
+    }
+
+    await sleep(Math.min(delay, Math.max(deadline - Date.now(), 0)), signal)
+    delay = Math.min(delay * backoffFactor, maxIntervalMs)
+  }
+
+  return { status: latest, timedOut: true }
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { GatewayHttpError, GatewayValidationError } from './gateway'
+import { retryConfirm } from './retry'
+import type { X402ConfirmResult } from './types'
+
+const confirmed = { status: 'confirmed' } as X402ConfirmResult
+
+// 前 failures 次抛出 error，之后确认成功
+const failingConfirm = (error: unknown, failures = 1) => {
+  let calls = 0
+  const confirm = async () => {
+    calls += 1
+    if (calls <= failures) throw error
+    return confirmed
+  }
+  return { confirm, calls: () => calls }
+}
+
+const OPTIONS = { initialDelayMs: 0 }
+
+test('断网（fetch 抛出 TypeError）时重试', async () => {
+  const { confirm, calls } = failingConfirm(new TypeError('fetch failed'))
+  assert.equal(await retryConfirm(confirm, OPTIONS), confirmed)
+  assert.equal(calls(), 2)
+})
+
+test('网关 5xx 时重试，超过次数后抛出最后一次的异常', async () => {
+  const error = new GatewayHttpError('PostOrder', 503, 'Service Unavailable')
+  const { confirm, calls } = failingConfirm(error, 10)
+  const retried: number[] = []
+
+  await assert.rejects(retryConfirm(confirm, { ...OPTIONS, retries: 2, onRetry: (attempt) => retried.push(attempt) }), error)
+  assert.equal(calls(), 3)
+  assert.deepEqual(retried, [1, 2])
+})
+
+test('响应校验失败不重试', async () => {
+  const error = new GatewayValidationError('PostOrder', 200, [], {})
+  const { confirm, calls } = failingConfirm(error)
+  await assert.rejects(retryConfirm(confirm, OPTIONS), error)
+  assert.equal(calls(), 1)
+})
+
+test('4xx 与其他异常不重试', async () => {
+  for (const error of [new GatewayHttpError('PostOrder', 403, 'Forbidden'), new Error('X-PAYMENT 编码失败')]) {
+    const { confirm, calls } = failingConfirm(error)
+    await assert.rejects(retryConfirm(confirm, OPTIONS), error)
+    assert.equal(calls(), 1)
+  }
+})
@@ -0,0 +1,55 @@
+import type { X402ConfirmResult } from './types'
+import { getErrorMessage, sleep } from './utils'
+
+export interface RetryConfirmOptions {
+  retries?: number
+  initialDelayMs?: number
+  maxDelayMs?: number
+  backoffFactor?: number
+  signal?: AbortSignal
+  // 每次重试前回调，attempt 从 1 开始
+  onRetry?: (attempt: number, reason: string, delayMs: number) => void
+}
+
+const isTransientStatus = (code: number): boolean => code >= 500 || code === 408 || code === 429
+
+// 网关 5xx、超时、限流视为暂时性失败；400 invalid_payment 等由用户决定是否手动重试
+export const isTransientConfirmFailure = (result: X402ConfirmResult): boolean =>
+  result.status === 'failed' && isTransientStatus(result.response.status)
+
+// 请求本身抛出的异常：fetch 断网时抛 TypeError、超时抛 TimeoutError，网关未声明的 5xx 抛出带 status 的异常（GatewayHttpError）；
+// 响应校验失败（GatewayValidationError）、请求参数错误等永久性错误重试也不会成功
+export const isTransientConfirmError = (error: unknown): boolean => {
+  if (error instanceof TypeError) return true
+  if (error instanceof Error && error.name === 'TimeoutError') return true
+  const status = (error as { status?: unknown } | null)?.status
+  return error instanceof Error && error.name !== 'GatewayValidationError' && typeof status === 'number' && isTransientStatus(status)
+}
+
+// 重发同一个 X-PAYMENT（相同 orderId / txHash），不会再次转账，网关按订单幂等处理
+export const retryConfirm = async (
+  confirm: () => Promise<X402ConfirmResult>,
+  options: RetryConfirmOptions = {}
+): Promise<X402ConfirmResult> => {
+  const { retries = 3, initialDelayMs = 1000, maxDelayMs = 8000, backoffFactor = 2, signal, onRetry } = options
+  let delay = initialDelayMs
+
+  for (let attempt = 0; ; attempt++) {
+    let reason: string
+    try {
+      const result = await confirm()
+      if (!isTransientConfirmFailure(result) || attempt >= retries) {
+        return result
+      }
+      reason = result.message
+    } catch (error) {
+      // 请求本身失败（断网、超时、5xx）同样按暂时性失败重试，其余异常直接抛出
+      if (signal?.aborted || attempt >= retries || !isTransientConfirmError(error)) throw error
+      reason = getErrorMessage(error)
+    }
+
+    onRetry?.(attempt + 1, reason, delay)
+    await sleep(delay, signal)
+    delay = Math.min(delay * backoffFactor, maxDelayMs)
+  }
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { test } from 'node:test'
+import { numberToHex, toFunctionSelector, type EIP1193Provider } from 'viem'
+import { createTestAccept } from '../testFixtures'
+import { ANVIL_CHAIN, createEvmSchemeHandler } from './evm'
+
+const PAYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+
+const accept = createTestAccept({
+  network: 'anvil',
+  asset: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+})
+
+// 只模拟钱包账户与网络切换；余额查询走 rpcUrl，这里指向不可用的端口，转账会在切换网络之后失败
+const fakeWallet = (switchError: { code: number; message: string }) => {
+  const calls: string[] = []
+  const added: unknown[] = []
+  let known = false
+  const provider = {
+    request: async ({ method, params }: { method: string; params?: unknown[] }) => {
+      calls.push(method)
+      switch (method) {
+        case 'eth_requestAccounts':
+        case 'eth_accounts':
+          return [PAYER]
+        case 'wallet_switchEthereumChain':
+          if (!known) throw Object.assign(new Error(switchError.message), switchError)
+          return null
+        case 'wallet_addEthereumChain':
+          added.push(params?.[0])
+          known = true
+          return null
+      }
+      throw new Error(`unexpected method ${method}`)
+    },
+    on: () => undefined,
+    removeListener: () => undefined
+  } as unknown as EIP1193Provider
+  return { provider, calls, added }
+}
+
+const handlerFor = (provider: EIP1193Provider) =>
+  createEvmSchemeHandler({ chains: [{ ...ANVIL_CHAIN, rpcUrl: 'http://127.0.0.1:1' }], provider: () => provider })
+
+const request = { accept, orderId: 'CO1', amount: '2.6', amountInSmallestUnit: BigInt(2_600_000), decimals: 6 }
+
+test('钱包不认识该网络（4902）时先添加再切换', async () => {
+  const wallet = fakeWallet({ code: 4902, message: 'Unrecognized chain ID "0x7a69"' })
+
+  await assert.rejects(handlerFor(wallet.provider).transfer(request))
+
+  assert.deepEqual(wallet.calls, ['eth_requestAccounts', 'wallet_switchEthereumChain', 'wallet_addEthereumChain', 'wallet_switchEthereumChain'])
+  assert.equal(wallet.added.length, 1)
+  assert.deepEqual(wallet.added[0], {
+    chainId: '0x7a69',
+    chainName: 'Anvil',
+    nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+    rpcUrls: ['http://127.0.0.1:1'],
+    blockExplorerUrls: undefined
+  })
+})
+
+test('用户拒绝切换时不添加网络', async () => {
+  const wallet = fakeWallet({ code: 4001, message: 'User rejected the request.' })
+
+  await assert.rejects(handlerFor(wallet.provider).transfer(request), /rejected/i)
+
+  assert.deepEqual(wallet.calls, ['eth_requestAccounts', 'wallet_switchEthereumChain'])
+  assert.equal(wallet.added.length, 0)
+})
+
+// 本地 JSON-RPC：合约 decimals() 返回 18，与报价里的 6 不同
+const startRpc = async () => {
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body)
+      const data: string = method === 'eth_call' ? params[0].data : ''
+      const result =
+        method === 'eth_chainId'
+          ? '0x7a69'
+          : method === 'eth_getBalance'
+            ? numberToHex(BigInt(2) * BigInt(10) ** BigInt(18))
+            : data.startsWith(toFunctionSelector('decimals()'))
+              ? numberToHex(18, { size: 32 })
+              : numberToHex(BigInt(15) * BigInt(10) ** BigInt(17), { size: 32 })
+      res.setHeader('Content-Type', 'application/json')
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result }))
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }
+}
+
+test('代币余额按链上 decimals 换算', async () => {
+  const { server, url } = await startRpc()
+  try {
+    const { provider } = fakeWallet({ code: 0, message: '' })
+    const handler = createEvmSchemeHandler({ chains: [{ ...ANVIL_CHAIN, rpcUrl: url }], provider: () => provider })
+
+    const balances = await handler.getBalances(accept)
+
+    assert.equal(balances?.native, '2')
+    assert.equal(balances?.token, '1.5')
+  } finally {
+    server.close()
+  }
+})
@@ -0,0 +1,264 @@
+import {
+  BaseError,
+  createPublicClient,
+  createWalletClient,
+  custom,
+  defineChain,
+  erc20Abi,
+  formatUnits,
+  getAddress,
+  http,
+  isHash,
+  SwitchChainError,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Account,
+  type Address,
+  type Chain,
+  type EIP1193Provider,
+  type WalletClient
+} from 'viem'
+import type { PaymentAccept } from '../types'
+import { getErrorMessage, UnconfirmedTransferError } from '../utils'
+import type { ChainTransactionStatus, PaymentSchemeHandler, SchemeBalances } from './types'
+
+export interface EvmChainConfig {
+  chainId: number
+  name: string
+  // 网关 network 字段可能出现的写法，统一按小写匹配
+  aliases: string[]
+  rpcUrl: string
+  nativeSymbol: string
+}
+
+export const EVM_CHAINS: EvmChainConfig[] = [
+  {
+    chainId: 56,
+    name: 'BSC',
+    aliases: ['bsc', 'bsc-mainnet', 'bnb', 'bnb-mainnet'],
+    rpcUrl: 'https://bsc-dataseed.binance.org',
+    nativeSymbol: 'BNB'
+  },
+  {
+    chainId: 8453,
+    name: 'Base',
+    aliases: ['base', 'base-mainnet'],
+    rpcUrl: 'https://mainnet.base.org',
+    nativeSymbol: 'ETH'
+  },
+  {
+    chainId: 1,
+    name: 'Ethereum',
+    aliases: ['ethereum', 'eth', 'eth-mainnet', 'ethereum-mainnet'],
+    rpcUrl: 'https://ethereum-rpc.publicnode.com',
+    nativeSymbol: 'ETH'
+  }
+]
+
+// 本地 anvil 默认配置，测试时传入 chains: [ANVIL_CHAIN]
+export const ANVIL_CHAIN: EvmChainConfig = {
+  chainId: 31337,
+  name: 'Anvil',
+  aliases: ['anvil', 'localhost'],
+  rpcUrl: 'http://127.0.0.1:8545',
+  nativeSymbol: 'ETH'
+}
+
+export interface EvmSchemeOptions {
+  chains?: EvmChainConfig[]
+  // 浏览器里使用注入钱包（window.ethereum）
+  provider?: () => EIP1193Provider | undefined
+  // 脚本 / anvil 场景下使用本地账户，例如 privateKeyToAccount(...)
+  account?: Account
+  // 调试信息：交易哈希与确认结果，库本身不写控制台
+  onLog?: (message: string) => void
+}
+
+export const findEvmChain = (network: string, chains: EvmChainConfig[] = EVM_CHAINS): EvmChainConfig | undefined => {
+  const normalized = (network || '').trim().toLowerCase()
+  return chains.find((chain) => chain.aliases.includes(normalized) || chain.name.toLowerCase() === normalized)
+}
+
+const toViemChain = (config: EvmChainConfig): Chain =>
+  defineChain({
+    id: config.chainId,
+    name: config.name,
+    nativeCurrency: { name: config.nativeSymbol, symbol: config.nativeSymbol, decimals: 18 },
+    rpcUrls: { default: { http: [config.rpcUrl] } }
+  })
+
+// 钱包里没有该网络时返回 4902；部分移动端钱包包成 -32603，原始错误码放在 data.originalError 里
+const isUnrecognizedChainError = (error: unknown): boolean =>
+  error instanceof BaseError &&
+  error.walk((cause) => {
+    const { code, data } = cause as { code?: unknown; data?: { originalError?: { code?: unknown } } }
+    return code === SwitchChainError.code || data?.originalError?.code === SwitchChainError.code
+  }) !== null
+
+// 切换失败且钱包不认识该网络时先添加（wallet_addEthereumChain），有的钱包添加后不会自动切过去，再切换一次
+const switchWalletChain = async (walletClient: WalletClient, chain: Chain) => {
+  try {
+    await walletClient.switchChain({ id: chain.id })
+  } catch (error) {
+    if (!isUnrecognizedChainError(error)) throw error
+    await walletClient.addChain({ chain })
+    await walletClient.switchChain({ id: chain.id })
+  }
+}
+
+const defaultProvider = (): EIP1193Provider | undefined =>
+  typeof window === 'undefined' ? undefined : (window as unknown as { ethereum?: EIP1193Provider }).ethereum
+
+export const createEvmSchemeHandler = (options: EvmSchemeOptions = {}): PaymentSchemeHandler => {
+  const { chains = EVM_CHAINS, provider = defaultProvider, account, onLog } = options
+
+  const resolveChain = (accept: PaymentAccept): Chain => {
+    const config = findEvmChain(accept.network, chains)
+    if (!config) {
+      throw new Error(`不支持的 EVM 网络：${accept.network}`)
+    }
+    return toViemChain(config)
+  }
+
+  const publicClientFor = (chain: Chain) => createPublicClient({ chain, transport: http() })
+
+  const walletClientFor = (chain: Chain) => {
+    if (account) {
+      return createWalletClient({ chain, account, transport: http() })
+    }
+    const injected = provider()
+    if (!injected) {
+      throw new Error('未检测到 EVM 钱包，请安装 MetaMask 等浏览器钱包')
+    }
+    return createWalletClient({ chain, transport: custom(injected) })
+  }
+
+  // 读余额时不弹出授权，只取已连接的地址
+  const connectedAddress = async (): Promise<Address | undefined> => {
+    if (account) return account.address
+    const injected = provider()
+    if (!injected) return undefined
+    const accounts = (await injected.request({ method: 'eth_accounts' })) as Address[]
+    return accounts[0]
+  }
+
+  const transfer: PaymentSchemeHandler['transfer'] = async ({ accept, amount, amountInSmallestUnit, decimals }) => {
+    try {
+      const chain = resolveChain(accept)
+      const publicClient = publicClientFor(chain)
+      const walletClient = walletClientFor(chain)
+
+      let from: Address
+      if (account) {
+        from = account.address
+      } else {
+        ;[from] = await walletClient.requestAddresses()
+        await switchWalletChain(walletClient, chain)
+      }
+
+      const token = getAddress(accept.asset)
+      const recipient = getAddress(accept.payTo)
+
+      const balance = await publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [from]
+      })
+      if (balance < amountInSmallestUnit) {
+        throw new Error(`${accept.symbol} 余额不足：当前 ${formatUnits(balance, decimals)}，需要 ${amount}`)
+      }
+
+      const hash = await walletClient.writeContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [recipient, amountInSmallestUnit],
+        account: account ?? from,
+        chain
+      })
+      onLog?.(`EVM transaction sent: ${hash}`)
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash }).catch((error) => {
+        throw new UnconfirmedTransferError(hash, getErrorMessage(error))
+      })
+      if (receipt.status !== 'success') {
+        throw new Error(`交易执行失败：${hash}`)
+      }
+      onLog?.(`EVM transaction confirmed: ${hash}`)
+
+      return hash
+    } catch (error) {
+      if (error instanceof UnconfirmedTransferError) throw error
+      throw new Error(getErrorMessage(error) || 'EVM 转账失败')
+    }
+  }
+
+  const getDecimals = (accept: PaymentAccept) =>
+    publicClientFor(resolveChain(accept)).readContract({
+      address: getAddress(accept.asset),
+      abi: erc20Abi,
+      functionName: 'decimals'
+    })
+
+  // 代币余额按链上 decimals() 换算，报价里的 decimals 可能与合约不一致
+  const getBalances = async (accept?: PaymentAccept): Promise<SchemeBalances | null> => {
+    if (!accept) return null
+    const address = await connectedAddress()
+    if (!address) return null
+
+    const chain = resolveChain(accept)
+    const publicClient = publicClientFor(chain)
+    const [native, token, decimals] = await Promise.all([
+      publicClient.getBalance({ address }),
+      publicClient.readContract({
+        address: getAddress(accept.asset),
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [address]
+      }),
+      getDecimals(accept)
+    ])
+
+    return {
+      address,
+      native: formatUnits(native, 18),
+      nativeSymbol: chain.nativeCurrency.symbol,
+      token: formatUnits(token, decimals),
+      tokenSymbol: accept.symbol
+    }
+  }
+
+  const getTransactionStatus = async (txHash: string, accept: PaymentAccept): Promise<ChainTransactionStatus> => {
+    const publicClient = publicClientFor(resolveChain(accept))
+    const hash = txHash as `0x${string}`
+    try {
+      const receipt = await publicClient.getTransactionReceipt({ hash })
+      return receipt.status === 'success' ? 'confirmed' : 'failed'
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) throw error
+    }
+    try {
+      await publicClient.getTransaction({ hash })
+      return 'pending'
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) return 'not_found'
+      throw error
+    }
+  }
+
+  return {
+    id: 'evm-erc20',
+    label: (accept) => `${findEvmChain(accept.network, chains)?.name || accept.network} · ${accept.symbol || accept.asset}`,
+    supports: (accept) => Boolean(findEvmChain(accept.network, chains)),
+    getDecimals,
+    transfer,
+    getBalances,
+    isValidTxHash: (hash) => isHash(hash),
+    getTransactionStatus,
+    isSameNetwork: (a, b) => {
+      const chainA = findEvmChain(a, chains)
+      return Boolean(chainA) && chainA?.chainId === findEvmChain(b, chains)?.chainId
+    }
+  }
+}
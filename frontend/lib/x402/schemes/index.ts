@@ -0,0 +1,8 @@
+export * from './types'
+export * from './registry'
+export * from './solana'
+export * from './solanaMint'
+export * from './solanaSend'
+export * from './solanaReference'
+export * from './evm'
+export * from './solanaPay'
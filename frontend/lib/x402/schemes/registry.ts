@@ -0,0 +1,89 @@
+import type { PaymentAccept, X402Signer, X402TransferRequest } from '../types'
+import { resolveDecimals } from '../utils'
+import type { ChainTransactionStatus, PaymentSchemeHandler, TransferFeeEstimate } from './types'
+
+export interface SchemeRegistry extends X402Signer {
+  register: (handler: PaymentSchemeHandler) => void
+  resolve: (accept: PaymentAccept) => PaymentSchemeHandler | undefined
+  handlers: () => PaymentSchemeHandler[]
+  getDecimals: (accept: PaymentAccept) => Promise<number>
+  getTransactionStatus: (txHash: string, accept: PaymentAccept) => Promise<ChainTransactionStatus>
+  // handler 未实现预估时返回 null，由钱包在签名时展示费用
+  estimateFee: (request: X402TransferRequest) => Promise<TransferFeeEstimate | null>
+  // handler 不支持按订单查找时返回 null
+  findTransfer: (accept: PaymentAccept, orderId: string) => Promise<string | null>
+  isSameNetwork: (a: string, b: string) => boolean
+  // handler 不支持只签名时返回 null
+  sign: NonNullable<X402Signer['sign']>
+  sendSigned: NonNullable<X402Signer['sendSigned']>
+}
+
+// 注册表本身就是一个 X402Signer：按 accept 找到对应链的 handler 去转账
+export const createSchemeRegistry = (initial: PaymentSchemeHandler[] = []): SchemeRegistry => {
+  const registered: PaymentSchemeHandler[] = [...initial]
+
+  const register = (handler: PaymentSchemeHandler) => {
+    const index = registered.findIndex((item) => item.id === handler.id)
+    if (index >= 0) {
+      registered[index] = handler
+    } else {
+      registered.push(handler)
+    }
+  }
+
+  const resolve = (accept: PaymentAccept) => registered.find((handler) => handler.supports(accept))
+
+  return {
+    register,
+    resolve,
+    handlers: () => [...registered],
+    getTransactionStatus: async (txHash, accept) => {
+      const handler = resolve(accept)
+      if (!handler) {
+        throw new Error(`没有注册 ${accept.network} 的支付处理器`)
+      }
+      return handler.getTransactionStatus(txHash, accept)
+    },
+    estimateFee: async (request) => {
+      const handler = resolve(request.accept)
+      return handler?.estimateFee ? handler.estimateFee(request) : null
+    },
+    findTransfer: async (accept, orderId) => {
+      const handler = resolve(accept)
+      return handler?.findTransfer ? handler.findTransfer(accept, orderId) : null
+    },
+    isSameNetwork: (a, b) => registered.some((handler) => handler.isSameNetwork(a, b)),
+    supports: (accept) => Boolean(resolve(accept)),
+    getDecimals: async (accept) => {
+      const handler = resolve(accept)
+      return handler?.getDecimals ? handler.getDecimals(accept) : resolveDecimals(accept.decimals)
+    },
+    pay: async (request) => {
+      const handler = resolve(request.accept)
+      if (!handler) {
+        throw new Error(`没有注册 ${request.accept.network} 的支付处理器`)
+      }
+      const txHash = await handler.transfer(request)
+      if (!handler.isValidTxHash(txHash)) {
+        throw new Error(`${handler.id} 返回的交易哈希格式不正确：${txHash}`)
+      }
+      return txHash
+    },
+    sign: async (request) => {
+      const handler = resolve(request.accept)
+      if (!handler?.signTransfer) return null
+      const signed = await handler.signTransfer(request)
+      if (signed && !handler.isValidTxHash(signed.txHash)) {
+        throw new Error(`${handler.id} 返回的交易哈希格式不正确：${signed.txHash}`)
+      }
+      return signed
+    },
+    sendSigned: async (accept, transaction) => {
+      const handler = resolve(accept)
+      if (!handler?.sendSignedTransfer) {
+        throw new Error(`${accept.network} 的支付处理器不支持广播已签名的交易`)
+      }
+      return handler.sendSignedTransfer(accept, transaction)
+    }
+  }
+}
@@ -0,0 +1,342 @@
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  type ParsedAccountData,
+  type SendOptions
+} from '@solana/web3.js'
+import {
+  createAssociatedTokenAccountInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
+  getAccountLenForMint,
+  getAssociatedTokenAddress,
+  getMint
+} from '@solana/spl-token'
+import bs58 from 'bs58'
+import type { PaymentAccept, X402TransferRequest } from '../types'
+import { formatSmallestUnit, getErrorMessage, UnconfirmedTransferError } from '../utils'
+import { assertMintSymbol, grossUpForTransferFee, loadSolanaMint, type SolanaMintInfo } from './solanaMint'
+import { createMemoInstruction, deriveOrderReference, findOrderTransaction, orderMemo, withOrderReference } from './solanaReference'
+import {
+  broadcastSignedSolanaTransaction,
+  prepareSolanaTransaction,
+  sendSolanaTransaction,
+  signSolanaTransaction,
+  type PriorityFeeOptions
+} from './solanaSend'
+import type { ChainTransactionStatus, PaymentSchemeHandler, SchemeBalances, TransferFeeEstimate } from './types'
+
+// 与 wallet-adapter 的 useWallet() 返回值兼容；提供 signTransaction 时由 SDK 自行广播并在过期前重播，也可以只签名交给收款方提交
+export interface SolanaWallet {
+  publicKey: PublicKey | null
+  sendTransaction: (transaction: Transaction, connection: Connection, options?: SendOptions) => Promise<string>
+  signTransaction?: <T extends Transaction>(transaction: T) => Promise<T>
+}
+
+export interface SolanaSchemeOptions {
+  connection: Connection
+  wallet: SolanaWallet
+  // 钱包面板默认展示的代币，转账始终使用 accept.asset
+  defaultMint: string
+  defaultSymbol?: string
+  knownMints?: Record<string, string>
+  priorityFee?: PriorityFeeOptions
+  // 交易过期需要重新签名等发送过程中的提示
+  onSendStatus?: (message: string) => void
+  // 调试信息：地址、手续费、计算单元、交易签名等，库本身不写控制台
+  onLog?: (message: string) => void
+}
+
+// 脚本和本地 solana-test-validator 场景下直接用 Keypair 签名
+export const keypairWallet = (keypair: Keypair): SolanaWallet => ({
+  publicKey: keypair.publicKey,
+  sendTransaction: (transaction, connection, options) => connection.sendTransaction(transaction, [keypair], options),
+  signTransaction: async (transaction) => {
+    transaction.partialSign(keypair)
+    return transaction
+  }
+})
+
+const SOL_DECIMALS = 9
+
+export const isSolanaNetwork = (network: string): boolean => (network || '').toLowerCase().includes('sol')
+
+const solanaCluster = (network: string): string => {
+  const normalized = network.toLowerCase()
+  return ['devnet', 'testnet', 'localnet', 'mainnet'].find((cluster) => normalized.includes(cluster)) || ''
+}
+
+// 只写 "SOLANA" 的网络名不区分集群，视为与任意 Solana 集群相同
+export const isSameSolanaNetwork = (a: string, b: string): boolean => {
+  if (!isSolanaNetwork(a) || !isSolanaNetwork(b)) return false
+  const clusterA = solanaCluster(a)
+  const clusterB = solanaCluster(b)
+  return !clusterA || !clusterB || clusterA === clusterB
+}
+
+const isSolanaSignature = (hash: string): boolean => {
+  try {
+    return bs58.decode(hash).length === 64
+  } catch {
+    return false
+  }
+}
+
+export const createSolanaSchemeHandler = (options: SolanaSchemeOptions): PaymentSchemeHandler => {
+  const { connection, wallet, defaultMint, defaultSymbol = 'USDC', knownMints, priorityFee, onSendStatus, onLog } = options
+
+  // 读取链上 Mint：decimals、所属 Token Program、转账手续费配置，并校验代币符号
+  const loadAcceptMint = async (accept: PaymentAccept): Promise<SolanaMintInfo> => {
+    const info = await loadSolanaMint(connection, accept.asset, knownMints)
+    assertMintSymbol(info, accept.symbol)
+    return info
+  }
+
+  // 构建转账指令并做发送前的账户与代币余额检查，不签名
+  const buildTransfer = async ({ accept, orderId, amount, amountInSmallestUnit }: X402TransferRequest) => {
+    if (!wallet.publicKey) {
+      throw new Error('钱包未连接')
+    }
+    const payer = wallet.publicKey
+    const recipient = new PublicKey(accept.payTo)
+    const mintInfo = await loadAcceptMint(accept)
+    const { mint, programId, decimals } = mintInfo
+    const mintAddress = mint.toBase58()
+    const tokenSymbol = accept.symbol || mintInfo.symbol || mintAddress
+
+    onLog?.(`Solana payer address: ${payer.toBase58()}, recipient address: ${recipient.toBase58()}`)
+
+    const fromTokenAccount = await getAssociatedTokenAddress(mint, payer, false, programId)
+    let toTokenAccount: PublicKey = recipient
+
+    const instructions: TransactionInstruction[] = []
+    // 需要创建收款方 ATA 时，付款方承担其免租金押金
+    let rentLamports = BigInt(0)
+
+    const fromInfo = await connection.getAccountInfo(fromTokenAccount)
+    if (!fromInfo) {
+      throw new Error(`发送方缺少 ${tokenSymbol} 关联账户，请先创建并充值 ${tokenSymbol}`)
+    }
+
+    const directAccountInfo = await connection.getAccountInfo(recipient)
+    if (directAccountInfo && directAccountInfo.owner.equals(programId)) {
+      toTokenAccount = recipient
+
+      const parsedInfo = await connection.getParsedAccountInfo(toTokenAccount)
+      const parsedData = parsedInfo.value?.data as ParsedAccountData | undefined
+      const accountMint = parsedData?.parsed?.info?.mint
+      if (accountMint && accountMint !== mintAddress) {
+        throw new Error(`收款 Token 账户的 Mint 与 ${tokenSymbol} 不匹配`)
+      }
+    } else {
+      toTokenAccount = await getAssociatedTokenAddress(mint, recipient, true, programId)
+      const ataInfo = await connection.getAccountInfo(toTokenAccount)
+
+      if (!ataInfo) {
+        instructions.push(createAssociatedTokenAccountInstruction(payer, toTokenAccount, recipient, mint, programId))
+        // Token-2022 的账户大小随 Mint 扩展变化
+        const accountLen = getAccountLenForMint(await getMint(connection, mint, 'confirmed', programId))
+        rentLamports = BigInt(await connection.getMinimumBalanceForRentExemption(accountLen))
+      } else if (!ataInfo.owner.equals(programId)) {
+        throw new Error('关联 Token 账户的 Owner 与 Mint 所属的 Token Program 不一致')
+      } else {
+        const parsedAtaInfo = await connection.getParsedAccountInfo(toTokenAccount)
+        const parsedAtaData = parsedAtaInfo.value?.data as ParsedAccountData | undefined
+        const ataMint = parsedAtaData?.parsed?.info?.mint
+        if (ataMint && ataMint !== mintAddress) {
+          throw new Error(`关联 Token 账户的 Mint 与 ${tokenSymbol} 不匹配`)
+        }
+      }
+    }
+
+    // Token-2022 转账手续费由付款方额外承担，保证收款方实收 amount
+    let transferAmount = amountInSmallestUnit
+    let transferFee: bigint | null = null
+    if (mintInfo.transferFeeConfig) {
+      const { epoch } = await connection.getEpochInfo()
+      const { gross, fee } = grossUpForTransferFee(mintInfo.transferFeeConfig, BigInt(epoch), amountInSmallestUnit)
+      transferAmount = gross
+      transferFee = fee
+      onLog?.(`Token-2022 transfer fee: ${fee}, gross amount: ${gross}`)
+    }
+
+    const payerTokenBalance = await connection.getTokenAccountBalance(fromTokenAccount)
+    const payerTokenAmount = BigInt(payerTokenBalance.value?.amount || '0')
+    if (payerTokenAmount < transferAmount) {
+      throw new Error(
+        `${tokenSymbol} 余额不足：当前 ${payerTokenBalance.value?.uiAmountString || '0'}，需要 ${amount}${
+          transferFee ? `（另含转账手续费 ${formatSmallestUnit(transferFee, decimals)}）` : ''
+        }`
+      )
+    }
+
+    // 订单号与 nonce 同时写进 Memo 和只读引用账户，网关可以只凭订单找回这笔转账
+    const order = { orderId, nonce: accept.nonce }
+    const transferInstruction =
+      transferFee !== null
+        ? createTransferCheckedWithFeeInstruction(
+            fromTokenAccount,
+            mint,
+            toTokenAccount,
+            payer,
+            transferAmount,
+            decimals,
+            transferFee,
+            [],
+            programId
+          )
+        : createTransferCheckedInstruction(fromTokenAccount, mint, toTokenAccount, payer, transferAmount, decimals, [], programId)
+    instructions.push(
+      withOrderReference(transferInstruction, deriveOrderReference(order)),
+      createMemoInstruction(orderMemo(order), payer)
+    )
+
+    return { payer, instructions, rentLamports, transferFee, decimals }
+  }
+
+  // 模拟交易并计算真实费用：基础网络费（getFeeForMessage）+ 优先费 + 租金押金
+  const quoteTransfer = async (request: X402TransferRequest) => {
+    const built = await buildTransfer(request)
+    const prepared = await prepareSolanaTransaction(connection, built.payer, built.instructions, priorityFee, onLog)
+
+    // 不带 ComputeBudget 指令计算基础费，优先费按 prepared 中的单价与上限单独计入，避免重复计算
+    const { blockhash } = await connection.getLatestBlockhash('confirmed')
+    const message = new TransactionMessage({ payerKey: built.payer, recentBlockhash: blockhash, instructions: built.instructions }).compileToV0Message()
+    const { value: fee } = await connection.getFeeForMessage(message, 'confirmed')
+    if (fee === null) {
+      throw new Error('无法获取网络手续费，请重试')
+    }
+    const networkFee = BigInt(fee)
+    const total = networkFee + prepared.priorityFeeLamports + built.rentLamports
+    const balance = BigInt(await connection.getBalance(built.payer, 'confirmed'))
+    return { ...built, prepared, networkFee, total, balance }
+  }
+
+  const formatSol = (lamports: bigint) => formatSmallestUnit(lamports, SOL_DECIMALS)
+
+  const estimateFee = async (request: X402TransferRequest): Promise<TransferFeeEstimate> => {
+    const quote = await quoteTransfer(request)
+    return {
+      nativeSymbol: 'SOL',
+      networkFee: formatSol(quote.networkFee),
+      priorityFee: formatSol(quote.prepared.priorityFeeLamports),
+      rentDeposit: formatSol(quote.rentLamports),
+      total: formatSol(quote.total),
+      nativeBalance: formatSol(quote.balance),
+      sufficient: quote.balance >= quote.total,
+      tokenFee: quote.transferFee !== null ? formatSmallestUnit(quote.transferFee, quote.decimals) : null
+    }
+  }
+
+  // 签名前重新报价，SOL 不足以支付网络费、优先费与租金押金时不唤起钱包
+  const quoteAffordableTransfer = async (request: X402TransferRequest) => {
+    const quote = await quoteTransfer(request)
+    if (quote.balance < quote.total) {
+      throw new Error(
+        `SOL 余额不足：需要 ${formatSol(quote.total)} SOL（网络费 ${formatSol(quote.networkFee)}，优先费 ${formatSol(
+          quote.prepared.priorityFeeLamports
+        )}，租金押金 ${formatSol(quote.rentLamports)}），当前 ${formatSol(quote.balance)} SOL`
+      )
+    }
+    onLog?.(`Solana compute units: ${quote.prepared.computeUnitLimit}, priority fee (µLamports/CU): ${quote.prepared.microLamports}`)
+    return quote
+  }
+
+  const transfer: PaymentSchemeHandler['transfer'] = async (request) => {
+    try {
+      const quote = await quoteAffordableTransfer(request)
+
+      // 由钱包签名；拥堵时在区块哈希过期前持续重播
+      const signature = await sendSolanaTransaction(connection, wallet, quote.prepared.instructions, { onStatus: onSendStatus, onLog })
+      onLog?.(`Solana transaction confirmed: ${signature}`)
+
+      return signature
+    } catch (error) {
+      if (error instanceof UnconfirmedTransferError) throw error
+      throw new Error(getErrorMessage(error) || 'Solana 转账失败')
+    }
+  }
+
+  // 付款方仍是费用支付者并签名，收款方只负责提交，交易内容与 transfer 完全相同
+  const signTransfer: NonNullable<PaymentSchemeHandler['signTransfer']> = async (request) => {
+    try {
+      if (!wallet.signTransaction) return null
+      const quote = await quoteAffordableTransfer(request)
+      const signed = await signSolanaTransaction(connection, wallet, quote.prepared.instructions)
+      if (!signed) return null
+      onLog?.(`Solana transaction signed, not broadcast: ${signed.signature}`)
+      return { txHash: signed.signature, transaction: signed.transaction }
+    } catch (error) {
+      throw new Error(getErrorMessage(error) || 'Solana 交易签名失败')
+    }
+  }
+
+  const sendSignedTransfer: NonNullable<PaymentSchemeHandler['sendSignedTransfer']> = async (_accept, transaction) => {
+    const signature = await broadcastSignedSolanaTransaction(connection, transaction, { onLog })
+    onLog?.(`Solana signed transaction confirmed: ${signature}`)
+    return signature
+  }
+
+  const getBalances = async (accept?: PaymentAccept): Promise<SchemeBalances | null> => {
+    if (!wallet.publicKey) return null
+
+    const owner = wallet.publicKey
+    const lamports = await connection.getBalance(owner)
+    const mintAddress = accept?.asset || defaultMint
+    const tokenSymbol = accept?.symbol || defaultSymbol
+    let token = '0'
+    try {
+      const mintInfo = await loadSolanaMint(connection, mintAddress, knownMints)
+      const tokenAccount = await getAssociatedTokenAddress(mintInfo.mint, owner, false, mintInfo.programId)
+      const tokenInfo = await connection.getAccountInfo(tokenAccount)
+      if (tokenInfo) {
+        const balance = await connection.getTokenAccountBalance(tokenAccount)
+        token = balance.value.uiAmountString || '0'
+      }
+    } catch (error) {
+      onLog?.(`Failed to fetch ${tokenSymbol} balance on Solana: ${getErrorMessage(error)}`)
+    }
+
+    return {
+      address: owner.toBase58(),
+      native: (lamports / LAMPORTS_PER_SOL).toString(),
+      nativeSymbol: 'SOL',
+      token,
+      tokenSymbol
+    }
+  }
+
+  const getTransactionStatus = async (signature: string): Promise<ChainTransactionStatus> => {
+    const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true })
+    const status = value[0]
+    if (!status) return 'not_found'
+    if (status.err) return 'failed'
+    return status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized' ? 'confirmed' : 'pending'
+  }
+
+  const findTransfer = async (accept: PaymentAccept, orderId: string): Promise<string | null> => {
+    const found = await findOrderTransaction(connection, { orderId, nonce: accept.nonce })
+    return found?.signature ?? null
+  }
+
+  return {
+    id: 'solana-spl',
+    label: (accept: PaymentAccept) => `${accept.network || 'Solana'} · ${accept.symbol || accept.asset}`,
+    supports: (accept) => isSolanaNetwork(accept.network),
+    getDecimals: async (accept) => (await loadAcceptMint(accept)).decimals,
+    transfer,
+    signTransfer,
+    sendSignedTransfer,
+    estimateFee,
+    getBalances,
+    isValidTxHash: isSolanaSignature,
+    getTransactionStatus,
+    findTransfer,
+    isSameNetwork: isSameSolanaNetwork
+  }
+}
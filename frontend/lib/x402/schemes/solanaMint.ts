@@ -0,0 +1,110 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  calculateEpochFee,
+  getEpochFee,
+  getExtensionTypes,
+  getTokenMetadata,
+  getTransferFeeConfig,
+  unpackMint,
+  type TransferFeeConfig
+} from '@solana/spl-token'
+
+// 常见 Mint 对应的代币符号，Token-2022 带 metadata 扩展时以链上为准
+export const KNOWN_SOLANA_MINTS: Record<string, string> = {
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 'USDC',
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: 'USDT',
+  '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU': 'USDC',
+  UCSsmd2A8Ub8J2mE68pXKSSJLJmMTJyPfuT4h7YwpQA: 'USDC'
+}
+
+export interface SolanaMintInfo {
+  mint: PublicKey
+  programId: PublicKey
+  decimals: number
+  symbol: string | null
+  transferFeeConfig: TransferFeeConfig | null
+}
+
+const BPS_DENOMINATOR = BigInt(10000)
+
+export const loadSolanaMint = async (
+  connection: Connection,
+  mintAddress: string,
+  knownMints: Record<string, string> = KNOWN_SOLANA_MINTS
+): Promise<SolanaMintInfo> => {
+  let mint: PublicKey
+  try {
+    mint = new PublicKey(mintAddress)
+  } catch {
+    throw new Error(`Mint 地址格式不正确：${mintAddress}`)
+  }
+
+  const accountInfo = await connection.getAccountInfo(mint)
+  if (!accountInfo) {
+    throw new Error(`链上不存在该 Mint：${mintAddress}`)
+  }
+
+  const programId = accountInfo.owner
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error(`${mintAddress} 不是 SPL Token / Token-2022 的 Mint`)
+  }
+
+  const mintState = unpackMint(mint, accountInfo, programId)
+  let symbol: string | null = knownMints[mint.toBase58()] ?? null
+
+  if (programId.equals(TOKEN_2022_PROGRAM_ID) && getExtensionTypes(mintState.tlvData).includes(ExtensionType.TokenMetadata)) {
+    const metadata = await getTokenMetadata(connection, mint, 'confirmed', programId)
+    if (metadata?.symbol) {
+      symbol = metadata.symbol
+    }
+  }
+
+  return {
+    mint,
+    programId,
+    decimals: mintState.decimals,
+    symbol,
+    transferFeeConfig: getTransferFeeConfig(mintState)
+  }
+}
+
+// accept 声明的代币符号必须与 Mint 实际代币一致，无法识别的 Mint 不做判断
+export const assertMintSymbol = (info: SolanaMintInfo, expectedSymbol?: string) => {
+  if (!info.symbol || !expectedSymbol) return
+  if (info.symbol.trim().toUpperCase() !== expectedSymbol.trim().toUpperCase()) {
+    throw new Error(
+      `支付选项声明的代币 ${expectedSymbol} 与 Mint ${info.mint.toBase58()} 的实际代币 ${info.symbol} 不一致`
+    )
+  }
+}
+
+// 带转账手续费的 Mint：计算需要转出的总额，使收款方实收 net
+export const grossUpForTransferFee = (
+  config: TransferFeeConfig,
+  epoch: bigint,
+  net: bigint
+): { gross: bigint; fee: bigint } => {
+  const { transferFeeBasisPoints, maximumFee } = getEpochFee(config, epoch)
+  const bps = BigInt(transferFeeBasisPoints)
+  if (bps === BigInt(0)) {
+    return { gross: net, fee: BigInt(0) }
+  }
+
+  let gross =
+    bps >= BPS_DENOMINATOR
+      ? net + maximumFee
+      : (net * BPS_DENOMINATOR + BPS_DENOMINATOR - bps - BigInt(1)) / (BPS_DENOMINATOR - bps)
+  if (gross - net > maximumFee) {
+    gross = net + maximumFee
+  }
+
+  let fee = calculateEpochFee(config, epoch, gross)
+  while (gross - fee < net) {
+    gross += BigInt(1)
+    fee = calculateEpochFee(config, epoch, gross)
+  }
+  return { gross, fee }
+}
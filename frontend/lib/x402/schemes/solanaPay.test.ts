@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { Keypair, type Connection } from '@solana/web3.js'
+import { TOKEN_2022_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token'
+import { createTestAccept } from '../testFixtures'
+import { waitForSolanaPayTransfer } from './solanaPay'
+
+const mint = Keypair.generate().publicKey
+const merchant = Keypair.generate().publicKey
+const payer = Keypair.generate().publicKey
+const SIGNATURE = '5'.repeat(88)
+
+const accept = createTestAccept({ asset: mint.toBase58(), payTo: merchant.toBase58() })
+const request = { accept, orderId: 'CO1', amount: '2.6' }
+
+const tokenBalance = (amount: string) => ({
+  accountIndex: 1,
+  mint: mint.toBase58(),
+  owner: merchant.toBase58(),
+  uiTokenAmount: { amount, decimals: 6, uiAmount: null, uiAmountString: amount }
+})
+
+// 收款方是 Token-2022 关联账户，received 为扣除转账手续费后的实收
+const parsedTransfer = (received: string) => ({
+  slot: 1,
+  meta: { err: null, fee: 5000, preTokenBalances: [tokenBalance('0')], postTokenBalances: [tokenBalance(received)] },
+  transaction: {
+    message: {
+      accountKeys: [payer, getAssociatedTokenAddressSync(mint, merchant, true, TOKEN_2022_PROGRAM_ID)].map((pubkey) => ({ pubkey }))
+    }
+  }
+})
+
+// 依次返回 getParsedTransaction 的结果，Error 表示 RPC 抛错
+const fakeConnection = (results: unknown[]) => {
+  let calls = 0
+  const connection = {
+    getSignaturesForAddress: async () => [{ signature: SIGNATURE, slot: 1, err: null, memo: `[9] x402:CO1:${accept.nonce}` }],
+    getParsedTransaction: async () => {
+      const result = results[Math.min(calls++, results.length - 1)]
+      if (result instanceof Error) throw result
+      return result
+    }
+  } as unknown as Connection
+  return { connection, calls: () => calls }
+}
+
+test('RPC 出错或交易尚未确认时继续轮询，核对通过后返回签名', async () => {
+  const errors: unknown[] = []
+  const { connection, calls } = fakeConnection([new Error('429 Too Many Requests'), null, parsedTransfer('2600000')])
+
+  const signature = await waitForSolanaPayTransfer(connection, request, { intervalMs: 1, onError: (error) => errors.push(error) })
+
+  assert.equal(signature, SIGNATURE)
+  assert.equal(calls(), 3)
+  assert.equal(errors.length, 1)
+})
+
+test('实收金额不足时立即失败，不再等到过期', async () => {
+  const { connection } = fakeConnection([parsedTransfer('2599999')])
+
+  await assert.rejects(waitForSolanaPayTransfer(connection, request, { intervalMs: 1 }), /实收 2\.599999，少于订单金额 2\.6/)
+})
+
+test('一直查询失败时在 deadline 后放弃', async () => {
+  const { connection } = fakeConnection([new Error('fetch failed')])
+
+  await assert.rejects(waitForSolanaPayTransfer(connection, request, { intervalMs: 1, deadline: Date.now() + 20 }), /二维码已过期/)
+})
@@ -0,0 +1,129 @@
+import { Connection, PublicKey, type Finality, type TokenBalance } from '@solana/web3.js'
+import { encodeURL } from '@solana/pay'
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token'
+import BigNumber from 'bignumber.js'
+import type { PaymentAccept } from '../types'
+import { amountToSmallestUnit, formatSmallestUnit, getErrorMessage, sleep } from '../utils'
+import { grossUpForTransferFee, loadSolanaMint } from './solanaMint'
+import { deriveOrderReference, findOrderTransaction, orderMemo, type OrderReference, type OrderTransaction } from './solanaReference'
+
+export interface SolanaPayRequest {
+  accept: PaymentAccept
+  orderId: string
+  // 收款方应实收的金额，代币单位的十进制字符串，例如 '0.2'
+  amount: string
+  // 链接里请求钱包转出的金额；Token-2022 带转账手续费时比 amount 多出手续费，缺省与 amount 相同
+  transferAmount?: string
+  label?: string
+  message?: string
+}
+
+// 读取链上 Mint 并按转账手续费上浮链接金额，与浏览器钱包转账一样由付款方承担手续费
+export const createSolanaPayRequest = async (connection: Connection, request: SolanaPayRequest): Promise<SolanaPayRequest> => {
+  const { transferFeeConfig, decimals } = await loadSolanaMint(connection, request.accept.asset)
+  if (!transferFeeConfig) return { ...request, transferAmount: request.amount }
+  const { epoch } = await connection.getEpochInfo()
+  const { gross } = grossUpForTransferFee(transferFeeConfig, BigInt(epoch), amountToSmallestUnit(request.amount, decimals))
+  return { ...request, transferAmount: formatSmallestUnit(gross, decimals) }
+}
+
+export interface WaitForSolanaPayOptions {
+  signal?: AbortSignal
+  intervalMs?: number
+  commitment?: Finality
+  // 超过该时间仍未找到交易则放弃，通常取报价的过期时间
+  deadline?: number | null
+  // 查询链上交易失败时回调，随后按 intervalMs 继续轮询
+  onError?: (error: unknown) => void
+}
+
+const requestOrder = ({ accept, orderId }: SolanaPayRequest): OrderReference => ({ orderId, nonce: accept.nonce })
+
+// Solana Pay 转账请求链接（solana:<payTo>?amount=...&spl-token=...&reference=...&memo=...），可直接生成二维码
+// payTo 必须是钱包地址：手机钱包会转入它在该 Mint 下的关联 Token 账户
+export const createSolanaPayUrl = (request: SolanaPayRequest): URL => {
+  const order = requestOrder(request)
+  return encodeURL({
+    recipient: new PublicKey(request.accept.payTo),
+    amount: new BigNumber(request.transferAmount ?? request.amount),
+    splToken: new PublicKey(request.accept.asset),
+    reference: deriveOrderReference(order),
+    label: request.label,
+    message: request.message,
+    memo: orderMemo(order)
+  })
+}
+
+type TransferCheck = { status: 'pending' } | { status: 'mismatch'; reason: string } | { status: 'valid' }
+
+// 收款方可能收款的 Token 账户：payTo 本身，或它在 SPL Token / Token-2022 下的关联 Token 账户
+const recipientAccounts = (accept: PaymentAccept): Set<string> => {
+  const mint = new PublicKey(accept.asset)
+  const owner = new PublicKey(accept.payTo)
+  const associated = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+    getAssociatedTokenAddressSync(mint, owner, true, programId).toBase58()
+  )
+  return new Set([accept.payTo, ...associated])
+}
+
+// 按收款账户前后余额差核对实收金额，Token-2022 的转账手续费已在差额中扣除；交易尚未达到确认级别时返回 pending
+const checkTransfer = async (
+  connection: Connection,
+  signature: string,
+  request: SolanaPayRequest,
+  commitment: Finality
+): Promise<TransferCheck> => {
+  const transaction = await connection.getParsedTransaction(signature, { commitment, maxSupportedTransactionVersion: 0 })
+  if (!transaction?.meta) return { status: 'pending' }
+  const { meta } = transaction
+  if (meta.err) return { status: 'mismatch', reason: `交易执行失败：${JSON.stringify(meta.err)}` }
+
+  const { accept } = request
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) => key.pubkey.toBase58())
+  const recipients = recipientAccounts(accept)
+  const matches = (balance: TokenBalance) => balance.mint === accept.asset && recipients.has(accountKeys[balance.accountIndex])
+  const sum = (balances: TokenBalance[]) =>
+    balances.filter(matches).reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0))
+  const received = sum(meta.postTokenBalances || []) - sum(meta.preTokenBalances || [])
+
+  const decimals = (meta.postTokenBalances || []).find(matches)?.uiTokenAmount.decimals
+  if (decimals === undefined || received <= BigInt(0)) {
+    return { status: 'mismatch', reason: `交易中没有向 ${accept.payTo} 转入 ${accept.symbol || accept.asset}` }
+  }
+  const required = amountToSmallestUnit(request.amount, decimals)
+  if (received < required) {
+    return { status: 'mismatch', reason: `实收 ${formatSmallestUnit(received, decimals)}，少于订单金额 ${request.amount}` }
+  }
+  return { status: 'valid' }
+}
+
+// 轮询链上带有订单引用与 memo 的交易，核对收款方、代币与实收金额后返回签名
+// 查询失败或交易尚未达到确认级别时继续轮询直到 deadline，只有交易确实不符合订单时才立即失败
+export const waitForSolanaPayTransfer = async (
+  connection: Connection,
+  request: SolanaPayRequest,
+  { signal, intervalMs = 2000, commitment = 'confirmed', deadline = null, onError }: WaitForSolanaPayOptions = {}
+): Promise<string> => {
+  const order = requestOrder(request)
+  for (;;) {
+    if (signal?.aborted) {
+      throw new Error('已停止等待扫码支付')
+    }
+    let found: OrderTransaction | null = null
+    let check: TransferCheck = { status: 'pending' }
+    try {
+      found = await findOrderTransaction(connection, order, commitment)
+      if (found) check = await checkTransfer(connection, found.signature, request, commitment)
+    } catch (error) {
+      onError?.(error)
+    }
+    if (found && check.status === 'valid') return found.signature
+    if (found && check.status === 'mismatch') {
+      throw new Error(`扫码支付的交易不符合订单要求：${check.reason}（${found.signature}）`)
+    }
+    if (deadline !== null && Date.now() > deadline) {
+      throw new Error('二维码已过期，未检测到付款')
+    }
+    await sleep(intervalMs)
+  }
+}
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { PublicKey } from '@solana/web3.js'
+import { deriveOrderReference, MEMO_PROGRAM_ID, orderMemo } from './solanaReference'
+
+test('同一订单号与 nonce 推导出相同的曲线外引用公钥', () => {
+  const reference = deriveOrderReference({ orderId: 'CO2025091502171350002', nonce: 'abc123' })
+
+  assert.ok(reference.equals(deriveOrderReference({ orderId: 'CO2025091502171350002', nonce: 'abc123' })))
+  assert.equal(PublicKey.isOnCurve(reference.toBytes()), false)
+})
+
+test('订单号或 nonce 不同时引用不同', () => {
+  const base = deriveOrderReference({ orderId: 'CO1', nonce: 'abc123' })
+
+  assert.ok(!base.equals(deriveOrderReference({ orderId: 'CO2', nonce: 'abc123' })))
+  assert.ok(!base.equals(deriveOrderReference({ orderId: 'CO1', nonce: 'abc124' })))
+  assert.ok(!base.equals(deriveOrderReference({ orderId: 'CO1' })))
+})
+
+test('超过 32 字节的订单按种子分段，过长时抛错', () => {
+  const orderId = 'CO'.padEnd(100, '7')
+  assert.equal(orderMemo({ orderId }), `x402:${orderId}`)
+  assert.equal(PublicKey.isOnCurve(deriveOrderReference({ orderId }).toBytes()), false)
+  assert.ok(!deriveOrderReference({ orderId }).equals(deriveOrderReference({ orderId: orderId.slice(0, 99) })))
+
+  assert.throws(() => deriveOrderReference({ orderId: 'CO'.padEnd(600, '7') }), /订单号过长/)
+})
+
+test('引用可由 Memo 程序与种子重新推导', () => {
+  const [expected] = PublicKey.findProgramAddressSync(
+    [Buffer.from('x402-order', 'utf8'), Buffer.from(orderMemo({ orderId: 'CO1', nonce: 'n' }), 'utf8')],
+    MEMO_PROGRAM_ID
+  )
+  assert.ok(deriveOrderReference({ orderId: 'CO1', nonce: 'n' }).equals(expected))
+})
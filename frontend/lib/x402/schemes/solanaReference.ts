@@ -0,0 +1,65 @@
+import { Connection, PublicKey, TransactionInstruction, type Finality } from '@solana/web3.js'
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr')
+
+const REFERENCE_SEED = 'x402-order'
+// findProgramAddressSync 最多 16 个种子、每个不超过 32 字节
+const MAX_SEED_LENGTH = 32
+const MAX_SEEDS = 16
+
+export interface OrderReference {
+  orderId: string
+  nonce?: string
+}
+
+export interface OrderTransaction {
+  signature: string
+  slot: number
+  memo: string | null
+}
+
+// 写进链上的订单标识，网关和对账脚本都按这个格式解析
+export const orderMemo = ({ orderId, nonce }: OrderReference): string => `x402:${orderId}${nonce ? `:${nonce}` : ''}`
+
+// 由订单号和 nonce 确定性推导出的引用公钥（Solana Pay 的 reference），收付双方无需额外存储即可计算
+export const deriveOrderReference = (order: OrderReference): PublicKey => {
+  const bytes = Buffer.from(orderMemo(order), 'utf8')
+  const seeds: Buffer[] = [Buffer.from(REFERENCE_SEED, 'utf8')]
+  for (let offset = 0; offset < bytes.length; offset += MAX_SEED_LENGTH) {
+    seeds.push(bytes.subarray(offset, offset + MAX_SEED_LENGTH))
+  }
+  if (seeds.length > MAX_SEEDS) {
+    throw new Error('订单号过长，无法生成链上引用')
+  }
+  // 推导出的是曲线外地址，没有私钥，只作为只读账户出现在交易里
+  return PublicKey.findProgramAddressSync(seeds, MEMO_PROGRAM_ID)[0]
+}
+
+export const createMemoInstruction = (memo: string, signer: PublicKey): TransactionInstruction =>
+  new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+    data: Buffer.from(memo, 'utf8')
+  })
+
+// 与 Solana Pay 一致：引用公钥作为只读、非签名账户附加到转账指令末尾，Token 程序会忽略它
+export const withOrderReference = (instruction: TransactionInstruction, reference: PublicKey): TransactionInstruction => {
+  instruction.keys.push({ pubkey: reference, isSigner: false, isWritable: false })
+  return instruction
+}
+
+// 只凭引用公钥找回订单的转账：客户端没有上报交易哈希时用于恢复与对账
+export const findOrderTransaction = async (
+  connection: Connection,
+  order: OrderReference,
+  commitment: Finality = 'confirmed'
+): Promise<OrderTransaction | null> => {
+  const reference = deriveOrderReference(order)
+  const memo = orderMemo(order)
+  const signatures = await connection.getSignaturesForAddress(reference, { limit: 20 }, commitment)
+  // 按时间从早到晚取第一笔成功且 memo 匹配的交易；memo 字段形如 “[23] x402:...”
+  const match = signatures
+    .filter((info) => !info.err && Boolean(info.memo?.includes(memo)))
+    .sort((a, b) => a.slot - b.slot)[0]
+  return match ? { signature: match.signature, slot: match.slot, memo: match.memo } : null
+}
@@ -0,0 +1,323 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  type Commitment,
+  type TransactionError
+} from '@solana/web3.js'
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import bs58 from 'bs58'
+import { getErrorMessage, sleep, UnconfirmedTransferError } from '../utils'
+import type { SolanaWallet } from './solana'
+
+export interface PriorityFeeOptions {
+  // 取最近各 slot 优先费的分位数
+  percentile?: number
+  minMicroLamports?: number
+  maxMicroLamports?: number
+}
+
+export interface PreparedSolanaTransaction {
+  // 已带 ComputeBudget 指令，可直接签名
+  instructions: TransactionInstruction[]
+  computeUnitLimit: number
+  microLamports: number
+  // computeUnitLimit × microLamports，单位 lamports
+  priorityFeeLamports: bigint
+}
+
+export interface SendSolanaOptions {
+  commitment?: Commitment
+  // 区块哈希过期且确认原交易未上链后，最多重新签名几次
+  maxResigns?: number
+  rebroadcastIntervalMs?: number
+  onStatus?: (message: string) => void
+  // 调试信息：广播、重播、模拟失败时的程序日志
+  onLog?: (message: string) => void
+}
+
+const MAX_COMPUTE_UNITS = 1_400_000
+const COMPUTE_UNIT_MARGIN = 1.1
+const MIN_COMPUTE_UNITS = 5_000
+
+const TOKEN_ERRORS: Record<number, string> = {
+  0: '账户租金不足',
+  1: '代币余额不足',
+  2: 'Mint 无效',
+  3: 'Token 账户与 Mint 不匹配',
+  4: 'Token 账户的所有者不匹配',
+  13: 'Token 账户未初始化',
+  17: 'Token 账户已被冻结',
+  18: '代币精度与 Mint 不一致'
+}
+
+// 把模拟或执行失败的 TransactionError 转成用户能看懂的原因
+export const describeSolanaError = (
+  error: TransactionError | null,
+  logs: string[] | null = null,
+  instructions: TransactionInstruction[] = []
+): string => {
+  const joinedLogs = (logs || []).join('\n').toLowerCase()
+  if (joinedLogs.includes('insufficient lamports')) {
+    return 'SOL 余额不足，无法支付创建收款账户的租金押金'
+  }
+  if (error === 'InsufficientFundsForFee' || error === 'AccountNotFound') {
+    return 'SOL 余额不足，无法支付网络手续费'
+  }
+  if (error === 'BlockhashNotFound') {
+    return '区块哈希已过期，请重试'
+  }
+  if (error && typeof error === 'object') {
+    if ('InsufficientFundsForRent' in error) {
+      return 'SOL 余额不足，转账后账户将低于免租金额度'
+    }
+    if ('InstructionError' in error) {
+      const [index, detail] = (error as { InstructionError: [number, unknown] }).InstructionError
+      const programId = instructions[index]?.programId
+      const custom = detail && typeof detail === 'object' && 'Custom' in detail ? Number((detail as { Custom: number }).Custom) : null
+      if (programId && (programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)) && custom !== null) {
+        return TOKEN_ERRORS[custom] || `Token 程序错误（代码 ${custom}）`
+      }
+      if (programId?.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+        return '创建收款方关联 Token 账户失败'
+      }
+      if (programId?.equals(SystemProgram.programId)) {
+        return 'SOL 余额不足'
+      }
+      return `第 ${index + 1} 条指令执行失败：${JSON.stringify(detail)}`
+    }
+  }
+  return `交易执行失败：${JSON.stringify(error)}`
+}
+
+// 按涉及的可写账户取最近的优先费；RPC 不支持或全为 0 时返回 minMicroLamports
+export const estimatePriorityFee = async (
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  { percentile = 75, minMicroLamports = 0, maxMicroLamports = 1_000_000 }: PriorityFeeOptions = {},
+  onLog?: (message: string) => void
+): Promise<number> => {
+  let fees: number[] = []
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts })
+    fees = recent.map((item) => item.prioritizationFee).filter((fee) => fee > 0).sort((a, b) => a - b)
+  } catch (error) {
+    onLog?.(`getRecentPrioritizationFees failed, using minimum priority fee: ${getErrorMessage(error)}`)
+  }
+  if (!fees.length) return minMicroLamports
+  const index = Math.min(fees.length - 1, Math.floor((percentile / 100) * fees.length))
+  return Math.min(maxMicroLamports, Math.max(minMicroLamports, fees[index]))
+}
+
+const withComputeBudget = (instructions: TransactionInstruction[], units: number, microLamports: number) => [
+  ComputeBudgetProgram.setComputeUnitLimit({ units }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+  ...instructions
+]
+
+// 先模拟：程序错误在唤起钱包前就以可读信息抛出，同时按实际消耗设置计算单元上限
+export const prepareSolanaTransaction = async (
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  priorityFee: PriorityFeeOptions = {},
+  onLog?: (message: string) => void
+): Promise<PreparedSolanaTransaction> => {
+  const writableAccounts = Array.from(
+    new Set(instructions.flatMap((ix) => ix.keys.filter((key) => key.isWritable).map((key) => key.pubkey.toBase58())))
+  ).map((address) => new PublicKey(address))
+  const microLamports = await estimatePriorityFee(connection, writableAccounts, priorityFee, onLog)
+
+  const simulationInstructions = withComputeBudget(instructions, MAX_COMPUTE_UNITS, microLamports)
+  const { blockhash } = await connection.getLatestBlockhash('confirmed')
+  const message = new TransactionMessage({ payerKey: payer, recentBlockhash: blockhash, instructions: simulationInstructions }).compileToV0Message()
+  const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed'
+  })
+  if (value.err) {
+    onLog?.([`Solana simulation failed: ${JSON.stringify(value.err)}`, ...(value.logs || [])].join('\n'))
+    throw new Error(describeSolanaError(value.err, value.logs, simulationInstructions))
+  }
+
+  const consumed = value.unitsConsumed || 0
+  const computeUnitLimit = consumed
+    ? Math.min(MAX_COMPUTE_UNITS, Math.max(MIN_COMPUTE_UNITS, Math.ceil(consumed * COMPUTE_UNIT_MARGIN)))
+    : 200_000
+  return {
+    instructions: withComputeBudget(instructions, computeUnitLimit, microLamports),
+    computeUnitLimit,
+    microLamports,
+    priorityFeeLamports: (BigInt(computeUnitLimit) * BigInt(microLamports) + BigInt(999_999)) / BigInt(1_000_000)
+  }
+}
+
+const isLanded = (status: { confirmationStatus?: string } | null, commitment: Commitment) =>
+  Boolean(status) &&
+  (status!.confirmationStatus === 'finalized' || (commitment !== 'finalized' && status!.confirmationStatus === 'confirmed'))
+
+// 广播之后查询链上状态失败时无法判断是否已扣款，带上签名抛出
+const unconfirmed =
+  (signature: string) =>
+  (error: unknown): never => {
+    throw new UnconfirmedTransferError(signature, getErrorMessage(error))
+  }
+
+// 在区块哈希过期之前反复广播同一笔已签名交易，直到达到确认级别
+const confirmWithRebroadcast = async (
+  connection: Connection,
+  signature: string,
+  rawTransaction: Buffer | Uint8Array | null,
+  isExpired: () => Promise<boolean>,
+  { commitment, rebroadcastIntervalMs, onLog }: Required<Pick<SendSolanaOptions, 'commitment' | 'rebroadcastIntervalMs'>> & Pick<SendSolanaOptions, 'onLog'>,
+  instructions: TransactionInstruction[]
+): Promise<'landed' | 'expired'> => {
+  for (;;) {
+    const { value } = await connection.getSignatureStatuses([signature]).catch(unconfirmed(signature))
+    const status = value[0]
+    if (status?.err) {
+      throw new Error(describeSolanaError(status.err, null, instructions))
+    }
+    if (isLanded(status, commitment)) return 'landed'
+
+    if (await isExpired().catch(unconfirmed(signature))) return 'expired'
+
+    if (rawTransaction) {
+      await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 }).catch((error) => {
+        onLog?.(`Solana rebroadcast failed: ${getErrorMessage(error)}`)
+      })
+    }
+    await sleep(rebroadcastIntervalMs)
+  }
+}
+
+// 签名并广播，区块哈希过期时先证明原签名从未上链，再用新的区块哈希重新签名
+export const sendSolanaTransaction = async (
+  connection: Connection,
+  wallet: SolanaWallet,
+  instructions: TransactionInstruction[],
+  options: SendSolanaOptions = {}
+): Promise<string> => {
+  const { commitment = 'confirmed', maxResigns = 2, rebroadcastIntervalMs = 2000, onStatus, onLog } = options
+  if (!wallet.publicKey) {
+    throw new Error('钱包未连接')
+  }
+  const payer = wallet.publicKey
+
+  for (let attempt = 0; attempt <= maxResigns; attempt++) {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+    const transaction = new Transaction({ feePayer: payer, blockhash, lastValidBlockHeight }).add(...instructions)
+
+    let signature: string
+    let rawTransaction: Buffer | null = null
+    if (wallet.signTransaction) {
+      const signed = await wallet.signTransaction(transaction)
+      if (!signed.signature) {
+        throw new Error('钱包未返回签名')
+      }
+      signature = bs58.encode(signed.signature)
+      rawTransaction = signed.serialize()
+      // 已在 prepareSolanaTransaction 中模拟过，这里跳过预检，由我们负责重播
+      await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+    } else {
+      // 钱包只支持签名并发送时无法重播，交给 RPC 节点重试
+      signature = await wallet.sendTransaction(transaction, connection, { skipPreflight: true })
+    }
+    onLog?.(`Solana transaction sent: ${signature} (attempt ${attempt + 1})`)
+
+    const outcome = await confirmWithRebroadcast(
+      connection,
+      signature,
+      rawTransaction,
+      async () => (await connection.getBlockHeight('confirmed')) > lastValidBlockHeight,
+      { commitment, rebroadcastIntervalMs, onLog },
+      instructions
+    )
+    if (outcome === 'landed') return signature
+
+    // 区块高度已超过 lastValidBlockHeight，原交易不可能再被打包；查询历史确认它确实没有上链
+    const { value } = await connection
+      .getSignatureStatuses([signature], { searchTransactionHistory: true })
+      .catch(unconfirmed(signature))
+    const status = value[0]
+    if (status) {
+      if (status.err) throw new Error(describeSolanaError(status.err, null, instructions))
+      return signature
+    }
+    onLog?.(`Solana transaction expired without landing: ${signature}`)
+    if (attempt < maxResigns) {
+      onStatus?.('交易因网络拥堵未能上链，区块哈希已过期，请在钱包中重新签名')
+    }
+  }
+  throw new Error('网络拥堵，交易多次未能上链，请稍后重试（未扣款）')
+}
+
+export interface SignedSolanaTransaction {
+  signature: string
+  // 序列化后的完整交易，base64
+  transaction: string
+}
+
+// 只签名不广播，交给收款方提交；钱包只支持签名并发送时返回 null
+export const signSolanaTransaction = async (
+  connection: Connection,
+  wallet: SolanaWallet,
+  instructions: TransactionInstruction[]
+): Promise<SignedSolanaTransaction | null> => {
+  if (!wallet.publicKey) {
+    throw new Error('钱包未连接')
+  }
+  if (!wallet.signTransaction) return null
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+  const transaction = new Transaction({ feePayer: wallet.publicKey, blockhash, lastValidBlockHeight }).add(...instructions)
+  const signed = await wallet.signTransaction(transaction)
+  if (!signed.signature) {
+    throw new Error('钱包未返回签名')
+  }
+  return { signature: bs58.encode(signed.signature), transaction: signed.serialize().toString('base64') }
+}
+
+// 广播 signSolanaTransaction 得到的交易并在其区块哈希过期前持续重播；已上链的交易直接返回
+export const broadcastSignedSolanaTransaction = async (
+  connection: Connection,
+  serialized: string,
+  { commitment = 'confirmed', rebroadcastIntervalMs = 2000, onLog }: Pick<SendSolanaOptions, 'commitment' | 'rebroadcastIntervalMs' | 'onLog'> = {}
+): Promise<string> => {
+  const rawTransaction = Buffer.from(serialized, 'base64')
+  const transaction = Transaction.from(rawTransaction)
+  const { recentBlockhash } = transaction
+  if (!transaction.signature || !recentBlockhash) {
+    throw new Error('交易缺少签名或区块哈希')
+  }
+  const signature = bs58.encode(transaction.signature)
+
+  await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+  onLog?.(`Solana signed transaction sent: ${signature}`)
+  const outcome = await confirmWithRebroadcast(
+    connection,
+    signature,
+    rawTransaction,
+    async () => !(await connection.isBlockhashValid(recentBlockhash, { commitment: 'confirmed' })).value,
+    { commitment, rebroadcastIntervalMs, onLog },
+    transaction.instructions
+  )
+  if (outcome === 'landed') return signature
+
+  // 已签名的交易无法换区块哈希重签，确认它确实没有上链后由用户重新支付
+  const { value } = await connection
+    .getSignatureStatuses([signature], { searchTransactionHistory: true })
+    .catch(unconfirmed(signature))
+  const status = value[0]
+  if (status) {
+    if (status.err) throw new Error(describeSolanaError(status.err, null, transaction.instructions))
+    return signature
+  }
+  throw new Error('交易的区块哈希已过期，未能上链，请重新支付（未扣款）')
+}
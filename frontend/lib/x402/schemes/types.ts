@@ -0,0 +1,49 @@
+import type { PaymentAccept, SignedTransfer, X402TransferRequest } from '../types'
+
+export interface SchemeBalances {
+  address: string
+  native: string
+  nativeSymbol: string
+  token: string
+  tokenSymbol: string
+}
+
+export type ChainTransactionStatus = 'confirmed' | 'pending' | 'failed' | 'not_found'
+
+// 转账前的费用预估，金额均为可读单位；total 为需要的原生代币总额
+export interface TransferFeeEstimate {
+  nativeSymbol: string
+  networkFee: string
+  priorityFee: string
+  // 需要为收款方创建 Token 账户时的免租金押金，不需要时为 '0'
+  rentDeposit: string
+  total: string
+  nativeBalance: string
+  sufficient: boolean
+  // Token-2022 转账手续费，由付款方在代币金额之外承担
+  tokenFee: string | null
+}
+
+// 每条链各自实现：转账构建、余额读取、交易哈希格式
+export interface PaymentSchemeHandler {
+  id: string
+  label: (accept: PaymentAccept) => string
+  supports: (accept: PaymentAccept) => boolean
+  // 从链上读取资产精度，并确认 accept 声明的代币与资产一致
+  getDecimals?: (accept: PaymentAccept) => Promise<number>
+  transfer: (request: X402TransferRequest) => Promise<string>
+  // 可选：只签名不广播，交给收款方提交；钱包只支持签名并发送时返回 null，改用 transfer
+  signTransfer?: (request: X402TransferRequest) => Promise<SignedTransfer | null>
+  // 可选：自行广播 signTransfer 得到的交易并等待上链，收款方不接受已签名交易时使用
+  sendSignedTransfer?: (accept: PaymentAccept, transaction: string) => Promise<string>
+  // 可选：签名前预估网络费、优先费与租金押金，供用户确认
+  estimateFee?: (request: X402TransferRequest) => Promise<TransferFeeEstimate>
+  getBalances: (accept?: PaymentAccept) => Promise<SchemeBalances | null>
+  isValidTxHash: (hash: string) => boolean
+  // 恢复会话时用于确认交易是否已上链
+  getTransactionStatus: (txHash: string, accept: PaymentAccept) => Promise<ChainTransactionStatus>
+  // 可选：只凭订单号在链上找回转账的交易哈希，客户端未记录哈希时使用
+  findTransfer?: (accept: PaymentAccept, orderId: string) => Promise<string | null>
+  // 网关的 networkId 与 accept.network 写法可能不同，由各链判断是否同一条链
+  isSameNetwork: (a: string, b: string) => boolean
+}
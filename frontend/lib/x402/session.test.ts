@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createLocalSessionStore, sessionPreviousTransfers, sessionToTransfer, toSessionTransfer } from './session'
+import { accept } from './testFixtures'
+import type { X402Transfer } from './types'
+import { getErrorMessage } from './utils'
+
+const transfer = (txHash: string, amountInSmallestUnit: bigint): X402Transfer => ({
+  accept,
+  orderId: 'CO1',
+  amount: (Number(amountInSmallestUnit) / 1e6).toString(),
+  amountInSmallestUnit,
+  decimals: 6,
+  txHash
+})
+
+const first = transfer('tx1', BigInt(2_600_000))
+const topUp = transfer('tx2', BigInt(1_300_000))
+
+const saveFirst = () => {
+  const store = createLocalSessionStore(undefined)
+  store.save({
+    orderId: 'CO1',
+    resourceid: 'res1',
+    step: 'pending_confirm',
+    accept,
+    amount: first.amount,
+    amountInSmallestUnit: first.amountInSmallestUnit.toString(),
+    decimals: 6,
+    txHash: first.txHash
+  })
+  return store
+}
+
+test('补款后会话保留首笔转账，恢复时还原为 previousTransfers', () => {
+  const store = saveFirst()
+  const session = store.update('CO1', {
+    txHash: topUp.txHash,
+    amount: topUp.amount,
+    amountInSmallestUnit: topUp.amountInSmallestUnit.toString(),
+    payments: [first, topUp].map(toSessionTransfer)
+  })
+
+  assert.ok(session)
+  assert.deepEqual(sessionToTransfer(session), topUp)
+  assert.deepEqual(sessionPreviousTransfers(session), [first])
+})
+
+test('没有补款或旧版本的会话没有此前的转账', () => {
+  const session = saveFirst().get('CO1')
+
+  assert.ok(session)
+  assert.equal(session.payments, undefined)
+  assert.deepEqual(sessionPreviousTransfers(session), [])
+})
+
+test('localStorage 读写失败时交给 onError，读取按空列表处理', () => {
+  const errors: unknown[] = []
+  const storage = {
+    getItem: () => '{not json',
+    setItem: () => {
+      throw new Error('QuotaExceededError')
+    }
+  } as unknown as Storage
+  const store = createLocalSessionStore(storage, undefined, (error) => errors.push(error))
+
+  assert.deepEqual(store.list(), [])
+  assert.ok(errors[0] instanceof SyntaxError)
+
+  store.save({ orderId: 'CO1', resourceid: 'res1', step: 'pending_transfer', accept, amount: '2.6', amountInSmallestUnit: '2600000', decimals: 6, txHash: '' })
+  assert.equal(getErrorMessage(errors[errors.length - 1]), 'QuotaExceededError')
+})
+
+test('签名模式下保存的已签名交易在恢复时随转账还原', () => {
+  const store = saveFirst()
+  const session = store.update('CO1', { transaction: 'c2lnbmVk' })
+
+  assert.ok(session)
+  assert.deepEqual(sessionToTransfer(session), { ...first, transaction: 'c2lnbmVk' })
+})
@@ -0,0 +1,150 @@
+import type { PaymentAccept, X402Transfer } from './types'
+
+export type PaymentSessionStep =
+  | 'select_network'
+  | 'select_amount'
+  | 'pending_transfer'
+  | 'pending_confirm'
+  | 'success'
+  | 'failed'
+
+// 一次支付流程的快照，每次步骤变化时写入本地存储，页面重载后据此恢复
+export interface PaymentSession {
+  orderId: string
+  resourceid: string
+  step: PaymentSessionStep
+  accept: PaymentAccept | null
+  amount: string
+  amountInSmallestUnit: string
+  decimals: number
+  txHash: string
+  // 签名模式下随 X-PAYMENT 提交的已签名交易（base64）；页面在网关提交前被关闭时，恢复后据此重新提交
+  transaction?: string
+  // 部分支付后补款时该订单提交过的全部转账，按提交顺序，最后一笔即上面的 txHash / amount；没有补款或旧版本保存的会话没有该字段
+  payments?: PaymentSessionTransfer[]
+  createdAt: number
+  updatedAt: number
+}
+
+export interface PaymentSessionTransfer {
+  txHash: string
+  amount: string
+  amountInSmallestUnit: string
+}
+
+export interface PaymentSessionStore {
+  get: (orderId: string) => PaymentSession | null
+  save: (session: Omit<PaymentSession, 'createdAt' | 'updatedAt'> & Partial<Pick<PaymentSession, 'createdAt'>>) => PaymentSession
+  update: (orderId: string, patch: Partial<Omit<PaymentSession, 'orderId' | 'createdAt' | 'updatedAt'>>) => PaymentSession | null
+  remove: (orderId: string) => void
+  list: () => PaymentSession[]
+  listUnfinished: () => PaymentSession[]
+}
+
+export const PAYMENT_SESSION_STORAGE_KEY = 'x402:payment-sessions'
+const MAX_STORED_SESSIONS = 20
+
+// 钱包已签名（或即将签名）但订单尚未确认的会话需要恢复
+export const isSessionUnfinished = (session: PaymentSession): boolean =>
+  session.step === 'pending_transfer' || session.step === 'pending_confirm'
+
+export const sessionToTransfer = (session: PaymentSession): X402Transfer | null => {
+  if (!session.accept || !session.txHash) return null
+  return {
+    accept: session.accept,
+    orderId: session.orderId,
+    amount: session.amount,
+    amountInSmallestUnit: BigInt(session.amountInSmallestUnit || '0'),
+    decimals: session.decimals,
+    txHash: session.txHash,
+    ...(session.transaction ? { transaction: session.transaction } : {})
+  }
+}
+
+export const toSessionTransfer = (transfer: X402Transfer): PaymentSessionTransfer => ({
+  txHash: transfer.txHash,
+  amount: transfer.amount,
+  amountInSmallestUnit: transfer.amountInSmallestUnit.toString()
+})
+
+// 当前交易之前已提交的转账，恢复流程据此还原状态机的 previousTransfers
+export const sessionPreviousTransfers = (session: PaymentSession): X402Transfer[] => {
+  const { accept } = session
+  if (!accept) return []
+  return (session.payments ?? [])
+    .filter((payment) => payment.txHash !== session.txHash)
+    .map((payment) => ({
+      accept,
+      orderId: session.orderId,
+      amount: payment.amount,
+      amountInSmallestUnit: BigInt(payment.amountInSmallestUnit || '0'),
+      decimals: session.decimals,
+      txHash: payment.txHash
+    }))
+}
+
+// storage 缺失（SSR、隐私模式）时退化为内存存储
+export const createLocalSessionStore = (
+  storage: Storage | undefined = typeof window === 'undefined' ? undefined : window.localStorage,
+  key: string = PAYMENT_SESSION_STORAGE_KEY,
+  // 会话读写失败时回调，例如超出存储配额
+  onError?: (error: unknown) => void
+): PaymentSessionStore => {
+  let memory: PaymentSession[] = []
+
+  const readAll = (): PaymentSession[] => {
+    if (!storage) return memory
+    try {
+      const parsed = JSON.parse(storage.getItem(key) || '[]')
+      return Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      onError?.(error)
+      return []
+    }
+  }
+
+  const writeAll = (sessions: PaymentSession[]) => {
+    // 只保留最近的会话，未完成的会话始终保留
+    const sorted = [...sessions].sort((a, b) => b.updatedAt - a.updatedAt)
+    const kept = sorted.filter((session, index) => index < MAX_STORED_SESSIONS || isSessionUnfinished(session))
+    if (!storage) {
+      memory = kept
+      return
+    }
+    try {
+      storage.setItem(key, JSON.stringify(kept))
+    } catch (error) {
+      onError?.(error)
+    }
+  }
+
+  const get = (orderId: string) => readAll().find((session) => session.orderId === orderId) ?? null
+
+  const save: PaymentSessionStore['save'] = (input) => {
+    const sessions = readAll()
+    const existing = sessions.find((session) => session.orderId === input.orderId)
+    const now = Date.now()
+    const session: PaymentSession = { ...input, createdAt: existing?.createdAt ?? input.createdAt ?? now, updatedAt: now }
+    writeAll([session, ...sessions.filter((item) => item.orderId !== input.orderId)])
+    return session
+  }
+
+  const update: PaymentSessionStore['update'] = (orderId, patch) => {
+    const existing = get(orderId)
+    if (!existing) return null
+    return save({ ...existing, ...patch })
+  }
+
+  const remove = (orderId: string) => {
+    writeAll(readAll().filter((session) => session.orderId !== orderId))
+  }
+
+  return {
+    get,
+    save,
+    update,
+    remove,
+    list: readAll,
+    listUnfinished: () => readAll().filter(isSessionUnfinished)
+  }
+}
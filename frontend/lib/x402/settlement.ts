@@ -0,0 +1,76 @@
+import type { X402HttpResponse, X402Transfer } from './types'
+import { decodeBase64Json } from './utils'
+
+export const X_PAYMENT_RESPONSE_HEADER = 'X-PAYMENT-RESPONSE'
+
+// X-PAYMENT-RESPONSE 解码后的结算信息
+export interface SettlementResponse {
+  success: boolean
+  txHash: string
+  networkId: string
+  errorReason?: string
+}
+
+export type SettlementCheck =
+  | { ok: true }
+  | { ok: false; reason: 'invalid_header' | 'settlement_failed' | 'tx_mismatch' | 'network_mismatch'; message: string }
+
+export const decodePaymentResponseHeader = (value: string): SettlementResponse => {
+  let data: Partial<SettlementResponse>
+  try {
+    data = decodeBase64Json<Partial<SettlementResponse>>(value)
+  } catch {
+    throw new Error('X-PAYMENT-RESPONSE 不是合法的 base64 JSON')
+  }
+  if (typeof data.success !== 'boolean') {
+    throw new Error('X-PAYMENT-RESPONSE 缺少 success 字段')
+  }
+  return {
+    success: data.success,
+    txHash: typeof data.txHash === 'string' ? data.txHash : '',
+    networkId: typeof data.networkId === 'string' ? data.networkId : '',
+    ...(data.errorReason ? { errorReason: String(data.errorReason) } : {})
+  }
+}
+
+export const readSettlementHeader = (response: X402HttpResponse): string | undefined => {
+  const name = X_PAYMENT_RESPONSE_HEADER.toLowerCase()
+  const key = Object.keys(response.headers || {}).find((header) => header.toLowerCase() === name)
+  return key ? response.headers[key] : undefined
+}
+
+// EVM 哈希大小写不敏感，Solana 签名是 base58 需要精确比较
+const isSameTxHash = (a: string, b: string): boolean =>
+  a === b || (a.startsWith('0x') && a.toLowerCase() === b.toLowerCase())
+
+const defaultIsSameNetwork = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// 网关声称结算的交易必须就是我们提交的那一笔
+export const verifySettlement = (
+  settlement: SettlementResponse,
+  transfer: X402Transfer,
+  isSameNetwork: (a: string, b: string) => boolean = defaultIsSameNetwork
+): SettlementCheck => {
+  if (!settlement.success) {
+    return {
+      ok: false,
+      reason: 'settlement_failed',
+      message: `网关结算失败${settlement.errorReason ? `：${settlement.errorReason}` : ''}`
+    }
+  }
+  if (!settlement.txHash || !isSameTxHash(settlement.txHash, transfer.txHash)) {
+    return {
+      ok: false,
+      reason: 'tx_mismatch',
+      message: `结算交易与提交的交易不一致：网关 ${settlement.txHash || '-'}，本地 ${transfer.txHash}`
+    }
+  }
+  if (!settlement.networkId || !isSameNetwork(settlement.networkId, transfer.accept.network)) {
+    return {
+      ok: false,
+      reason: 'network_mismatch',
+      message: `结算网络与支付网络不一致：网关 ${settlement.networkId || '-'}，本地 ${transfer.accept.network}`
+    }
+  }
+  return { ok: true }
+}
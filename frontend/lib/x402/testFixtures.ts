@@ -0,0 +1,19 @@
+import type { PaymentAccept } from './types'
+
+// 测试共用的报价，各测试按需覆盖网络、代币与收款地址
+export const createTestAccept = (overrides: Partial<PaymentAccept> = {}): PaymentAccept => ({
+  scheme: 'exact',
+  network: 'solana-localnet',
+  asset: 'Mint1111111111111111111111111111111111111111',
+  symbol: 'USDC',
+  decimals: 6,
+  payTo: 'PayTo111111111111111111111111111111111111111',
+  resource: '/openapi/crypto/x402/order',
+  description: 'Payment for order',
+  nonce: 'abc123',
+  expires: 600,
+  maxAmountRequired: '2600000',
+  ...overrides
+})
+
+export const accept = createTestAccept()
@@ -0,0 +1,152 @@
+import type { SettlementCheck, SettlementResponse } from './settlement'
+
+export interface PaymentAccept {
+  scheme: string
+  network: string
+  asset: string
+  symbol: string
+  // OpenAPI 中声明为 string，实际网关可能返回 number
+  decimals?: number | string | null
+  payTo: string
+  resource: string
+  description: string
+  nonce: string
+  expires: number
+  // 与上游 x402 一致，使用资产最小单位；exact 需按此金额支付，upto 为可支付上限
+  maxAmountRequired?: string
+  // 上游 x402 的 scheme 扩展信息
+  extra?: PaymentAcceptExtra
+}
+
+export interface PaymentAcceptExtra {
+  // 收款方接受客户端签名但未广播的交易，由其校验后提交上链
+  signedTransaction?: boolean
+}
+
+// 402 响应体，receivedAt 为客户端收到挑战的时间，用于换算相对的 expires
+export interface PaymentResponse {
+  x402Version: number
+  accepts: PaymentAccept[]
+  orderId: string
+  receivedAt: number
+}
+
+// X-PAYMENT header 解码后的内容
+export interface XPaymentPayload {
+  x402Version: number
+  scheme: string
+  network: string
+  orderId: string
+  payload: {
+    amount: string
+    txHash: string
+    // 回传 402 挑战中的 nonce 与 resource，便于网关拒绝重放
+    nonce: string
+    resource: string
+    // 签名模式：已签名未广播的交易（base64），由收款方校验后提交；txHash 为该交易的签名
+    transaction?: string
+  }
+}
+
+export type PayStatus = 'Not Paid' | 'Partially Paid' | 'Fully Paid' | 'Over Paid'
+
+// GET /order/{orderId} 的返回，paidAmount 与 X-PAYMENT 一样使用最小单位
+export interface OrderStatus {
+  orderId: string
+  orderStatus: string
+  message: string
+  payStatus: PayStatus
+  paidAmount: string
+  transactionFee: string
+  gasFee: string
+  txHash: string
+}
+
+export interface X402HttpResponse<T = unknown> {
+  status: number
+  headers: Record<string, string>
+  body: T
+}
+
+// 发送 HTTP 请求的方式可替换：浏览器 fetch、axios 封装、Node 脚本等
+export type X402Transport = (url: string, init: RequestInit) => Promise<X402HttpResponse>
+
+export interface X402TransferRequest {
+  accept: PaymentAccept
+  orderId: string
+  amount: string
+  amountInSmallestUnit: bigint
+  decimals: number
+}
+
+// 只签名不广播的转账；交易哈希在签名时即已确定
+export interface SignedTransfer {
+  txHash: string
+  transaction: string
+}
+
+// 签名方负责真正完成链上转账并返回交易哈希
+export interface X402Signer {
+  supports: (accept: PaymentAccept) => boolean
+  // 可选：以链上资产精度为准，未实现时使用 accept.decimals
+  getDecimals?: (accept: PaymentAccept) => Promise<number>
+  pay: (request: X402TransferRequest) => Promise<string>
+  // 可选：只签名不广播，交给收款方提交；钱包只支持签名并发送时返回 null
+  sign?: (request: X402TransferRequest) => Promise<SignedTransfer | null>
+  // 可选：收款方不接受已签名交易时，由客户端自行广播 sign 得到的交易并等待上链，返回交易哈希
+  sendSigned?: (accept: PaymentAccept, transaction: string) => Promise<string>
+}
+
+export interface X402Transfer {
+  accept: PaymentAccept
+  orderId: string
+  amount: string
+  amountInSmallestUnit: bigint
+  decimals: number
+  txHash: string
+  // 签名模式下尚未广播的交易，随 X-PAYMENT 提交给收款方
+  transaction?: string
+}
+
+export type X402RequestResult =
+  | { status: 'payment_required'; challenge: PaymentResponse; response: X402HttpResponse }
+  | { status: 'completed'; response: X402HttpResponse }
+
+// settlement_rejected：X-PAYMENT-RESPONSE 显示失败，或与提交的交易对不上
+export interface X402ConfirmResult {
+  status: 'confirmed' | 'waiting' | 'failed' | 'settlement_rejected'
+  message: string
+  orderId: string
+  payment: XPaymentPayload
+  response: X402HttpResponse
+  settlement: SettlementResponse | null
+  settlementCheck?: SettlementCheck
+}
+
+export interface X402PaymentResult extends X402ConfirmResult {
+  transfer: X402Transfer
+}
+
+export type X402FetchResult =
+  | { paid: false; response: X402HttpResponse }
+  | ({ paid: true } & X402PaymentResult)
+
+// 已完成订单的记录，保存结算信息以便对账
+export interface PaymentRecord {
+  orderId: string
+  resource: string
+  network: string
+  asset: string
+  symbol: string
+  // 报价中的收款地址与 nonce，和 txHash、amountInSmallestUnit 一起即 X-PAYMENT 上报的内容，对账时据此推导订单引用
+  payTo: string
+  nonce: string
+  amount: string
+  amountInSmallestUnit: string
+  txHash: string
+  // 该订单提交过的全部 X-PAYMENT，按提交顺序；部分支付后补款时不止一笔，最后一笔即上面的 txHash / amountInSmallestUnit
+  payments: { txHash: string; amountInSmallestUnit: string }[]
+  settlement: SettlementResponse | null
+  orderStatus: OrderStatus | null
+  completedAt: number
+}
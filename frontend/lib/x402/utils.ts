@@ -0,0 +1,95 @@
+export const DEFAULT_DECIMALS = 6
+
+// 超出资产精度的小数位直接报错，不再静默截断
+export const amountToSmallestUnit = (value: string, decimals: number): bigint => {
+  const trimmed = String(value ?? '').trim()
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+    throw new Error(`金额格式不正确：${value}`)
+  }
+  const [integerPart, fractionalPart = ''] = trimmed.split('.')
+  if (fractionalPart.length > decimals) {
+    throw new Error(`金额 ${trimmed} 超出精度，最多支持 ${decimals} 位小数`)
+  }
+  return BigInt(`${integerPart}${fractionalPart.padEnd(decimals, '0')}`)
+}
+
+export const formatSmallestUnit = (value: bigint | string, decimals: number): string => {
+  const raw = BigInt(value).toString().padStart(decimals + 1, '0')
+  const integerPart = raw.slice(0, raw.length - decimals)
+  const fractionalPart = raw.slice(raw.length - decimals).replace(/0+$/, '')
+  return fractionalPart ? `${integerPart}.${fractionalPart}` : integerPart
+}
+
+// decimals 为 0 的资产是合法的，只有缺失或非法值才使用 fallback
+export const resolveDecimals = (decimals?: number | string | null, fallback: number = DEFAULT_DECIMALS): number => {
+  if (decimals === undefined || decimals === null || decimals === '') {
+    return fallback
+  }
+  const parsed = Number(decimals)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    return fallback
+  }
+  return parsed
+}
+
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message || error.toString()
+  }
+  if (typeof error === 'string') {
+    return error
+  }
+  try {
+    return JSON.stringify(error)
+  } catch {
+    return String(error)
+  }
+}
+
+// 交易已广播但未能确认结果（查询状态失败、等待回执超时），可能已经扣款；txHash 供调用方记账与稍后核对
+export class UnconfirmedTransferError extends Error {
+  constructor(
+    readonly txHash: string,
+    reason: string
+  ) {
+    super(`交易 ${txHash} 已发送，但未能确认结果：${reason}`)
+    this.name = 'UnconfirmedTransferError'
+  }
+}
+
+export const encodeBase64Json = (value: unknown): string => btoa(JSON.stringify(value))
+
+export const decodeBase64Json = <T>(value: string): T => JSON.parse(atob(value)) as T
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error('已取消'))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason ?? new Error('已取消'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+// 网络统一成规范名，accept.network 的第一段（solana-devnet → solana）与别名比较
+export const NETWORK_ALIASES: Record<string, string[]> = {
+  solana: ['solana', '索拉纳'],
+  ethereum: ['ethereum', 'eth', 'sepolia', 'mainnet', '以太坊'],
+  base: ['base'],
+  bsc: ['bsc', 'bnb', '币安链'],
+  polygon: ['polygon', 'matic', 'amoy'],
+  arbitrum: ['arbitrum', 'arb']
+}
+
+export const normalizeNetwork = (network: string): string => {
+  const head = network.toLowerCase().split(/[-:_\s]/)[0]
+  const entry = Object.entries(NETWORK_ALIASES).find(([name, aliases]) => name === head || aliases.includes(head))
+  return entry ? entry[0] : head
+}